@@ -1,20 +1,55 @@
 import { EventBus } from './core/EventBus';
 import { History } from './model/History';
 import { DocumentModel } from './model/Document';
-import type { BlendMode, Layer, LayerContent, LayerEffect } from './model/Layer';
+import type { BlendMode, GroupContent, Layer, LayerContent, LayerEffect, LayerMask, RasterMask, ShapeKind } from './model/Layer';
 import { Layer as LayerModel } from './model/Layer';
-import { Renderer } from './renderer/Renderer';
+import { Renderer, ROTATE_HANDLE_OFFSET } from './renderer/Renderer';
+import { containsPoint, layerBounds, layerCenter, lockedAspectRatio, normalizeRotation, rectsIntersect, resizeBox, resizeHandlePoints, selectionBounds, toLayerFrame } from './model/LayerTransform';
+import type { Point, Rect, ResizeHandle, TransformBox } from './model/LayerTransform';
+import { alignLayers, ALIGN_EDGES, distributeLayers } from './model/Arrange';
+import { CANVAS_BLEND_MODES, GPU_BLEND_MODES } from './model/BlendModes';
+import type { AlignEdge, DistributeAxis } from './model/Arrange';
 import { Viewport } from './renderer/Viewport';
 import { RulerRenderer } from './renderer/RulerRenderer';
 import { LayersPanel } from './ui/LayersPanel';
 import { EffectsPanel } from './ui/EffectsPanel';
-import type { EffectParam } from './effects/Effect';
+import { ExportDialog } from './ui/ExportDialog';
+import { TextPanel } from './ui/TextPanel';
+import type { TextPatch } from './ui/TextPanel';
+import { TextTool, createTextContent } from './tools/TextTool';
+import { ShapePanel } from './ui/ShapePanel';
+import { DEFAULT_SHAPE_SIZE, SHAPE_KINDS, createShapeContent, lineEndpoints, shapeDragBox } from './tools/ShapeTool';
+import { MaskPanel } from './ui/MaskPanel';
+import { copyRasterMask, createMask, fillMaskCanvas, maskPoint, paintMaskStroke } from './tools/MaskTool';
+import type { MaskBrush } from './tools/MaskTool';
+import { layoutText } from './renderer/TextRasterizer';
+import { Exporter, EXPORT_EXTENSION, downloadBlob } from './io/Exporter';
+import { PROJECT_EXTENSION, parseProject, serializeProject } from './io/ProjectFile';
+import { loadImage } from './io/loadImage';
+import { createPreset, parsePresetFile, serializePresets } from './io/PresetFile';
+import type { EffectPreset } from './io/PresetFile';
+import { PresetStore } from './io/PresetStore';
+import { PresetsPanel } from './ui/PresetsPanel';
+import type { EffectMask, EffectParam } from './effects/Effect';
+import { paramValueKey } from './effects/Effect';
 import { cloneLayerEffects } from './effects/EffectStack';
+import { effectRegistry } from './effects/EffectRegistry';
+import { DEFAULT_DRIVER, animatableProperties, applyAnimation, cloneKeyframes, driversEqual, frameCount, frameTime, isAnimatableParam, keyAnimatedEdits, keyframeAt, keyframesEqual, loopLength, removeKeyframe, setKeyframe, timeFrame } from './model/Animation';
+import type { AnimatableProperty, AnimationSettings, KeyframeTrack, LayerKeyframes } from './model/Animation';
+import { TimelinePanel } from './ui/TimelinePanel';
+import type { TimelineTrack } from './ui/TimelinePanel';
 
 declare const __BUILD_TAG__: string;
 
 interface AppEvents { rerender: undefined; }
-type DragMode = 'move' | 'resize-nw' | 'resize-ne' | 'resize-sw' | 'resize-se';
+type DragMode = 'move' | 'rotate' | `resize-${ResizeHandle}` | 'create-shape' | 'marquee' | 'paint-mask';
+
+interface DragModifiers {
+  shift: boolean;
+  alt: boolean;
+  /** Shift or Cmd/Ctrl: extend the selection instead of replacing it. */
+  additive: boolean;
+}
 
 interface LayerSnapshot {
   id: string;
@@ -23,26 +58,50 @@ interface LayerSnapshot {
   locked: boolean;
   opacity: number;
   blendMode: BlendMode;
+  clipToBelow: boolean;
   x: number;
   y: number;
   width: number;
   height: number;
-  content: LayerContent;
+  rotation: number;
+  flipX: boolean;
+  flipY: boolean;
+  content: SnapshotContent;
   effects: LayerEffect[];
+  mask: LayerMask | null;
+  keyframes: LayerKeyframes;
 }
 
+/** Layer content with group children captured as snapshots too. */
+type SnapshotContent = Exclude<LayerContent, GroupContent> | { type: 'group'; children: LayerSnapshot[] };
+
 interface DocumentSnapshot {
   width: number;
   height: number;
   activeLayerId: string | null;
+  selectedLayerIds: string[];
   layers: LayerSnapshot[];
+  animation: AnimationSettings;
 }
 
+/** A keyframeable value of the active layer, resolved from a timeline track id. */
+interface TimelineTarget {
+  keyframes: KeyframeTrack | undefined;
+  value: number;
+  /** Swaps in a new track, or drops it for null. */
+  replace: (track: KeyframeTrack | null) => void;
+}
+
+const PROPERTY_LABELS: Record<AnimatableProperty, string> = { x: 'X', y: 'Y', width: 'Width', height: 'Height', opacity: 'Opacity' };
+
 const TOOL_HELP: Record<string, string> = {
-  Move: 'Move tool: drag selected layers to reposition. Drag corner handles to resize.',
+  Move: 'Move tool: drag selected layers to reposition; Shift-click or drag a marquee to select several. Drag handles to resize (Shift keeps ratio, Alt from center), or the top handle to rotate.',
   Select: 'Select tool: keeps layer focus while you adjust transform/layer settings.',
   Hand: 'Hand tool: click-drag to pan the full document view.',
-  Zoom: 'Zoom tool: use wheel or +/- controls to zoom the document and rulers in 5% steps.'
+  Zoom: 'Zoom tool: use wheel or +/- controls to zoom the document and rulers in 5% steps.',
+  Text: 'Text tool: click the canvas to add a text layer, or click existing text to edit it. Esc finishes editing.',
+  Shape: 'Shape tool: drag on the canvas to draw the shape chosen in the options bar. Click for a default-size shape.',
+  Mask: 'Mask tool: paint on the active layer\'s painted mask to hide it, or switch the brush to Reveal. Hold Alt to paint the opposite way.'
 };
 
 export class App {
@@ -54,8 +113,32 @@ export class App {
   private readonly rulerRenderer = new RulerRenderer();
   private readonly layersPanel: LayersPanel;
   private readonly effectsPanel: EffectsPanel;
+  private readonly exportDialog: ExportDialog;
+  private readonly textPanel: TextPanel;
+  private readonly textTool: TextTool;
+  private readonly shapePanel: ShapePanel;
+  private shapeKind: ShapeKind = 'rectangle';
+  private readonly maskPanel: MaskPanel;
+  private readonly maskBrush: MaskBrush = { size: 40, reveal: false };
+  private readonly presetsPanel: PresetsPanel;
+  private readonly timelinePanel: TimelinePanel;
+  /** Playhead position in seconds, always on a frame boundary. */
+  private currentTime = 0;
+  private playbackFrame: number | null = null;
+  /** Null until IndexedDB opens, or when it is unavailable; presets then last for the session. */
+  private presetStore: PresetStore | null = null;
+  private presets: EffectPreset[] = [];
+  private presetMessage: string | null = null;
+  /** Effects copied from a layer or a single card, pasted with Layer → Paste Effects; null until a copy. */
+  private effectClipboard: LayerEffect[] | null = null;
+  private maskStrokeLast: Point | null = null;
+  /** Effect whose painted mask the Mask tool edits instead of the layer's; null for the layer mask. */
+  private effectMaskTarget: { layerId: string; index: number } | null = null;
+  private readonly exporter = new Exporter();
+  private projectName = 'untitled';
   private activeTool = 'Move';
   private autoSelect = true;
+  private aspectLocked = false;
   private activeMenu: string | null = null;
   private hoveredHelp: string | null = null;
   private menuCloseTimer: number | null = null;
@@ -64,12 +147,17 @@ export class App {
   private dragLayerId: string | null = null;
   private dragStartX = 0;
   private dragStartY = 0;
-  private dragOrigin = { x: 0, y: 0, width: 0, height: 0 };
+  /** The dragged frame: the single selected layer's box, or the selection's bounds. */
+  private dragOrigin: TransformBox = { x: 0, y: 0, width: 0, height: 0, rotation: 0 };
+  private dragLayerOrigins = new Map<string, Rect>();
+  private marquee: Rect | null = null;
+  private marqueeBase: string[] = [];
   private dragHistoryBefore: DocumentSnapshot | null = null;
   private panning = false;
   private panStartClientX = 0;
   private panStartClientY = 0;
   private effectParamBefore: DocumentSnapshot | null = null;
+  private textEditBefore: DocumentSnapshot | null = null;
   private paramCommitTimer: number | null = null;
   private skipEffectsPanelRender = false;
 
@@ -88,8 +176,9 @@ export class App {
     const layersRoot = this.root.querySelector<HTMLElement>('#layers-list');
     if (!layersRoot) throw new Error('Layers panel missing');
     this.layersPanel = new LayersPanel(layersRoot, {
-      onSelectLayer: (id) => {
-        this.doc.activeLayerId = id;
+      onSelectLayer: (id, additive) => {
+        if (additive) this.doc.toggleSelection(id);
+        else this.doc.activeLayerId = id;
         this.events.emit('rerender', undefined);
       },
       onDeleteLayer: (id) => {
@@ -99,21 +188,55 @@ export class App {
       },
       onToggleVisibility: (id) => {
         this.applyDocumentChange(() => {
-          const layer = this.doc.layers.find((entry) => entry.id === id);
+          const layer = this.doc.findLayer(id);
           if (!layer) return;
           layer.visible = !layer.visible;
         });
       },
       onChangeOpacity: (id, opacity) => {
         this.applyDocumentChange(() => {
-          const layer = this.doc.layers.find((entry) => entry.id === id);
+          const layer = this.doc.findLayer(id);
           if (!layer) return;
           layer.opacity = opacity;
         });
       },
+      onMoveLayer: (id, parentId, index) => {
+        this.applyDocumentChange(() => this.doc.moveToGroup(id, parentId, index));
+      },
+      onRenameLayer: (id, name) => {
+        this.applyDocumentChange(() => {
+          const layer = this.doc.findLayer(id);
+          if (layer) layer.name = name;
+        });
+      },
+      onToggleLock: (id) => {
+        this.applyDocumentChange(() => {
+          const layer = this.doc.findLayer(id);
+          if (layer) layer.locked = !layer.locked;
+        });
+      },
+      onToggleClip: (id) => {
+        this.applyDocumentChange(() => {
+          const layer = this.doc.findLayer(id);
+          if (layer) layer.clipToBelow = !layer.clipToBelow;
+        });
+      },
+      onToggleMask: (id) => {
+        this.applyDocumentChange(() => {
+          const layer = this.doc.findLayer(id);
+          if (layer?.mask) layer.mask = { ...layer.mask, enabled: !layer.mask.enabled };
+        });
+      },
+      onDropEffect: (id, effectIndex) => {
+        this.applyDocumentChange(() => {
+          const effect = this.doc.activeLayer?.effects[effectIndex];
+          const target = this.doc.findLayer(id);
+          if (effect && target) target.effects.push(...cloneLayerEffects([effect]));
+        });
+      },
       onChangeBlendMode: (id, blendMode) => {
         this.applyDocumentChange(() => {
-          const layer = this.doc.layers.find((entry) => entry.id === id);
+          const layer = this.doc.findLayer(id);
           if (!layer) return;
           layer.blendMode = blendMode;
         });
@@ -131,12 +254,24 @@ export class App {
         });
       },
       onRemoveEffect: (index) => {
+        this.effectMaskTarget = null;
         this.applyDocumentChange(() => {
           const layer = this.doc.activeLayer;
           if (!layer) return;
           layer.effects.splice(index, 1);
         });
       },
+      onCopyEffect: (index) => {
+        const effect = this.doc.activeLayer?.effects[index];
+        if (effect) this.effectClipboard = cloneLayerEffects([effect]);
+      },
+      onDuplicateEffect: (index) => {
+        this.applyDocumentChange(() => {
+          const layer = this.doc.activeLayer;
+          if (!layer?.effects[index]) return;
+          layer.effects.splice(index + 1, 0, ...cloneLayerEffects([layer.effects[index]]));
+        });
+      },
       onToggleEffect: (index) => {
         this.applyDocumentChange(() => {
           const layer = this.doc.activeLayer;
@@ -145,6 +280,7 @@ export class App {
         });
       },
       onUpdateParam: (index, paramKey, value) => {
+        this.stopPlayback();
         if (!this.effectParamBefore) {
           this.effectParamBefore = this.captureSnapshot();
         }
@@ -159,26 +295,234 @@ export class App {
         this.events.emit('rerender', undefined);
         this.skipEffectsPanelRender = false;
 
-        // Debounce history commit — one undo entry per drag, not per tick
-        if (this.paramCommitTimer !== null) {
-          window.clearTimeout(this.paramCommitTimer);
-        }
-        this.paramCommitTimer = window.setTimeout(() => {
-          this.commitHistoryEntry(this.effectParamBefore);
-          this.effectParamBefore = null;
-          this.paramCommitTimer = null;
-        }, 300);
+        this.scheduleParamCommit();
       },
       onMoveEffect: (fromIndex, toIndex) => {
+        this.effectMaskTarget = null;
         this.applyDocumentChange(() => {
           const layer = this.doc.activeLayer;
           if (!layer) return;
           const [moved] = layer.effects.splice(fromIndex, 1);
           layer.effects.splice(toIndex, 0, moved);
         });
+      },
+      onChangeEffectBlend: (index, patch) => {
+        this.applyDocumentChange(() => {
+          const effect = this.doc.activeLayer?.effects[index];
+          if (effect) Object.assign(effect, patch);
+        });
+      },
+      onSetEffectMask: (index, kind) => {
+        if (kind !== 'raster') this.effectMaskTarget = null;
+        this.applyDocumentChange(() => {
+          const layer = this.doc.activeLayer;
+          const effect = layer?.effects[index];
+          if (!layer || !effect) return;
+          if (kind === 'raster') effect.mask = createMask('raster', layer) as RasterMask;
+          else if (kind === 'luminance') effect.mask = { type: 'luminance', enabled: true, inverted: false, min: 0.5, max: 1, feather: 0.1 };
+          else effect.mask = null;
+        });
+      },
+      onChangeEffectMask: (index, patch) => {
+        this.applyDocumentChange(() => {
+          const effect = this.doc.activeLayer?.effects[index];
+          if (effect?.mask) effect.mask = { ...effect.mask, ...patch } as EffectMask;
+        });
+      },
+      onPaintEffectMask: (index) => {
+        const layer = this.doc.activeLayer;
+        this.effectMaskTarget = layer && index !== null ? { layerId: layer.id, index } : null;
+        if (this.effectMaskTarget) this.selectTool('Mask');
+        this.events.emit('rerender', undefined);
+      },
+      onSetParamDriver: (index, paramKey, wave) => {
+        this.applyDocumentChange(() => {
+          const effect = this.doc.activeLayer?.effects[index];
+          if (!effect) return;
+          const drivers = { ...effect.drivers };
+          if (wave) drivers[paramKey] = { ...DEFAULT_DRIVER, wave };
+          else delete drivers[paramKey];
+          effect.drivers = drivers;
+        });
+      },
+      onChangeParamDriver: (index, paramKey, patch) => {
+        // Tuned live, even mid-playback.
+        this.applyDocumentChange(() => {
+          const effect = this.doc.activeLayer?.effects[index];
+          const driver = effect?.drivers[paramKey];
+          if (effect && driver) effect.drivers = { ...effect.drivers, [paramKey]: { ...driver, ...patch } };
+        }, true);
+      },
+      onTogglePlay: () => this.togglePlayback()
+    });
+
+    const textRoot = this.root.querySelector<HTMLElement>('#text-props');
+    if (!textRoot) throw new Error('Text panel missing');
+    this.textPanel = new TextPanel(textRoot, {
+      onChange: (patch) => {
+        this.applyDocumentChange(() => {
+          const layer = this.doc.activeLayer;
+          if (!layer) return;
+          this.updateTextContent(layer, patch);
+        });
+      }
+    });
+
+    const shapeRoot = this.root.querySelector<HTMLElement>('#shape-props');
+    if (!shapeRoot) throw new Error('Shape panel missing');
+    this.shapePanel = new ShapePanel(shapeRoot, {
+      onChange: (patch) => {
+        this.applyDocumentChange(() => {
+          const layer = this.doc.activeLayer;
+          if (!layer || layer.content.type !== 'shape') return;
+          layer.content = { ...layer.content, ...patch };
+        });
+      }
+    });
+
+    const maskRoot = this.root.querySelector<HTMLElement>('#mask-props');
+    if (!maskRoot) throw new Error('Mask panel missing');
+    this.maskPanel = new MaskPanel(maskRoot, {
+      onAddMask: (kind) => {
+        this.applyDocumentChange(() => {
+          const layer = this.doc.activeLayer;
+          if (layer) layer.mask = createMask(kind, layer);
+        });
+      },
+      onChange: (patch) => {
+        this.applyDocumentChange(() => {
+          const layer = this.doc.activeLayer;
+          if (layer?.mask) layer.mask = { ...layer.mask, ...patch } as LayerMask;
+        });
+      },
+      onFill: (visible) => {
+        this.applyDocumentChange(() => {
+          const layer = this.doc.activeLayer;
+          if (layer?.mask?.type !== 'raster') return;
+          const mask = copyRasterMask(layer.mask);
+          fillMaskCanvas(mask.canvas, visible);
+          layer.mask = mask;
+        });
+      },
+      onRemoveMask: () => {
+        this.applyDocumentChange(() => {
+          const layer = this.doc.activeLayer;
+          if (layer) layer.mask = null;
+        });
+      }
+    });
+
+    const presetsRoot = this.root.querySelector<HTMLElement>('#presets-props');
+    if (!presetsRoot) throw new Error('Presets panel missing');
+    this.presetsPanel = new PresetsPanel(presetsRoot, {
+      onSave: (name) => {
+        const layer = this.doc.activeLayer;
+        if (!layer) return;
+        const preset = createPreset(name, layer.effects);
+        this.presets.push(preset);
+        this.presets.sort((a, b) => a.name.localeCompare(b.name));
+        void this.persistPresets([preset], `Saved "${name}"`);
+      },
+      onUpdate: (id) => {
+        const layer = this.doc.activeLayer;
+        const index = this.presets.findIndex((preset) => preset.id === id);
+        if (!layer || index < 0) return;
+        const preset = createPreset(this.presets[index].name, layer.effects, id);
+        this.presets[index] = preset;
+        void this.persistPresets([preset], `Updated "${preset.name}"`);
+      },
+      onApply: (id, toSelection) => {
+        const preset = this.presets.find((entry) => entry.id === id);
+        if (!preset) return;
+        this.applyDocumentChange(() => {
+          const targets = toSelection ? this.doc.selectedLayers : [this.doc.activeLayer];
+          for (const layer of targets) {
+            if (layer) layer.effects = cloneLayerEffects(preset.effects);
+          }
+        });
+      },
+      onDelete: (id) => {
+        this.presets = this.presets.filter((preset) => preset.id !== id);
+        this.presetMessage = null;
+        this.renderPresets();
+        void this.presetStore?.delete(id).catch((error) => this.showPresetError(error));
+      },
+      onImport: (file) => {
+        void this.importPresets(file);
+      },
+      onExport: () => {
+        downloadBlob(new Blob([serializePresets(this.presets)], { type: 'application/json' }), 'effect-presets.json');
+      }
+    });
+    void this.loadPresets();
+
+    const timelineRoot = this.root.querySelector<HTMLElement>('#timeline');
+    if (!timelineRoot) throw new Error('Timeline panel missing');
+    this.timelinePanel = new TimelinePanel(timelineRoot, {
+      onTogglePlay: () => this.togglePlayback(),
+      onSeek: (time) => {
+        this.stopPlayback();
+        this.flushPendingParamCommit();
+        this.setTime(time);
+        this.events.emit('rerender', undefined);
+      },
+      onChangeSettings: (patch) => {
+        this.applyDocumentChange(() => {
+          this.doc.animation = { ...this.doc.animation, ...patch };
+          this.setTime(this.currentTime);
+        });
+      },
+      onToggleKeyframe: (trackId) => {
+        this.applyDocumentChange(() => {
+          const target = this.timelineTarget(trackId);
+          if (!target) return;
+          target.replace(target.keyframes && keyframeAt(target.keyframes, this.currentTime)
+            ? removeKeyframe(target.keyframes, this.currentTime)
+            : setKeyframe(target.keyframes, this.currentTime, target.value));
+          // Removing a key can change the value here; follow the remaining ones.
+          applyAnimation(this.doc.layers, this.currentTime);
+        });
+      },
+      onSetEasing: (trackId, easing) => {
+        this.applyDocumentChange(() => {
+          const target = this.timelineTarget(trackId);
+          const key = keyframeAt(target?.keyframes, this.currentTime);
+          if (!target || !key) return;
+          target.replace(setKeyframe(target.keyframes, key.time, key.value, easing));
+        });
       }
     });
 
+    const canvasWrap = this.root.querySelector<HTMLElement>('#canvas-wrap');
+    if (!canvasWrap) throw new Error('Canvas wrap missing');
+    this.textTool = new TextTool(canvasWrap, {
+      onInput: (layerId, text) => {
+        const layer = this.doc.findLayer(layerId);
+        if (!layer) return;
+        this.updateTextContent(layer, { text });
+        this.events.emit('rerender', undefined);
+      },
+      onFinish: (layerId) => {
+        const layer = this.doc.findLayer(layerId);
+        // Discard text layers left empty instead of keeping invisible boxes.
+        if (layer && layer.content.type === 'text' && !layer.content.text.trim()) {
+          this.doc.deleteLayer(layerId);
+        }
+        this.commitHistoryEntry(this.textEditBefore);
+        this.textEditBefore = null;
+        this.events.emit('rerender', undefined);
+      }
+    });
+
+    this.exportDialog = new ExportDialog(this.root, {
+      onExport: (options) => this.runSafeAction(async () => {
+        this.stopPlayback();
+        this.flushPendingParamCommit();
+        const blob = await this.exporter.export(this.doc, options, this.currentTime);
+        downloadBlob(blob, `flyer.${EXPORT_EXTENSION[options.format]}`);
+      })
+    });
+
     this.bindControls(canvas);
     window.addEventListener('resize', () => this.events.emit('rerender', undefined));
     this.events.on('rerender', () => this.refreshUI());
@@ -237,6 +581,24 @@ export class App {
     window.addEventListener('keydown', (event) => {
       const key = event.key.toLowerCase();
       const meta = event.ctrlKey || event.metaKey;
+      if (meta && (key === 's' || key === 'o')) {
+        event.preventDefault();
+        if (key === 's') this.saveProject();
+        else this.root.querySelector<HTMLInputElement>('#project-input')?.click();
+        return;
+      }
+      if (meta && key === 'j') {
+        if (this.isEditableTarget(event.target)) return;
+        event.preventDefault();
+        this.handleMenuAction('duplicate');
+        return;
+      }
+      if (meta && key === 'g') {
+        if (this.isEditableTarget(event.target)) return;
+        event.preventDefault();
+        this.handleMenuAction(event.shiftKey ? 'ungroup' : 'group');
+        return;
+      }
       if (meta && key === 'z') {
         if (this.isEditableTarget(event.target)) return;
         event.preventDefault();
@@ -245,26 +607,32 @@ export class App {
         return;
       }
       if (event.key !== 'Escape') return;
+      this.exportDialog.close();
       this.activeMenu = null;
       this.syncMenuState();
     });
 
     this.root.querySelectorAll<HTMLElement>('.tool-btn').forEach((button) => {
-      button.addEventListener('click', () => {
-        this.root.querySelectorAll('.tool-btn').forEach((entry) => entry.classList.remove('active'));
-        button.classList.add('active');
-        this.activeTool = button.dataset.tool ?? 'Move';
-        const toolSelect = this.root.querySelector<HTMLSelectElement>('#tool-select');
-        if (toolSelect) toolSelect.value = this.activeTool;
-        this.events.emit('rerender', undefined);
-      });
+      button.addEventListener('click', () => this.selectTool(button.dataset.tool ?? 'Move'));
     });
 
     this.root.querySelector<HTMLSelectElement>('#tool-select')?.addEventListener('change', (event) => {
-      const selected = (event.target as HTMLSelectElement).value;
-      this.activeTool = selected;
-      this.root.querySelectorAll<HTMLElement>('.tool-btn').forEach((entry) => entry.classList.toggle('active', entry.dataset.tool === selected));
-      this.events.emit('rerender', undefined);
+      this.selectTool((event.target as HTMLSelectElement).value);
+    });
+
+    this.root.querySelector<HTMLSelectElement>('#shape-kind')?.addEventListener('change', (event) => {
+      this.shapeKind = (event.target as HTMLSelectElement).value as ShapeKind;
+    });
+
+    this.root.querySelector<HTMLInputElement>('#mask-brush-size')?.addEventListener('change', (event) => {
+      const input = event.target as HTMLInputElement;
+      const size = Number(input.value);
+      if (Number.isFinite(size) && size >= 1) this.maskBrush.size = size;
+      input.value = `${this.maskBrush.size}`;
+    });
+
+    this.root.querySelector<HTMLSelectElement>('#mask-brush-mode')?.addEventListener('change', (event) => {
+      this.maskBrush.reveal = (event.target as HTMLSelectElement).value === 'reveal';
     });
 
     this.root.querySelector<HTMLInputElement>('#auto-select')?.addEventListener('change', (event) => {
@@ -287,8 +655,40 @@ export class App {
     this.root.querySelector('#zoom-out')?.addEventListener('click', () => this.applyZoom(-0.05));
     this.root.querySelector('#zoom-fit')?.addEventListener('click', () => this.fitToViewport());
 
-    for (const key of ['x', 'y', 'w', 'h'] as const) {
-      this.root.querySelector<HTMLInputElement>(`#transform-${key}`)?.addEventListener('change', () => this.applyTransformInputs());
+    this.root.querySelector('#flip-h')?.addEventListener('click', () => this.applyDocumentChange(() => {
+      const layer = this.doc.activeLayer;
+      if (layer && layer.content.type !== 'group') layer.flipX = !layer.flipX;
+    }));
+    this.root.querySelector('#flip-v')?.addEventListener('click', () => this.applyDocumentChange(() => {
+      const layer = this.doc.activeLayer;
+      if (layer && layer.content.type !== 'group') layer.flipY = !layer.flipY;
+    }));
+
+    this.root.querySelectorAll<HTMLElement>('[data-align]').forEach((button) => {
+      button.addEventListener('click', () => this.alignSelection(button.dataset.align as AlignEdge));
+    });
+    this.root.querySelectorAll<HTMLElement>('[data-distribute]').forEach((button) => {
+      button.addEventListener('click', () => this.applyDocumentChange(() => {
+        distributeLayers(this.unlockedSelection(), button.dataset.distribute as DistributeAxis);
+      }));
+    });
+
+    this.root.querySelector('#transform-lock')?.addEventListener('click', () => {
+      this.aspectLocked = !this.aspectLocked;
+      this.syncTransformPanel();
+    });
+    this.root.querySelector('#transform-natural')?.addEventListener('click', () => this.applyDocumentChange(() => {
+      const layer = this.doc.activeLayer;
+      if (!layer || layer.content.type !== 'image') return;
+      const center = layerCenter(layer);
+      layer.width = layer.content.naturalWidth;
+      layer.height = layer.content.naturalHeight;
+      layer.x = center.x - layer.width / 2;
+      layer.y = center.y - layer.height / 2;
+    }));
+
+    for (const key of ['x', 'y', 'w', 'h', 'r'] as const) {
+      this.root.querySelector<HTMLInputElement>(`#transform-${key}`)?.addEventListener('change', () => this.applyTransformInputs(key));
     }
 
     const fileInput = this.root.querySelector<HTMLInputElement>('#file-input');
@@ -299,6 +699,14 @@ export class App {
       (event.target as HTMLInputElement).value = '';
     });
 
+    const projectInput = this.root.querySelector<HTMLInputElement>('#project-input');
+    projectInput?.addEventListener('change', async (event) => {
+      const file = (event.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+      await this.runSafeAction(() => this.openProject(file));
+      (event.target as HTMLInputElement).value = '';
+    });
+
     const canvasWrap = this.root.querySelector<HTMLElement>('#canvas-wrap');
     canvasWrap?.addEventListener('dragover', (event) => { event.preventDefault(); canvasWrap.classList.add('drag-over'); });
     canvasWrap?.addEventListener('dragleave', () => canvasWrap.classList.remove('drag-over'));
@@ -321,20 +729,36 @@ export class App {
       }
 
       if (!this.dragMode) return;
-      this.onCanvasDrag(this.screenToCanvasFromClient(event.clientX, event.clientY, canvas));
+      this.onCanvasDrag(this.screenToCanvasFromClient(event.clientX, event.clientY, canvas), this.dragModifiers(event));
     });
 
     canvas.addEventListener('mousedown', (event) => {
+      if (this.activeTool === 'Text') {
+        // Keep focus on the text editor opened by this click.
+        event.preventDefault();
+        this.onTextDown(this.screenToCanvas(event, canvas));
+        return;
+      }
       if (this.activeTool === 'Hand') {
         this.panning = true;
         this.panStartClientX = event.clientX;
         this.panStartClientY = event.clientY;
         return;
       }
-      this.onCanvasDown(this.screenToCanvas(event, canvas));
+      this.onCanvasDown(this.screenToCanvas(event, canvas), this.dragModifiers(event));
     });
     window.addEventListener('mouseup', () => { this.clearDrag(); this.panning = false; });
 
+    canvas.addEventListener('dblclick', (event) => {
+      if (this.activeTool !== 'Move') return;
+      this.textTool.finish();
+      const point = this.screenToCanvas(event, canvas);
+      const layer = this.findLayerAtPoint(point.x, point.y);
+      if (!layer || layer.content.type !== 'text') return;
+      this.doc.activeLayerId = layer.id;
+      this.beginTextEdit(layer, this.captureSnapshot());
+    });
+
     canvas.addEventListener('wheel', (event) => {
       event.preventDefault();
       const delta = event.deltaY < 0 ? 0.05 : -0.05;
@@ -366,91 +790,361 @@ export class App {
     this.menuCloseTimer = null;
   }
 
-  private onCanvasDown(point: { x: number; y: number }): void {
+  private selectTool(tool: string): void {
+    this.activeTool = tool;
+    this.root.querySelectorAll<HTMLElement>('.tool-btn').forEach((entry) => entry.classList.toggle('active', entry.dataset.tool === tool));
+    const toolSelect = this.root.querySelector<HTMLSelectElement>('#tool-select');
+    if (toolSelect) toolSelect.value = tool;
+    this.events.emit('rerender', undefined);
+  }
+
+  private dragModifiers(event: MouseEvent): DragModifiers {
+    return { shift: event.shiftKey, alt: event.altKey, additive: event.shiftKey || event.metaKey || event.ctrlKey };
+  }
+
+  private onCanvasDown(point: { x: number; y: number }, modifiers: DragModifiers): void {
+    this.stopPlayback();
+    if (this.activeTool === 'Shape') {
+      this.onShapeDown(point);
+      return;
+    }
+    if (this.activeTool === 'Mask') {
+      this.onMaskDown(point, modifiers);
+      return;
+    }
     if (this.activeTool !== 'Move') return;
-    const activeLayer = this.doc.activeLayer;
-    if (activeLayer) {
-      const activeHandle = this.hitHandle(activeLayer, point.x, point.y);
-      if (activeHandle) {
-        this.dragHistoryBefore = this.captureSnapshot();
-        this.dragMode = activeHandle;
-        this.dragLayerId = activeLayer.id;
-        this.dragStartX = point.x;
-        this.dragStartY = point.y;
-        this.dragOrigin = { x: activeLayer.x, y: activeLayer.y, width: activeLayer.width, height: activeLayer.height };
-        this.events.emit('rerender', undefined);
+    const frame = this.selectionFrame();
+    if (frame) {
+      const canRotate = this.doc.selectedLayerIds.size === 1 && this.doc.activeLayer?.content.type !== 'group';
+      const handle = this.hitHandle(frame, point.x, point.y, canRotate);
+      if (handle) {
+        this.beginTransformDrag(handle, point);
         return;
       }
     }
 
     const layer = this.findLayerAtPoint(point.x, point.y);
-    if (!layer) return;
+    if (!layer) {
+      this.beginMarquee(point, modifiers.additive);
+      return;
+    }
+    this.dragHistoryBefore = this.captureSnapshot();
+    if (modifiers.additive) this.doc.toggleSelection(layer.id);
+    else if (this.doc.isSelected(layer.id)) this.doc.setSelection(this.doc.selectedLayerIds, layer.id);
+    else this.doc.activeLayerId = layer.id;
+    if (this.doc.isSelected(layer.id)) this.beginTransformDrag('move', point);
+    else this.events.emit('rerender', undefined);
+  }
+
+  /** Starts moving, resizing or rotating the current selection. */
+  private beginTransformDrag(mode: DragMode, point: { x: number; y: number }): void {
+    const frame = this.selectionFrame();
+    if (!frame) return;
+    if (this.transformTargets().length === 0) {
+      // Everything selected is locked: the click only changes the selection.
+      this.events.emit('rerender', undefined);
+      return;
+    }
+    if (!this.dragHistoryBefore) this.dragHistoryBefore = this.captureSnapshot();
+    this.dragMode = mode;
+    this.dragLayerId = this.doc.activeLayerId;
+    this.dragStartX = point.x;
+    this.dragStartY = point.y;
+    this.dragOrigin = frame;
+    this.dragLayerOrigins = new Map(this.transformTargets().map((layer) => [
+      layer.id, { x: layer.x, y: layer.y, width: layer.width, height: layer.height }
+    ]));
+    this.events.emit('rerender', undefined);
+  }
+
+  private beginMarquee(point: { x: number; y: number }, additive: boolean): void {
+    this.marqueeBase = additive ? [...this.doc.selectedLayerIds] : [];
+    if (!additive) this.doc.activeLayerId = null;
+    this.dragMode = 'marquee';
+    this.dragStartX = point.x;
+    this.dragStartY = point.y;
+    this.marquee = { x: point.x, y: point.y, width: 0, height: 0 };
+    this.events.emit('rerender', undefined);
+  }
+
+  /** Selects every visible layer whose bounds touch the marquee. */
+  private updateMarquee(point: { x: number; y: number }): void {
+    const marquee = {
+      x: Math.min(this.dragStartX, point.x),
+      y: Math.min(this.dragStartY, point.y),
+      width: Math.abs(point.x - this.dragStartX),
+      height: Math.abs(point.y - this.dragStartY)
+    };
+    this.marquee = marquee;
+    const hits = this.doc.layers.filter((layer) => layer.visible && layer.content.type !== 'adjustment' && rectsIntersect(layerBounds(layer), marquee));
+    this.doc.setSelection([...this.marqueeBase, ...hits.map((layer) => layer.id)]);
+    this.syncTransformPanel();
+    this.events.emit('rerender', undefined);
+  }
+
+  /**
+   * The leaf layers a selection transform moves: selected groups stand in
+   * for their contents, and locked layers stay put.
+   */
+  private transformTargets(): Layer[] {
+    const leaves = this.doc.allLayers(this.doc.selectedLayers)
+      .filter((layer) => layer.content.type !== 'group' && !this.doc.isLocked(layer.id));
+    return [...new Set(leaves)];
+  }
+
+  private unlockedSelection(): Layer[] {
+    return this.doc.selectedLayers.filter((layer) => !this.doc.isLocked(layer.id));
+  }
+
+  /** Single selection: the layer's own rotated box. Several: their axis-aligned bounds. */
+  private selectionFrame(): TransformBox | null {
+    const selected = this.doc.selectedLayers;
+    if (selected.length === 1) {
+      const [layer] = selected;
+      return { x: layer.x, y: layer.y, width: layer.width, height: layer.height, rotation: layer.rotation };
+    }
+    const bounds = selectionBounds(selected);
+    return bounds ? { ...bounds, rotation: 0 } : null;
+  }
+
+  private onShapeDown(point: { x: number; y: number }): void {
+    this.flushPendingParamCommit();
     this.dragHistoryBefore = this.captureSnapshot();
-    this.doc.activeLayerId = layer.id;
-    this.dragMode = this.hitHandle(layer, point.x, point.y) ?? 'move';
+    const name = this.shapeKind.charAt(0).toUpperCase() + this.shapeKind.slice(1);
+    const layer = this.doc.addLayer(new LayerModel(name, createShapeContent(this.shapeKind)));
+    Object.assign(layer, shapeDragBox(this.shapeKind, point, 0, 0));
+    this.dragMode = 'create-shape';
     this.dragLayerId = layer.id;
     this.dragStartX = point.x;
     this.dragStartY = point.y;
-    this.dragOrigin = { x: layer.x, y: layer.y, width: layer.width, height: layer.height };
+    this.dragOrigin = { x: point.x, y: point.y, width: 0, height: 0, rotation: 0 };
+    this.dragLayerOrigins = new Map();
     this.events.emit('rerender', undefined);
   }
 
-  private onCanvasDrag(point: { x: number; y: number }): void {
+  /**
+   * The painted mask the Mask tool edits on `layer`: the targeted effect's,
+   * else the layer's own. `replace` swaps in a copy-on-write successor.
+   */
+  private paintTarget(layer: Layer): { mask: RasterMask; replace: (mask: RasterMask) => void } | null {
+    const effect = this.effectMaskTarget?.layerId === layer.id ? layer.effects[this.effectMaskTarget.index] : undefined;
+    if (effect) {
+      return effect.mask?.type === 'raster' ? { mask: effect.mask, replace: (mask) => { effect.mask = mask; } } : null;
+    }
+    return layer.mask?.type === 'raster' ? { mask: layer.mask, replace: (mask) => { layer.mask = mask; } } : null;
+  }
+
+  /**
+   * Starts a brush stroke on the active layer's painted mask, or a targeted
+   * effect's. The stroke paints into a copy of the mask so undo restores
+   * the previous pixels.
+   */
+  private onMaskDown(point: Point, modifiers: DragModifiers): void {
+    const layer = this.doc.activeLayer;
+    const target = layer ? this.paintTarget(layer) : null;
+    if (!layer || !target || layer.width <= 0 || layer.height <= 0) return;
+    this.flushPendingParamCommit();
+    this.dragHistoryBefore = this.captureSnapshot();
+    const mask = copyRasterMask(target.mask);
+    target.replace(mask);
+    this.dragMode = 'paint-mask';
+    this.dragLayerId = layer.id;
+    this.maskStrokeLast = maskPoint(layer, mask, point);
+    paintMaskStroke(layer, mask, this.maskStrokeLast, this.maskStrokeLast, this.strokeBrush(modifiers));
+    this.events.emit('rerender', undefined);
+  }
+
+  /** Alt flips the brush between hiding and revealing for the stroke. */
+  private strokeBrush(modifiers: DragModifiers): MaskBrush {
+    return { ...this.maskBrush, reveal: this.maskBrush.reveal !== modifiers.alt };
+  }
+
+  private onTextDown(point: { x: number; y: number }): void {
+    this.flushPendingParamCommit();
+    // The open edit commits (or drops its empty layer) before anything else
+    // is captured, so it never folds into the next entry.
+    this.textTool.finish();
+    const hit = this.findLayerAtPoint(point.x, point.y);
+    if (hit && hit.content.type === 'text') {
+      this.doc.activeLayerId = hit.id;
+      this.beginTextEdit(hit, this.captureSnapshot());
+      return;
+    }
+
+    const before = this.captureSnapshot();
+    const content = createTextContent();
+    const layout = layoutText(content);
+    const layer = this.doc.addLayer(new LayerModel('Text', content));
+    layer.width = layout.width;
+    layer.height = layout.height;
+    layer.x = Math.round(point.x);
+    layer.y = Math.round(point.y - layout.height / 2);
+    this.beginTextEdit(layer, before);
+  }
+
+  /** Callers finish any open edit before capturing `before`. */
+  private beginTextEdit(layer: Layer, before: DocumentSnapshot): void {
+    this.textEditBefore = before;
+    this.events.emit('rerender', undefined);
+    this.textTool.begin(layer);
+  }
+
+  /** Applies a text edit and refits the layer box, keeping its current scale. */
+  private updateTextContent(layer: Layer, patch: TextPatch): void {
+    if (layer.content.type !== 'text') return;
+    const previous = layoutText(layer.content);
+    const scaleX = layer.width / previous.width;
+    const scaleY = layer.height / previous.height;
+    layer.content = { ...layer.content, ...patch };
+    const next = layoutText(layer.content);
+    layer.width = next.width * scaleX;
+    layer.height = next.height * scaleY;
+  }
+
+  private onCanvasDrag(point: { x: number; y: number }, modifiers: DragModifiers): void {
+    if (this.dragMode === 'marquee') {
+      this.updateMarquee(point);
+      return;
+    }
     if (!this.dragMode || !this.dragLayerId) return;
-    const layer = this.doc.layers.find((entry) => entry.id === this.dragLayerId);
+    const layer = this.doc.findLayer(this.dragLayerId);
     if (!layer) return;
+    if (this.dragMode === 'paint-mask') {
+      const mask = this.paintTarget(layer)?.mask;
+      if (!mask || !this.maskStrokeLast) return;
+      const next = maskPoint(layer, mask, point);
+      paintMaskStroke(layer, mask, this.maskStrokeLast, next, this.strokeBrush(modifiers));
+      this.maskStrokeLast = next;
+      this.events.emit('rerender', undefined);
+      return;
+    }
     const dx = point.x - this.dragStartX;
     const dy = point.y - this.dragStartY;
 
-    if (this.dragMode === 'move') {
-      layer.x = this.dragOrigin.x + dx;
-      layer.y = this.dragOrigin.y + dy;
-    } else {
-      const minSize = 20;
-      if (this.dragMode.includes('e')) layer.width = Math.max(minSize, this.dragOrigin.width + dx);
-      if (this.dragMode.includes('s')) layer.height = Math.max(minSize, this.dragOrigin.height + dy);
-      if (this.dragMode.includes('w')) {
-        const nextWidth = Math.max(minSize, this.dragOrigin.width - dx);
-        layer.x = this.dragOrigin.x + (this.dragOrigin.width - nextWidth);
-        layer.width = nextWidth;
-      }
-      if (this.dragMode.includes('n')) {
-        const nextHeight = Math.max(minSize, this.dragOrigin.height - dy);
-        layer.y = this.dragOrigin.y + (this.dragOrigin.height - nextHeight);
-        layer.height = nextHeight;
+    if (this.dragMode === 'create-shape') {
+      if (layer.content.type !== 'shape') return;
+      Object.assign(layer, shapeDragBox(layer.content.shape, this.dragOrigin, dx, dy));
+      if (layer.content.shape === 'line') layer.content = { ...layer.content, points: lineEndpoints(dx, dy) };
+    } else if (this.dragMode === 'move') {
+      for (const [id, origin] of this.dragLayerOrigins) {
+        const target = this.doc.findLayer(id);
+        if (!target) continue;
+        target.x = origin.x + dx;
+        target.y = origin.y + dy;
       }
+    } else if (this.dragMode === 'rotate') {
+      const center = layerCenter(this.dragOrigin);
+      const start = Math.atan2(this.dragStartY - center.y, this.dragStartX - center.x);
+      const current = Math.atan2(point.y - center.y, point.x - center.x);
+      let rotation = this.dragOrigin.rotation + ((current - start) * 180) / Math.PI;
+      if (modifiers.shift) rotation = Math.round(rotation / 15) * 15;
+      layer.rotation = normalizeRotation(rotation);
+    } else {
+      const handle = this.dragMode.slice('resize-'.length) as ResizeHandle;
+      this.resizeSelection(layer, handle, dx, dy, modifiers);
     }
 
     this.syncTransformPanel();
     this.events.emit('rerender', undefined);
   }
 
+  /**
+   * Resizes the drag frame and maps every selected layer into it, so a
+   * group scales about the same anchor as its bounding box.
+   */
+  private resizeSelection(active: Layer, handle: ResizeHandle, dx: number, dy: number, modifiers: DragModifiers): void {
+    const origin = this.dragOrigin;
+    const lockAspect = modifiers.shift || this.aspectLocked;
+    const single = this.dragLayerOrigins.size === 1 && this.dragLayerOrigins.has(active.id);
+    const aspect = !lockAspect ? null : single ? lockedAspectRatio(active, origin.width, origin.height) : origin.width / origin.height;
+    const next = resizeBox(origin, handle, dx, dy, { aspect, fromCenter: modifiers.alt, minSize: 20 });
+    if (single) Object.assign(active, next);
+    else this.fitLayers(this.dragLayerOrigins, origin, next);
+  }
+
+  /** Maps each layer's original box from the `from` frame into the `to` frame. */
+  private fitLayers(origins: Map<string, Rect>, from: Rect, to: Rect): void {
+    const scaleX = to.width / from.width;
+    const scaleY = to.height / from.height;
+    for (const [id, box] of origins) {
+      const target = this.doc.findLayer(id);
+      if (!target) continue;
+      target.x = to.x + (box.x - from.x) * scaleX;
+      target.y = to.y + (box.y - from.y) * scaleY;
+      target.width = box.width * scaleX;
+      target.height = box.height * scaleY;
+    }
+  }
+
   private clearDrag(): void {
+    if (this.dragMode === 'create-shape') this.finishShapeCreation();
+    if (this.marquee) {
+      this.marquee = null;
+      this.events.emit('rerender', undefined);
+    }
     this.commitHistoryEntry(this.dragHistoryBefore);
     this.dragHistoryBefore = null;
     this.dragMode = null;
     this.dragLayerId = null;
+    this.maskStrokeLast = null;
+  }
+
+  /** A click without a drag places a default-size shape centered on the click. */
+  private finishShapeCreation(): void {
+    const layer = this.doc.findLayer(this.dragLayerId);
+    if (!layer || layer.content.type !== 'shape') return;
+    const isLine = layer.content.shape === 'line';
+    const dragged = isLine ? Math.max(layer.width, layer.height) > 20 : layer.width > 4 || layer.height > 4;
+    if (dragged) return;
+    const width = DEFAULT_SHAPE_SIZE.width;
+    const height = isLine ? 20 : DEFAULT_SHAPE_SIZE.height;
+    layer.x = Math.round(this.dragOrigin.x - width / 2);
+    layer.y = Math.round(this.dragOrigin.y - height / 2);
+    layer.width = width;
+    layer.height = height;
+    this.events.emit('rerender', undefined);
   }
 
-  private hitHandle(layer: Layer, x: number, y: number): DragMode | null {
+  private hitHandle(frame: TransformBox, x: number, y: number, canRotate: boolean): DragMode | null {
     const size = 8;
-    const points: Array<[DragMode, number, number]> = [
-      ['resize-nw', layer.x, layer.y], ['resize-ne', layer.x + layer.width, layer.y],
-      ['resize-sw', layer.x, layer.y + layer.height], ['resize-se', layer.x + layer.width, layer.y + layer.height]
-    ];
-    for (const [mode, hx, hy] of points) if (Math.abs(x - hx) <= size && Math.abs(y - hy) <= size) return mode;
+    const local = toLayerFrame(frame, x, y);
+    const rotateX = frame.x + frame.width / 2;
+    const rotateY = frame.y - ROTATE_HANDLE_OFFSET;
+    if (canRotate && Math.hypot(local.x - rotateX, local.y - rotateY) <= size) return 'rotate';
+    for (const [handle, hx, hy] of resizeHandlePoints(frame)) {
+      if (Math.abs(local.x - hx) <= size && Math.abs(local.y - hy) <= size) return `resize-${handle}`;
+    }
     return null;
   }
 
+  /**
+   * Hit-tests top-level layers, treating a group as one unit, unless a
+   * selected layer inside the hit group is under the point. Adjustment
+   * layers have no pixels to click and are picked in the Layers panel.
+   */
   private findLayerAtPoint(x: number, y: number): Layer | null {
     for (let i = this.doc.layers.length - 1; i >= 0; i -= 1) {
       const layer = this.doc.layers[i];
-      if (!layer.visible) continue;
-      if (x >= layer.x && x <= layer.x + layer.width && y >= layer.y && y <= layer.y + layer.height) return layer;
+      if (!layer.visible || layer.content.type === 'adjustment') continue;
+      if (layer.content.type === 'group') {
+        if (!this.groupContainsPoint(layer.content, x, y)) continue;
+        const inner = this.doc.allLayers(layer.content.children)
+          .filter((child) => this.doc.isSelected(child.id) && child.content.type !== 'group' && child.content.type !== 'adjustment')
+          .reverse()
+          .find((child) => containsPoint(child, x, y));
+        return inner ?? layer;
+      }
+      if (containsPoint(layer, x, y)) return layer;
     }
     return null;
   }
 
+  private groupContainsPoint(content: GroupContent, x: number, y: number): boolean {
+    return content.children.some((child) => child.visible && child.content.type !== 'adjustment' && (
+      child.content.type === 'group' ? this.groupContainsPoint(child.content, x, y) : containsPoint(child, x, y)
+    ));
+  }
+
   private screenToCanvas(event: MouseEvent, canvas: HTMLCanvasElement): { x: number; y: number } {
     return this.screenToCanvasFromClient(event.clientX, event.clientY, canvas);
   }
@@ -482,6 +1176,18 @@ export class App {
       this.root.querySelector<HTMLInputElement>('#file-input')?.click();
       return;
     }
+    if (action === 'open-project') {
+      this.root.querySelector<HTMLInputElement>('#project-input')?.click();
+      return;
+    }
+    if (action === 'save-project') {
+      this.saveProject();
+      return;
+    }
+    if (action === 'export') {
+      this.exportDialog.open(this.doc.width, this.doc.height, frameCount(this.doc.animation));
+      return;
+    }
     if (action === 'import-url') {
       await this.promptImportUrl();
       return;
@@ -497,6 +1203,46 @@ export class App {
       this.events.emit('rerender', undefined);
       return;
     }
+    if (action === 'duplicate') {
+      this.applyDocumentChange(() => this.doc.duplicateLayers(this.doc.selectedLayerIds));
+      return;
+    }
+    if (action === 'group') {
+      this.applyDocumentChange(() => this.doc.groupLayers(this.doc.selectedLayerIds));
+      return;
+    }
+    if (action === 'copy-effects') {
+      const layer = this.doc.activeLayer;
+      if (layer) this.effectClipboard = cloneLayerEffects(layer.effects);
+      return;
+    }
+    if (action === 'paste-effects-replace' || action === 'paste-effects-append') {
+      const replace = action === 'paste-effects-replace';
+      const clipboard = this.effectClipboard;
+      if (!clipboard) return;
+      this.applyDocumentChange(() => {
+        // Each layer gets its own copy so later edits stay independent.
+        for (const layer of this.doc.selectedLayers) {
+          const pasted = cloneLayerEffects(clipboard);
+          layer.effects = replace ? pasted : [...layer.effects, ...pasted];
+        }
+      });
+      return;
+    }
+    if (action === 'new-adjustment') {
+      this.applyDocumentChange(() => {
+        const layer = this.doc.addLayer(new LayerModel('Adjustment', { type: 'adjustment' }));
+        layer.width = this.doc.width;
+        layer.height = this.doc.height;
+      });
+      return;
+    }
+    if (action === 'ungroup') {
+      this.applyDocumentChange(() => {
+        for (const layer of this.doc.selectedLayers) this.doc.ungroup(layer.id);
+      });
+      return;
+    }
     if (action === 'undo') {
       this.undo();
       return;
@@ -530,18 +1276,43 @@ export class App {
     heightInput.value = `${height}`;
   }
 
-  private applyTransformInputs(): void {
+  /**
+   * Aligns the selection to its own bounds, or to the canvas when the
+   * target select says so or only one layer is selected.
+   */
+  private alignSelection(edge: AlignEdge): void {
+    this.applyDocumentChange(() => {
+      const layers = this.unlockedSelection();
+      const toCanvas = this.root.querySelector<HTMLSelectElement>('#align-target')?.value === 'canvas' || layers.length < 2;
+      const target = toCanvas ? { x: 0, y: 0, width: this.doc.width, height: this.doc.height } : selectionBounds(layers);
+      if (target) alignLayers(layers, edge, target);
+    });
+  }
+
+  private applyTransformInputs(changed: 'x' | 'y' | 'w' | 'h' | 'r'): void {
     this.applyDocumentChange(() => {
       const layer = this.doc.activeLayer;
-      if (!layer) return;
+      if (!layer || this.doc.isLocked(layer.id)) return;
       const parse = (selector: string, fallback: number) => {
         const v = Number(this.root.querySelector<HTMLInputElement>(selector)?.value);
         return Number.isFinite(v) ? v : fallback;
       };
+      const from = { x: layer.x, y: layer.y, width: layer.width, height: layer.height };
       layer.x = parse('#transform-x', layer.x);
       layer.y = parse('#transform-y', layer.y);
+      const ratio = lockedAspectRatio(layer, layer.width, layer.height);
       layer.width = Math.max(20, parse('#transform-w', layer.width));
       layer.height = Math.max(20, parse('#transform-h', layer.height));
+      if (this.aspectLocked && changed === 'w') layer.height = layer.width / ratio;
+      if (this.aspectLocked && changed === 'h') layer.width = layer.height * ratio;
+      if (layer.content.type !== 'group') {
+        layer.rotation = normalizeRotation(parse('#transform-r', layer.rotation));
+      } else if (from.width > 0 && from.height > 0) {
+        // A group's box is derived, so scale its contents into the new box instead.
+        const leaves = this.doc.allLayers(layer.content.children).filter((child) => child.content.type !== 'group');
+        this.fitLayers(new Map(leaves.map((child) => [child.id, { x: child.x, y: child.y, width: child.width, height: child.height }])), from, layer);
+        this.doc.syncGroupBounds();
+      }
     });
   }
 
@@ -570,6 +1341,187 @@ export class App {
     this.events.emit('rerender', undefined);
   }
 
+  private async loadPresets(): Promise<void> {
+    try {
+      this.presetStore = await PresetStore.open();
+      // Keep anything saved while the library was opening.
+      const errors: string[] = [];
+      const stored = await this.presetStore.list(errors);
+      const unsaved = this.presets.filter((preset) => !stored.some((entry) => entry.id === preset.id));
+      this.presets = [...stored, ...unsaved].sort((a, b) => a.name.localeCompare(b.name));
+      if (errors.length > 0) this.showPresetError(new Error(errors.join('\n')), 'Some stored presets could not be loaded');
+      if (unsaved.length > 0) await this.persistPresets(unsaved, null);
+    } catch (error) {
+      this.showPresetError(error);
+      return;
+    }
+    this.renderPresets();
+  }
+
+  private async importPresets(file: File): Promise<void> {
+    let imported: EffectPreset[];
+    try {
+      imported = parsePresetFile(await file.text());
+    } catch (error) {
+      this.showPresetError(error, `Could not import ${file.name}`);
+      return;
+    }
+    // Fresh ids, so importing a library twice never overwrites local edits.
+    const added = imported.map((preset) => createPreset(preset.name, preset.effects));
+    this.presets = [...this.presets, ...added].sort((a, b) => a.name.localeCompare(b.name));
+    await this.persistPresets(added, `Imported ${added.length} ${added.length === 1 ? 'preset' : 'presets'}`);
+  }
+
+  /** Writes `presets` to the library and reports `message` (null keeps the current one). */
+  private async persistPresets(presets: EffectPreset[], message: string | null): Promise<void> {
+    if (message !== null) this.presetMessage = message;
+    this.renderPresets();
+    if (!this.presetStore) return;
+    try {
+      for (const preset of presets) await this.presetStore.put(preset);
+    } catch (error) {
+      this.showPresetError(error);
+    }
+  }
+
+  private showPresetError(error: unknown, context = 'Preset library unavailable'): void {
+    this.presetMessage = `${context}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    this.renderPresets();
+  }
+
+  private renderPresets(): void {
+    this.presetsPanel.render(this.presets, {
+      hasActiveLayer: !!this.doc.activeLayer,
+      selectionCount: this.doc.selectedLayerIds.size,
+      message: this.presetMessage
+    });
+  }
+
+  /** Moves the playhead to the frame nearest `time` and shows the animation there. */
+  private setTime(time: number): void {
+    const { animation } = this.doc;
+    this.currentTime = frameTime(animation, timeFrame(animation, time));
+    applyAnimation(this.doc.layers, this.currentTime);
+  }
+
+  private togglePlayback(): void {
+    if (this.playbackFrame !== null) {
+      this.stopPlayback();
+      this.events.emit('rerender', undefined);
+      return;
+    }
+    this.flushPendingParamCommit();
+    const startedAt = performance.now() - this.currentTime * 1000;
+    let shown = timeFrame(this.doc.animation, this.currentTime);
+    // Only the canvas and timeline follow playback; the panels would
+    // rebuild their DOM every frame.
+    const tick = (now: number) => {
+      const { animation } = this.doc;
+      this.playbackFrame = requestAnimationFrame(tick);
+      // Wraps after whole frames, like exports, and shows each for 1/fps.
+      const elapsed = ((now - startedAt) / 1000) % loopLength(animation);
+      const frame = Math.min(frameCount(animation) - 1, Math.floor(elapsed * animation.fps + 1e-6));
+      if (frame === shown) return;
+      shown = frame;
+      this.setTime(frameTime(animation, frame));
+      this.doc.syncGroupBounds();
+      this.renderer.render(this.doc, this.activeTool, this.marquee, frame);
+      this.syncTransformPanel();
+      this.renderTimeline();
+    };
+    this.playbackFrame = requestAnimationFrame(tick);
+    this.events.emit('rerender', undefined);
+  }
+
+  private stopPlayback(): void {
+    if (this.playbackFrame === null) return;
+    cancelAnimationFrame(this.playbackFrame);
+    this.playbackFrame = null;
+  }
+
+  private renderTimeline(): void {
+    this.timelinePanel.render({
+      settings: this.doc.animation,
+      time: this.currentTime,
+      playing: this.playbackFrame !== null,
+      tracks: this.timelineTracks()
+    });
+  }
+
+  /** Transform properties first, then every numeric param of each effect in stack order. */
+  private timelineTracks(): TimelineTrack[] {
+    const layer = this.doc.activeLayer;
+    if (!layer) return [];
+    const tracks: TimelineTrack[] = animatableProperties(layer).map((property) => ({
+      id: `layer:${property}`,
+      label: PROPERTY_LABELS[property],
+      keyframes: layer.keyframes[property]
+    }));
+    layer.effects.forEach((effect, index) => {
+      const name = effectRegistry.get(effect.definitionId)?.name ?? effect.definitionId;
+      for (const [key, param] of Object.entries(effect.params)) {
+        if (!isAnimatableParam(param)) continue;
+        tracks.push({ id: `effect:${index}:${key}`, label: `${name} · ${param.label}`, keyframes: effect.keyframes[key] });
+      }
+    });
+    return tracks;
+  }
+
+  private timelineTarget(trackId: string): TimelineTarget | null {
+    const layer = this.doc.activeLayer;
+    if (!layer) return null;
+    const [kind, first, second] = trackId.split(':');
+    if (kind === 'layer') {
+      const property = first as AnimatableProperty;
+      if (!animatableProperties(layer).includes(property)) return null;
+      return {
+        keyframes: layer.keyframes[property],
+        value: layer[property],
+        replace: (track) => {
+          const next = { ...layer.keyframes };
+          if (track) next[property] = track;
+          else delete next[property];
+          layer.keyframes = next;
+        }
+      };
+    }
+    const effect = layer.effects[Number(first)];
+    const param = effect?.params[second];
+    if (!param || !isAnimatableParam(param)) return null;
+    return {
+      keyframes: effect.keyframes[second],
+      value: param.value,
+      replace: (track) => {
+        const next = { ...effect.keyframes };
+        if (track) next[second] = track;
+        else delete next[second];
+        effect.keyframes = next;
+      }
+    };
+  }
+
+  private saveProject(): void {
+    this.flushPendingParamCommit();
+    const blob = new Blob([serializeProject(this.doc)], { type: 'application/json' });
+    downloadBlob(blob, `${this.projectName}.${PROJECT_EXTENSION}`);
+  }
+
+  private async openProject(file: File): Promise<void> {
+    const loaded = await parseProject(await file.text());
+    this.flushPendingParamCommit();
+    this.doc.width = loaded.width;
+    this.doc.height = loaded.height;
+    this.doc.animation = loaded.animation;
+    this.doc.layers = loaded.layers;
+    this.doc.activeLayerId = loaded.activeLayerId;
+    this.stopPlayback();
+    this.setTime(0);
+    this.projectName = file.name.replace(/\.[^.]+$/, '') || 'untitled';
+    this.history.clear();
+    this.renderer.invalidateEffectCache();
+    this.events.emit('rerender', undefined);
+  }
+
   private async importFile(file: File): Promise<void> {
     const url = URL.createObjectURL(file);
     await this.importImage(url, file.name);
@@ -579,7 +1531,7 @@ export class App {
   private async importFromUrl(url: string): Promise<void> { await this.importImage(url, `URL ${this.doc.layers.length + 1}`); }
 
   private async importImage(src: string, name: string): Promise<void> {
-    const image = await this.loadImage(src);
+    const image = await loadImage(src);
     const content: LayerContent = {
       type: 'image',
       source: image,
@@ -599,22 +1551,18 @@ export class App {
     });
   }
 
-  private loadImage(src: string): Promise<HTMLImageElement> {
-    return new Promise((resolve, reject) => {
-      const image = new Image();
-      image.crossOrigin = 'anonymous';
-      image.onload = () => resolve(image);
-      image.onerror = () => reject(new Error('Failed to load image'));
-      image.src = src;
-    });
-  }
-
   private snapshotsEqual(a: DocumentSnapshot, b: DocumentSnapshot): boolean {
     if (a.width !== b.width || a.height !== b.height || a.activeLayerId !== b.activeLayerId) return false;
-    if (a.layers.length !== b.layers.length) return false;
-    for (let i = 0; i < a.layers.length; i += 1) {
-      const al = a.layers[i];
-      const bl = b.layers[i];
+    if (a.selectedLayerIds.join('|') !== b.selectedLayerIds.join('|')) return false;
+    if (a.animation.duration !== b.animation.duration || a.animation.fps !== b.animation.fps) return false;
+    return this.layersEqual(a.layers, b.layers);
+  }
+
+  private layersEqual(a: LayerSnapshot[], b: LayerSnapshot[]): boolean {
+    if (a.length !== b.length) return false;
+    for (let i = 0; i < a.length; i += 1) {
+      const al = a[i];
+      const bl = b[i];
       if (
         al.id !== bl.id ||
         al.name !== bl.name ||
@@ -622,31 +1570,58 @@ export class App {
         al.locked !== bl.locked ||
         al.opacity !== bl.opacity ||
         al.blendMode !== bl.blendMode ||
+        al.clipToBelow !== bl.clipToBelow ||
         al.x !== bl.x ||
         al.y !== bl.y ||
         al.width !== bl.width ||
         al.height !== bl.height ||
+        al.rotation !== bl.rotation ||
+        al.flipX !== bl.flipX ||
+        al.flipY !== bl.flipY ||
         !this.contentEqual(al.content, bl.content) ||
-        !this.effectsEqual(al.effects, bl.effects)
+        !this.effectsEqual(al.effects, bl.effects) ||
+        !this.maskEqual(al.mask, bl.mask) ||
+        !keyframesEqual(al.keyframes, bl.keyframes)
       ) return false;
     }
     return true;
   }
 
-  private contentEqual(a: LayerContent, b: LayerContent): boolean {
+  private contentEqual(a: SnapshotContent, b: SnapshotContent): boolean {
     if (a.type !== b.type) return false;
+    if (a.type === 'group' && b.type === 'group') return this.layersEqual(a.children, b.children);
+    if (a.type === 'adjustment') return true;
     if (a.type === 'image' && b.type === 'image') {
       return a.source === b.source && a.naturalWidth === b.naturalWidth
         && a.naturalHeight === b.naturalHeight && a.name === b.name;
     }
+    if (a.type === 'shape' && b.type === 'shape') {
+      return JSON.stringify(a) === JSON.stringify(b);
+    }
+    if (a.type === 'text' && b.type === 'text') {
+      return a.text === b.text && a.fontFamily === b.fontFamily && a.fontWeight === b.fontWeight
+        && a.fontSize === b.fontSize && a.color === b.color && a.align === b.align
+        && a.lineHeight === b.lineHeight && a.letterSpacing === b.letterSpacing && a.wrapWidth === b.wrapWidth;
+    }
     return false;
   }
 
+  /** Painted masks compare by canvas: strokes always paint into a new one. */
+  private maskEqual(a: LayerMask | EffectMask | null, b: LayerMask | EffectMask | null): boolean {
+    if (!a || !b) return a === b;
+    if (a.type === 'raster' && b.type === 'raster') {
+      return a.canvas === b.canvas && a.enabled === b.enabled && a.inverted === b.inverted;
+    }
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+
   private effectsEqual(a: LayerEffect[], b: LayerEffect[]): boolean {
     if (a.length !== b.length) return false;
     for (let i = 0; i < a.length; i++) {
       if (a[i].definitionId !== b[i].definitionId) return false;
       if (a[i].enabled !== b[i].enabled) return false;
+      if (a[i].mix !== b[i].mix || a[i].blendMode !== b[i].blendMode || !this.maskEqual(a[i].mask, b[i].mask)) return false;
+      if (!keyframesEqual(a[i].keyframes, b[i].keyframes) || !driversEqual(a[i].drivers, b[i].drivers)) return false;
       const aKeys = Object.keys(a[i].params);
       const bKeys = Object.keys(b[i].params);
       if (aKeys.length !== bKeys.length) return false;
@@ -654,7 +1629,7 @@ export class App {
         const ap = a[i].params[key];
         const bp = b[i].params[key];
         if (!bp || ap.type !== bp.type) return false;
-        if (JSON.stringify(ap.value) !== JSON.stringify(bp.value)) return false;
+        if (paramValueKey(ap) !== paramValueKey(bp)) return false;
       }
     }
     return true;
@@ -665,44 +1640,74 @@ export class App {
       width: this.doc.width,
       height: this.doc.height,
       activeLayerId: this.doc.activeLayerId,
-      layers: this.doc.layers.map((layer) => ({
-        id: layer.id,
-        name: layer.name,
-        visible: layer.visible,
-        locked: layer.locked,
-        opacity: layer.opacity,
-        blendMode: layer.blendMode,
-        x: layer.x,
-        y: layer.y,
-        width: layer.width,
-        height: layer.height,
-        content: { ...layer.content },
-        effects: cloneLayerEffects(layer.effects)
-      }))
+      selectedLayerIds: [...this.doc.selectedLayerIds],
+      layers: this.doc.layers.map((layer) => this.captureLayer(layer)),
+      animation: { ...this.doc.animation }
+    };
+  }
+
+  private captureLayer(layer: Layer): LayerSnapshot {
+    const { content } = layer;
+    return {
+      id: layer.id,
+      name: layer.name,
+      visible: layer.visible,
+      locked: layer.locked,
+      opacity: layer.opacity,
+      blendMode: layer.blendMode,
+      clipToBelow: layer.clipToBelow,
+      x: layer.x,
+      y: layer.y,
+      width: layer.width,
+      height: layer.height,
+      rotation: layer.rotation,
+      flipX: layer.flipX,
+      flipY: layer.flipY,
+      content: content.type === 'group'
+        ? { type: 'group', children: content.children.map((child) => this.captureLayer(child)) }
+        : { ...content },
+      effects: cloneLayerEffects(layer.effects),
+      mask: layer.mask ? { ...layer.mask } : null,
+      keyframes: cloneKeyframes(layer.keyframes)
     };
   }
 
   private restoreSnapshot(snapshot: DocumentSnapshot): void {
     this.doc.width = snapshot.width;
     this.doc.height = snapshot.height;
-    this.doc.layers = snapshot.layers.map((layer) => {
-      const next = new LayerModel(layer.name, { ...layer.content }, layer.id);
-      next.visible = layer.visible;
-      next.locked = layer.locked;
-      next.opacity = layer.opacity;
-      next.blendMode = layer.blendMode;
-      next.x = layer.x;
-      next.y = layer.y;
-      next.width = layer.width;
-      next.height = layer.height;
-      next.effects = cloneLayerEffects(layer.effects);
-      return next;
-    });
-    this.doc.activeLayerId = snapshot.activeLayerId;
+    this.doc.animation = { ...snapshot.animation };
+    this.doc.layers = snapshot.layers.map((layer) => this.restoreLayer(layer));
+    this.doc.setSelection(snapshot.selectedLayerIds, snapshot.activeLayerId);
+    // The playhead may have moved since the snapshot was taken.
+    this.setTime(this.currentTime);
+  }
+
+  private restoreLayer(layer: LayerSnapshot): Layer {
+    const { content } = layer;
+    const next = new LayerModel(layer.name, content.type === 'group'
+      ? { type: 'group', children: content.children.map((child) => this.restoreLayer(child)) }
+      : { ...content }, layer.id);
+    next.visible = layer.visible;
+    next.locked = layer.locked;
+    next.opacity = layer.opacity;
+    next.blendMode = layer.blendMode;
+    next.clipToBelow = layer.clipToBelow;
+    next.x = layer.x;
+    next.y = layer.y;
+    next.width = layer.width;
+    next.height = layer.height;
+    next.rotation = layer.rotation;
+    next.flipX = layer.flipX;
+    next.flipY = layer.flipY;
+    next.effects = cloneLayerEffects(layer.effects);
+    next.mask = layer.mask ? { ...layer.mask } : null;
+    next.keyframes = cloneKeyframes(layer.keyframes);
+    return next;
   }
 
   private commitHistoryEntry(before: DocumentSnapshot | null): void {
     if (!before) return;
+    keyAnimatedEdits(this.doc.layers, this.currentTime);
     const after = this.captureSnapshot();
     if (this.snapshotsEqual(before, after)) return;
     this.history.push({ before, after });
@@ -720,7 +1725,31 @@ export class App {
     }
   }
 
-  private applyDocumentChange(change: () => void): void {
+  /** Debounces the pending param entry: one undo entry per drag, not per tick. */
+  private scheduleParamCommit(): void {
+    if (this.paramCommitTimer !== null) {
+      window.clearTimeout(this.paramCommitTimer);
+    }
+    this.paramCommitTimer = window.setTimeout(() => {
+      this.commitHistoryEntry(this.effectParamBefore);
+      this.effectParamBefore = null;
+      this.paramCommitTimer = null;
+    }, 300);
+  }
+
+  /**
+   * Applies `change` as one undo entry. `live` changes keep playback running
+   * and coalesce with the pending param entry, like slider drags.
+   */
+  private applyDocumentChange(change: () => void, live = false): void {
+    if (live) {
+      if (!this.effectParamBefore) this.effectParamBefore = this.captureSnapshot();
+      change();
+      this.scheduleParamCommit();
+      this.events.emit('rerender', undefined);
+      return;
+    }
+    this.stopPlayback();
     this.flushPendingParamCommit();
     const before = this.captureSnapshot();
     change();
@@ -769,6 +1798,22 @@ export class App {
     this.setInputValue('#transform-y', Math.round(layer?.y ?? 0));
     this.setInputValue('#transform-w', Math.round(layer?.width ?? 0));
     this.setInputValue('#transform-h', Math.round(layer?.height ?? 0));
+    this.setInputValue('#transform-r', Math.round((layer?.rotation ?? 0) * 10) / 10);
+    this.root.querySelector('#flip-h')?.classList.toggle('active', !!layer?.flipX);
+    this.root.querySelector('#flip-v')?.classList.toggle('active', !!layer?.flipY);
+    this.root.querySelector('#transform-lock')?.classList.toggle('active', this.aspectLocked);
+    const isGroup = layer?.content.type === 'group';
+    const locked = !!layer && this.doc.isLocked(layer.id);
+    for (const selector of ['#transform-x', '#transform-y', '#transform-w', '#transform-h']) {
+      const control = this.root.querySelector<HTMLInputElement>(selector);
+      if (control) control.disabled = locked;
+    }
+    for (const selector of ['#transform-r', '#flip-h', '#flip-v']) {
+      const control = this.root.querySelector<HTMLInputElement | HTMLButtonElement>(selector);
+      if (control) control.disabled = isGroup || locked;
+    }
+    const natural = this.root.querySelector<HTMLButtonElement>('#transform-natural');
+    if (natural) natural.disabled = layer?.content.type !== 'image' || locked;
   }
 
   private setInputValue(selector: string, value: number): void {
@@ -802,13 +1847,29 @@ export class App {
   }
 
   private refreshUI(): void {
-    this.layersPanel.render(this.doc.layers, this.doc.activeLayerId);
+    this.doc.syncGroupBounds();
+    const activeContent = this.doc.activeLayer?.content;
+    this.textPanel.render(activeContent?.type === 'text' ? activeContent : null);
+    this.shapePanel.render(activeContent?.type === 'shape' ? activeContent : null);
+    this.maskPanel.render(this.doc.activeLayer?.mask ?? null, !!this.doc.activeLayer);
+    this.renderPresets();
+    this.textTool.sync(this.doc.findLayer(this.textTool.editingLayerId));
     if (!this.skipEffectsPanelRender) {
       const activeLayer = this.doc.activeLayer;
-      this.effectsPanel.render(activeLayer?.effects ?? [], !!activeLayer);
+      const needsHistogram = activeLayer?.effects.some((effect) => Object.values(effect.params).some((param) => param.type === 'curve'));
+      const histogram = activeLayer && needsHistogram ? this.renderer.histogram(activeLayer.id) : null;
+      const painting = this.effectMaskTarget?.layerId === activeLayer?.id ? this.effectMaskTarget?.index ?? null : null;
+      this.effectsPanel.render(activeLayer?.effects ?? [], !!activeLayer, histogram, painting, this.playbackFrame !== null);
     }
     this.updateViewportLayout();
-    this.renderer.render(this.doc, this.activeTool);
+    this.renderer.render(this.doc, this.activeTool, this.marquee, timeFrame(this.doc.animation, this.currentTime));
+    this.renderTimeline();
+    // After the canvas pass, which refreshes the layer thumbnails.
+    this.layersPanel.blendModes = this.renderer.gpuBlending ? GPU_BLEND_MODES : CANVAS_BLEND_MODES;
+    this.layersPanel.render(this.doc.layers, this.doc.activeLayerId, this.doc.selectedLayerIds, {
+      thumbnail: (id) => this.renderer.thumbnail(id),
+      maskThumbnail: (id) => this.renderer.maskThumbnail(id)
+    });
 
     const area = this.root.querySelector<HTMLElement>('.canvas-area');
     const hCanvas = this.root.querySelector<HTMLCanvasElement>('#ruler-h');
@@ -847,15 +1908,16 @@ export class App {
 
   private template(): string {
     return `
-      <div class="menubar"><div class="menubar-logo">FlyerMaker <span class="build-tag">${__BUILD_TAG__}</span></div><div class="menu-group" data-menu="file"><button class="menu-item" data-menu="file">File</button><div class="menu-dropdown"><button class="menu-action" data-menu-action="import-file">Import Image…</button></div></div><div class="menu-group" data-menu="edit"><button class="menu-item" data-menu="edit">Edit</button><div class="menu-dropdown"><button class="menu-action" data-menu-action="undo">Undo</button><button class="menu-action" data-menu-action="redo">Redo</button></div></div><div class="menu-group" data-menu="image"><button class="menu-item" data-menu="image">Image</button><div class="menu-dropdown"><button class="menu-action" data-menu-action="import-url">Import URL…</button></div></div><div class="menu-group" data-menu="view"><button class="menu-item" data-menu="view">View</button><div class="menu-dropdown"><button class="menu-action" data-menu-action="zoom-fit">Fit to View</button><button class="menu-action" data-menu-action="zoom-100">Actual Size (100%)</button></div></div><div class="menubar-spacer"></div></div>
-      <div class="optionsbar"><div class="opt-group"><button id="undo-action" class="opt-btn" data-info="Undo (Ctrl/Cmd+Z): revert the latest layer/document edit.">Undo</button><button id="redo-action" class="opt-btn" data-info="Redo (Ctrl/Cmd+Shift+Z): re-apply the most recently undone edit.">Redo</button></div><div class="opt-divider"></div><div class="opt-group"><span class="opt-label">Tool:</span><select id="tool-select" class="opt-select"><option>Move</option><option>Select</option><option>Hand</option><option>Zoom</option></select></div><div class="opt-divider"></div><div class="opt-group"><span class="opt-label">Image</span><input id="doc-width" class="opt-input" type="number" min="64" max="4096" step="1" value="800"><span class="opt-label">×</span><input id="doc-height" class="opt-input" type="number" min="64" max="4096" step="1" value="600"><button id="apply-doc-size" class="opt-btn">Apply</button></div><div class="opt-divider"></div><div class="opt-group"><span class="opt-label">Auto-Select</span><input id="auto-select" type="checkbox" checked data-info="Auto-Select: when enabled, newly imported images automatically become the active layer."></div></div>
+      <div class="menubar"><div class="menubar-logo">FlyerMaker <span class="build-tag">${__BUILD_TAG__}</span></div><div class="menu-group" data-menu="file"><button class="menu-item" data-menu="file">File</button><div class="menu-dropdown"><button class="menu-action" data-menu-action="open-project">Open Project…</button><button class="menu-action" data-menu-action="save-project">Save Project</button><button class="menu-action" data-menu-action="import-file">Import Image…</button><button class="menu-action" data-menu-action="export">Export…</button></div></div><div class="menu-group" data-menu="edit"><button class="menu-item" data-menu="edit">Edit</button><div class="menu-dropdown"><button class="menu-action" data-menu-action="undo">Undo</button><button class="menu-action" data-menu-action="redo">Redo</button></div></div><div class="menu-group" data-menu="image"><button class="menu-item" data-menu="image">Image</button><div class="menu-dropdown"><button class="menu-action" data-menu-action="import-url">Import URL…</button></div></div><div class="menu-group" data-menu="layer"><button class="menu-item" data-menu="layer">Layer</button><div class="menu-dropdown"><button class="menu-action" data-menu-action="new-adjustment">New Adjustment Layer</button><button class="menu-action" data-menu-action="duplicate">Duplicate Layer</button><button class="menu-action" data-menu-action="group">Group Layers</button><button class="menu-action" data-menu-action="ungroup">Ungroup</button><button class="menu-action" data-menu-action="copy-effects">Copy Effects</button><button class="menu-action" data-menu-action="paste-effects-replace">Paste Effects (Replace)</button><button class="menu-action" data-menu-action="paste-effects-append">Paste Effects (Append)</button></div></div><div class="menu-group" data-menu="view"><button class="menu-item" data-menu="view">View</button><div class="menu-dropdown"><button class="menu-action" data-menu-action="zoom-fit">Fit to View</button><button class="menu-action" data-menu-action="zoom-100">Actual Size (100%)</button></div></div><div class="menubar-spacer"></div></div>
+      <div class="optionsbar"><div class="opt-group"><button id="undo-action" class="opt-btn" data-info="Undo (Ctrl/Cmd+Z): revert the latest layer/document edit.">Undo</button><button id="redo-action" class="opt-btn" data-info="Redo (Ctrl/Cmd+Shift+Z): re-apply the most recently undone edit.">Redo</button></div><div class="opt-divider"></div><div class="opt-group"><span class="opt-label">Tool:</span><select id="tool-select" class="opt-select"><option>Move</option><option>Select</option><option>Hand</option><option>Zoom</option><option>Text</option><option>Shape</option><option>Mask</option></select></div><div class="opt-divider"></div><div class="opt-group"><span class="opt-label">Shape:</span><select id="shape-kind" class="opt-select" data-info="Shape kind drawn by the Shape tool.">${SHAPE_KINDS.map((kind) => `<option value="${kind}">${kind}</option>`).join('')}</select></div><div class="opt-divider"></div><div class="opt-group"><span class="opt-label">Brush:</span><input id="mask-brush-size" class="opt-input" type="number" min="1" max="1000" step="1" value="40" data-info="Mask brush diameter in document pixels."><select id="mask-brush-mode" class="opt-select" data-info="Hide paints the mask black; Reveal paints it white. Hold Alt to swap while painting."><option value="hide">Hide</option><option value="reveal">Reveal</option></select></div><div class="opt-divider"></div><div class="opt-group"><span class="opt-label">Image</span><input id="doc-width" class="opt-input" type="number" min="64" max="4096" step="1" value="800"><span class="opt-label">×</span><input id="doc-height" class="opt-input" type="number" min="64" max="4096" step="1" value="600"><button id="apply-doc-size" class="opt-btn">Apply</button></div><div class="opt-divider"></div><div class="opt-group"><span class="opt-label">Auto-Select</span><input id="auto-select" type="checkbox" checked data-info="Auto-Select: when enabled, newly imported images automatically become the active layer."></div></div>
       <div class="main">
-        <div class="toolbar"><button class="tool-btn active" data-tool="Move" data-info="Move tool: drag a selected layer to reposition it. Drag corner handles to resize.">Move</button><button class="tool-btn" data-tool="Select" data-info="Select tool: keeps layer focus without moving; useful when adjusting panel values.">Select</button><button class="tool-btn" data-tool="Hand" data-info="Hand tool: click-drag in the canvas to pan the whole document view.">Hand</button><button class="tool-btn" data-tool="Zoom" data-info="Zoom tool: use wheel or +/- controls to zoom the entire document and rulers in 5% increments.">Zoom</button></div>
-        <div class="canvas-wrapper"><canvas id="ruler-h" class="ruler-h" height="20"></canvas><div class="canvas-with-ruler"><canvas id="ruler-v" class="ruler-v" width="20"></canvas><div class="canvas-area"><div id="canvas-wrap" class="canvas-wrap"><canvas id="main-canvas" width="800" height="600"></canvas></div><div class="zoom-controls"><button class="zoom-btn" id="zoom-out" data-info="Zoom out by 5%.">−</button><div class="zoom-level" id="zoom-level">100%</div><button class="zoom-btn" id="zoom-in" data-info="Zoom in by 5%.">+</button><button class="zoom-btn" id="zoom-fit" data-info="Fit: scales the entire document to fit inside the current canvas viewport.">Fit</button></div></div></div></div>
-        <div class="panels-right"><div class="panel"><div class="panel-header panel-header-actions"><span class="panel-title">Layers</span><button id="add-layer" class="opt-btn panel-add-btn" data-info="Import an image as a new layer.">+ Image</button></div><div class="panel-body"><div id="layers-list" class="layers-list"></div></div></div><div class="panel"><div class="panel-header"><span class="panel-title">Transform</span></div><div class="panel-body transform-grid"><label>X <input id="transform-x" class="opt-select" type="number"></label><label>Y <input id="transform-y" class="opt-select" type="number"></label><label>W <input id="transform-w" class="opt-select" type="number"></label><label>H <input id="transform-h" class="opt-select" type="number"></label></div></div><div class="panel panel-effects"><div class="panel-header"><span class="panel-title">Effects</span></div><div class="panel-body"><div id="effects-list" class="effects-list"></div></div></div></div>
+        <div class="toolbar"><button class="tool-btn active" data-tool="Move" data-info="Move tool: drag a selected layer to reposition it. Drag corner handles to resize, or the top handle to rotate.">Move</button><button class="tool-btn" data-tool="Select" data-info="Select tool: keeps layer focus without moving; useful when adjusting panel values.">Select</button><button class="tool-btn" data-tool="Hand" data-info="Hand tool: click-drag in the canvas to pan the whole document view.">Hand</button><button class="tool-btn" data-tool="Zoom" data-info="Zoom tool: use wheel or +/- controls to zoom the entire document and rulers in 5% increments.">Zoom</button><button class="tool-btn" data-tool="Text" data-info="Text tool: click the canvas to add a text layer, or click existing text to edit it on the canvas.">Text</button><button class="tool-btn" data-tool="Shape" data-info="Shape tool: drag on the canvas to draw a rectangle, ellipse, line or polygon.">Shape</button><button class="tool-btn" data-tool="Mask" data-info="Mask tool: paint the active layer's painted mask to hide or reveal parts of it.">Mask</button></div>
+        <div class="canvas-wrapper"><canvas id="ruler-h" class="ruler-h" height="20"></canvas><div class="canvas-with-ruler"><canvas id="ruler-v" class="ruler-v" width="20"></canvas><div class="canvas-area"><div id="canvas-wrap" class="canvas-wrap"><canvas id="main-canvas" width="800" height="600"></canvas></div><div class="zoom-controls"><button class="zoom-btn" id="zoom-out" data-info="Zoom out by 5%.">−</button><div class="zoom-level" id="zoom-level">100%</div><button class="zoom-btn" id="zoom-in" data-info="Zoom in by 5%.">+</button><button class="zoom-btn" id="zoom-fit" data-info="Fit: scales the entire document to fit inside the current canvas viewport.">Fit</button></div></div></div><div id="timeline" class="timeline"></div></div>
+        <div class="panels-right"><div class="panel"><div class="panel-header panel-header-actions"><span class="panel-title">Layers</span><button id="add-layer" class="opt-btn panel-add-btn" data-info="Import an image as a new layer.">+ Image</button></div><div class="panel-body"><div id="layers-list" class="layers-list"></div></div></div><div class="panel"><div class="panel-header"><span class="panel-title">Transform</span></div><div class="panel-body transform-grid"><label>X <input id="transform-x" class="opt-select" type="number"></label><label>Y <input id="transform-y" class="opt-select" type="number"></label><label>W <input id="transform-w" class="opt-select" type="number"></label><label>H <input id="transform-h" class="opt-select" type="number"></label><label>R° <input id="transform-r" class="opt-select" type="number" step="0.1"></label><div class="transform-actions"><button id="flip-h" class="opt-btn" data-info="Flip the layer horizontally.">Flip H</button><button id="flip-v" class="opt-btn" data-info="Flip the layer vertically.">Flip V</button></div><div class="transform-actions transform-actions-wide"><button id="transform-lock" class="opt-btn" data-info="Lock the aspect ratio when resizing (hold Shift while dragging for a one-off lock).">Lock ratio</button><button id="transform-natural" class="opt-btn" data-info="Reset the image layer to its natural pixel size.">Natural size</button></div></div></div><div class="panel"><div class="panel-header"><span class="panel-title">Align</span></div><div class="panel-body align-grid">${ALIGN_EDGES.map((edge) => `<button class="opt-btn" data-align="${edge}" data-info="Align the selection's ${edge === 'center' || edge === 'middle' ? `${edge}s` : `${edge} edges`}.">${edge.charAt(0).toUpperCase()}${edge.slice(1)}</button>`).join('')}<select id="align-target" class="opt-select" data-info="Align relative to the selection's bounds or to the canvas. A single layer always aligns to the canvas."><option value="selection">To selection</option><option value="canvas">To canvas</option></select><button class="opt-btn" data-distribute="horizontal" data-info="Space three or more layers evenly from left to right.">Distribute H</button><button class="opt-btn" data-distribute="vertical" data-info="Space three or more layers evenly from top to bottom.">Distribute V</button></div></div><div class="panel" hidden><div class="panel-header"><span class="panel-title">Text</span></div><div id="text-props" class="panel-body transform-grid"></div></div><div class="panel" hidden><div class="panel-header"><span class="panel-title">Shape</span></div><div id="shape-props" class="panel-body transform-grid"></div></div><div class="panel" hidden><div class="panel-header"><span class="panel-title">Mask</span></div><div id="mask-props" class="panel-body transform-grid"></div></div><div class="panel"><div class="panel-header"><span class="panel-title">Presets</span></div><div id="presets-props" class="panel-body transform-grid"></div></div><div class="panel panel-effects"><div class="panel-header"><span class="panel-title">Effects</span></div><div class="panel-body"><div id="effects-list" class="effects-list"></div></div></div></div>
       </div>
       <div class="statusbar"><div class="status-item status-help-only" id="status-help">Move tool: drag selected layers to reposition. Drag corner handles to resize.</div></div>
       <input id="file-input" type="file" accept="image/*" hidden />
+      <input id="project-input" type="file" accept=".${PROJECT_EXTENSION},application/json" hidden />
     `;
   }
 }
@@ -1,3 +1,6 @@
+import type { BlendMode, RasterMask } from '../model/Layer';
+import type { KeyframeTrack, ParamDriver } from '../model/Animation';
+
 export interface EffectParamFloat {
   type: 'float';
   label: string;
@@ -5,6 +8,11 @@ export interface EffectParamFloat {
   min: number;
   max: number;
   step: number;
+  /**
+   * A length in source pixels (a radius, shift or grain size). Scaled with
+   * the source when effects run at another resolution than the preview.
+   */
+  pixels?: boolean;
 }
 
 export interface EffectParamInt {
@@ -14,6 +22,8 @@ export interface EffectParamInt {
   min: number;
   max: number;
   step: number;
+  /** A length in source pixels, as on `EffectParamFloat`. */
+  pixels?: boolean;
 }
 
 export interface EffectParamColor {
@@ -35,7 +45,74 @@ export interface EffectParamSelect {
   options: string[];
 }
 
-export type EffectParam = EffectParamFloat | EffectParamInt | EffectParamColor | EffectParamBoolean | EffectParamSelect;
+/** Control points in [0, 1]², sorted by x. */
+export type CurvePoint = [number, number];
+
+export interface CurveValue {
+  master: CurvePoint[];
+  red: CurvePoint[];
+  green: CurvePoint[];
+  blue: CurvePoint[];
+}
+
+export type CurveChannel = keyof CurveValue;
+
+export interface EffectParamCurve {
+  type: 'curve';
+  label: string;
+  value: CurveValue;
+}
+
+/**
+ * An imported file kept as text on the param itself, so it travels with the
+ * effect through history snapshots and project saves. `id` hashes the
+ * contents and stands in for them in cache keys and comparisons.
+ */
+export interface EffectAsset {
+  id: string;
+  name: string;
+  data: string;
+}
+
+export interface EffectParamFile {
+  type: 'file';
+  label: string;
+  /** File input `accept` filter, e.g. `.cube`. */
+  accept: string;
+  value: EffectAsset | null;
+}
+
+export type EffectParam = EffectParamFloat | EffectParamInt | EffectParamColor | EffectParamBoolean | EffectParamSelect | EffectParamCurve | EffectParamFile;
+
+export function createEffectAsset(name: string, data: string): EffectAsset {
+  // 32-bit FNV-1a; the length suffix makes collisions between edits of one file unlikely.
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < data.length; i++) {
+    hash ^= data.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return { id: `${(hash >>> 0).toString(16).padStart(8, '0')}-${data.length}`, name, data };
+}
+
+/** Comparable form of a param value; assets reduce to their id rather than their full text. */
+export function paramValueKey(param: EffectParam): string {
+  if (param.type === 'file') return param.value ? `asset:${param.value.id}` : 'null';
+  return JSON.stringify(param.value);
+}
+
+/** Deep copy of a param value, so edits never alias another effect's or a snapshot's. */
+export function cloneParamValue<T extends EffectParam['value']>(value: T): T {
+  if (value === null) return value;
+  if (Array.isArray(value)) return [...value] as T;
+  if (typeof value === 'object') {
+    // Asset text is immutable, so copies can share it.
+    if ('data' in value) return { ...value } as T;
+    const curve = value as CurveValue;
+    const copy = (points: CurvePoint[]) => points.map(([x, y]): CurvePoint => [x, y]);
+    return { master: copy(curve.master), red: copy(curve.red), green: copy(curve.green), blue: copy(curve.blue) } as T;
+  }
+  return value;
+}
 
 export interface PassConfig {
   fragmentShader: string;
@@ -45,7 +122,15 @@ export interface PassConfig {
 
 export interface UniformInt { __int: true; value: number; }
 export function uniformInt(value: number): UniformInt { return { __int: true, value }; }
-export type UniformValue = number | number[] | boolean | UniformInt;
+/**
+ * RGBA lookup data bound with linear filtering: a `Uint8Array` uploads as
+ * RGBA8, a `Float32Array` as RGBA16F. With `depth` it binds as a `sampler3D`.
+ */
+export interface UniformTexture { __texture: true; width: number; height: number; depth?: number; data: Uint8Array | Float32Array; }
+export function uniformTexture(data: Uint8Array | Float32Array, width: number, height: number, depth?: number): UniformTexture {
+  return { __texture: true, width, height, depth, data };
+}
+export type UniformValue = number | number[] | boolean | UniformInt | UniformTexture;
 export type UniformMap = Record<string, UniformValue>;
 
 export interface EffectDefinition {
@@ -56,22 +141,60 @@ export interface EffectDefinition {
   getUniforms(params: Record<string, EffectParam>): UniformMap;
   passes?: number;
   getPassConfig?(pass: number, params: Record<string, EffectParam>): PassConfig;
+  /** Checks a file picked for param `key`; throws with a user-facing message to reject it. */
+  validateAsset?(key: string, asset: EffectAsset): void;
+  /** True when the output changes with the animation frame (the `u_frame` uniform). */
+  usesFrame?(params: Record<string, EffectParam>): boolean;
 }
 
+/**
+ * Limits an effect to a band of its input's luminance, 0–1. `feather` widens
+ * each edge of the band into a linear ramp.
+ */
+export interface EffectLuminanceMask {
+  type: 'luminance';
+  enabled: boolean;
+  /** Apply outside the band instead of inside it. */
+  inverted: boolean;
+  min: number;
+  max: number;
+  feather: number;
+}
+
+/**
+ * Painted effect masks share the layer mask's format and brush: coverage
+ * stretched over the effect's input, which is the layer's unflipped content.
+ */
+export type EffectMask = EffectLuminanceMask | RasterMask;
+
 export interface LayerEffect {
   definitionId: string;
   enabled: boolean;
   params: Record<string, EffectParam>;
+  /** How much of the effect's output replaces its input, 0–1. */
+  mix: number;
+  /** Blend of the effect's output over its input; `source-over` replaces it. */
+  blendMode: BlendMode;
+  mask: EffectMask | null;
+  /** Tracks for numeric params, by param key. */
+  keyframes: Record<string, KeyframeTrack>;
+  /** Procedural modulation of numeric params, by param key. */
+  drivers: Record<string, ParamDriver>;
 }
 
 export function createLayerEffect(definition: EffectDefinition): LayerEffect {
   const params: Record<string, EffectParam> = {};
   for (const [key, param] of Object.entries(definition.params)) {
-    params[key] = { ...param, value: param.type === 'color' ? [...param.value] : param.value } as EffectParam;
+    params[key] = { ...param, value: cloneParamValue(param.value) } as EffectParam;
   }
   return {
     definitionId: definition.id,
     enabled: true,
-    params
+    params,
+    mix: 1,
+    blendMode: 'source-over',
+    mask: null,
+    keyframes: {},
+    drivers: {}
   };
 }
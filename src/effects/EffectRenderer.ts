@@ -1,5 +1,8 @@
-import type { LayerEffect, UniformMap, UniformInt } from './Effect';
+import type { LayerEffect, UniformMap, UniformInt, UniformTexture } from './Effect';
+import { uniformInt } from './Effect';
 import { effectRegistry } from './EffectRegistry';
+import { GPU_BLEND_MODES } from '../model/BlendModes';
+import { BLEND_MODE_GLSL } from '../renderer/GpuBlender';
 
 const VERTEX_SHADER = `#version 300 es
 in vec2 a_position;
@@ -21,6 +24,54 @@ void main() {
 }
 `;
 
+// Lays an effect's output (u_texture) over its input (u_original) with the
+// effect's blend mode, scaled by its mix and mask. Colors are straight, so
+// the mix happens premultiplied to keep transparent edges from darkening.
+const EFFECT_MIX_FRAGMENT = `#version 300 es
+precision highp float;
+in vec2 v_texCoord;
+uniform sampler2D u_texture;
+uniform sampler2D u_original;
+uniform sampler2D u_mask;
+uniform float u_mix;
+uniform int u_maskKind;
+uniform bool u_maskInverted;
+uniform float u_lumaMin;
+uniform float u_lumaMax;
+uniform float u_feather;
+out vec4 fragColor;
+${BLEND_MODE_GLSL}
+
+float maskWeight(vec4 base) {
+  float weight = 1.0;
+  if (u_maskKind == 1) {
+    float l = luma(base.rgb);
+    float low = u_feather > 0.0 ? clamp((l - u_lumaMin) / u_feather + 1.0, 0.0, 1.0) : step(u_lumaMin, l);
+    float high = u_feather > 0.0 ? clamp((u_lumaMax - l) / u_feather + 1.0, 0.0, 1.0) : step(l, u_lumaMax);
+    weight = low * high;
+  } else if (u_maskKind == 2) {
+    weight = texture(u_mask, v_texCoord).a;
+  }
+  return u_maskKind != 0 && u_maskInverted ? 1.0 - weight : weight;
+}
+
+void main() {
+  vec4 base = texture(u_original, v_texCoord);
+  vec4 effect = texture(u_texture, v_texCoord);
+  // Where the input is transparent there is nothing to blend with.
+  vec3 blended = mix(effect.rgb, blendMode(base.rgb, effect.rgb), base.a);
+  vec4 result = mix(vec4(base.rgb * base.a, base.a), vec4(blended * effect.a, effect.a), u_mix * maskWeight(base));
+  fragColor = result.a > EPS ? vec4(clamp(result.rgb / result.a, 0.0, 1.0), result.a) : vec4(0.0);
+}
+`;
+
+const MASK_KIND = { none: 0, luminance: 1, raster: 2 } as const;
+
+/** Effects at full strength, normal blend and unmasked skip the mix pass. */
+function needsMixPass(effect: LayerEffect): boolean {
+  return effect.mix < 1 || effect.blendMode !== 'source-over' || effect.mask?.enabled === true;
+}
+
 interface PingPongBuffers {
   framebuffers: [WebGLFramebuffer, WebGLFramebuffer];
   textures: [WebGLTexture, WebGLTexture];
@@ -45,8 +96,15 @@ export class EffectRenderer {
   private effectOriginalTexture: WebGLTexture | null = null;
   private effectOriginalFb: WebGLFramebuffer | null = null;
   private effectOriginalSize: { width: number; height: number } = { width: 0, height: 0 };
+  private maskTexture: WebGLTexture | null = null;
   private resultCanvas: HTMLCanvasElement | null = null;
   private cacheMap = new Map<string, HTMLCanvasElement>();
+  /**
+   * Lookup textures for `UniformTexture` uniforms, reused per uniform name
+   * and target. `data` is the last upload, skipped when the same array comes
+   * back (e.g. a parsed LUT held in its effect's cache).
+   */
+  private dataTextures = new Map<string, { texture: WebGLTexture; data: Uint8Array | Float32Array | null }>();
 
   private ensureContext(): WebGL2RenderingContext {
     if (this.gl) return this.gl;
@@ -194,6 +252,66 @@ export class EffectRenderer {
     return this.sourceTexture;
   }
 
+  private bindDataTexture(gl: WebGL2RenderingContext, name: string, value: UniformTexture, unit: number): void {
+    const target = value.depth ? gl.TEXTURE_3D : gl.TEXTURE_2D;
+    const key = `${name}:${value.depth ? '3d' : '2d'}`;
+    let entry = this.dataTextures.get(key);
+    if (!entry) {
+      entry = { texture: gl.createTexture()!, data: null };
+      this.dataTextures.set(key, entry);
+    }
+    gl.activeTexture(gl.TEXTURE0 + unit);
+    gl.bindTexture(target, entry.texture);
+    if (entry.data !== value.data) {
+      const float = value.data instanceof Float32Array;
+      const internalFormat = float ? gl.RGBA16F : gl.RGBA8;
+      const type = float ? gl.FLOAT : gl.UNSIGNED_BYTE;
+      if (value.depth) {
+        gl.texImage3D(target, 0, internalFormat, value.width, value.height, value.depth, 0, gl.RGBA, type, value.data);
+      } else {
+        gl.texImage2D(target, 0, internalFormat, value.width, value.height, 0, gl.RGBA, type, value.data);
+      }
+      gl.texParameteri(target, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+      gl.texParameteri(target, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+      gl.texParameteri(target, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(target, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      if (value.depth) gl.texParameteri(target, gl.TEXTURE_WRAP_R, gl.CLAMP_TO_EDGE);
+      entry.data = value.data;
+    }
+    gl.activeTexture(gl.TEXTURE0);
+  }
+
+  /** Uniforms of the mix pass; a painted mask is uploaded to texture unit 2. */
+  private mixUniforms(gl: WebGL2RenderingContext, effect: LayerEffect): UniformMap {
+    const mask = effect.mask?.enabled ? effect.mask : null;
+    const uniforms: UniformMap = {
+      u_mix: effect.mix,
+      u_mode: uniformInt(Math.max(0, GPU_BLEND_MODES.indexOf(effect.blendMode))),
+      u_maskKind: uniformInt(MASK_KIND[mask?.type ?? 'none']),
+      u_maskInverted: mask?.inverted ?? false,
+      u_mask: uniformInt(2)
+    };
+    if (mask?.type === 'luminance') {
+      uniforms.u_lumaMin = mask.min;
+      uniforms.u_lumaMax = mask.max;
+      uniforms.u_feather = mask.feather;
+    } else if (mask?.type === 'raster') {
+      if (!this.maskTexture) this.maskTexture = gl.createTexture()!;
+      gl.activeTexture(gl.TEXTURE2);
+      gl.bindTexture(gl.TEXTURE_2D, this.maskTexture);
+      // Flipped like the source, so both line up under the same texcoords.
+      gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, gl.RGBA, gl.UNSIGNED_BYTE, mask.canvas);
+      gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      gl.activeTexture(gl.TEXTURE0);
+    }
+    return uniforms;
+  }
+
   private drawPass(gl: WebGL2RenderingContext, prog: ShaderProgram, inputTex: WebGLTexture, outputFb: WebGLFramebuffer | null, uniforms: UniformMap, width: number, height: number, originalTex?: WebGLTexture): void {
     gl.bindFramebuffer(gl.FRAMEBUFFER, outputFb);
     gl.viewport(0, 0, width, height);
@@ -214,10 +332,15 @@ export class EffectRenderer {
       gl.activeTexture(gl.TEXTURE0);
     }
 
+    // Units 0 and 1 hold the input and the effect's original.
+    let textureUnit = 2;
     for (const [name, value] of Object.entries(uniforms)) {
       const loc = gl.getUniformLocation(prog.program, name);
       if (loc === null) continue;
-      if (typeof value === 'boolean') {
+      if (typeof value === 'object' && !Array.isArray(value) && (value as UniformTexture).__texture) {
+        this.bindDataTexture(gl, name, value as UniformTexture, textureUnit);
+        gl.uniform1i(loc, textureUnit++);
+      } else if (typeof value === 'boolean') {
         gl.uniform1i(loc, value ? 1 : 0);
       } else if (typeof value === 'object' && !Array.isArray(value) && (value as UniformInt).__int) {
         gl.uniform1i(loc, (value as UniformInt).value);
@@ -241,7 +364,8 @@ export class EffectRenderer {
     gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
   }
 
-  process(source: CanvasImageSource, width: number, height: number, effects: LayerEffect[], cacheKey: string): HTMLCanvasElement | null {
+  /** `frame` feeds the `u_frame` uniform of effects that animate per frame. */
+  process(source: CanvasImageSource, width: number, height: number, effects: LayerEffect[], cacheKey: string, frame = 0): HTMLCanvasElement | null {
     const enabledEffects = effects.filter((e) => e.enabled);
     if (enabledEffects.length === 0) return null;
 
@@ -262,14 +386,15 @@ export class EffectRenderer {
 
     for (const effect of enabledEffects) {
       const def = effectRegistry.get(effect.definitionId);
-      if (!def) continue;
+      if (!def || effect.mix <= 0) continue;
 
       const passCount = def.passes ?? 1;
+      const mixPass = needsMixPass(effect);
 
-      // For multi-pass effects, snapshot the current input into a
-      // separate texture so it survives ping-pong overwrites.
+      // For multi-pass and mixed effects, snapshot the current input into
+      // a separate texture so it survives ping-pong overwrites.
       let effectOriginalTex: WebGLTexture | undefined;
-      if (passCount > 1) {
+      if (passCount > 1 || mixPass) {
         effectOriginalTex = this.snapshotEffectInput(gl, inputTexture, width, height);
       }
 
@@ -289,6 +414,7 @@ export class EffectRenderer {
         }
 
         uniforms['u_resolution'] = [width, height];
+        uniforms['u_frame'] = frame;
 
         const prog = this.getProgram(gl, fragmentSource);
         const writeIndex = readIndex === 0 ? 1 : 0;
@@ -296,6 +422,13 @@ export class EffectRenderer {
         inputTexture = pp.textures[writeIndex];
         readIndex = writeIndex;
       }
+
+      if (mixPass) {
+        const writeIndex = readIndex === 0 ? 1 : 0;
+        this.drawPass(gl, this.getProgram(gl, EFFECT_MIX_FRAGMENT), inputTexture, pp.framebuffers[writeIndex], this.mixUniforms(gl, effect), width, height, effectOriginalTex);
+        inputTexture = pp.textures[writeIndex];
+        readIndex = writeIndex;
+      }
     }
 
     // Read back to a canvas
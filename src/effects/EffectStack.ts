@@ -1,27 +1,41 @@
-import type { LayerEffect, EffectParam } from './Effect';
+import type { LayerEffect, EffectMask, EffectParam } from './Effect';
+import { cloneParamValue, paramValueKey } from './Effect';
+import { effectRegistry } from './EffectRegistry';
+import { cloneDrivers, cloneKeyframes, driveParam, isAnimatableParam } from '../model/Animation';
 
 let cacheCounter = 0;
 
-export function generateCacheKey(layerId: string, effects: LayerEffect[]): string {
+/**
+ * `contentKey` identifies generated layer content (e.g. rasterized text) so
+ * edits to it invalidate the effect cache like a param change would.
+ * `frame` only enters the key of effects that vary per frame.
+ */
+export function generateCacheKey(layerId: string, effects: LayerEffect[], contentKey = '', frame = 0): string {
   const parts = effects
     .filter((e) => e.enabled)
     .map((e) => {
       const paramStr = Object.entries(e.params)
-        .map(([k, p]) => `${k}=${JSON.stringify(p.value)}`)
+        .map(([k, p]) => `${k}=${paramValueKey(p)}`)
         .join(',');
-      return `${e.definitionId}:{${paramStr}}`;
+      const frameStr = effectRegistry.get(e.definitionId)?.usesFrame?.(e.params) ? `~f${frame}` : '';
+      return `${e.definitionId}:{${paramStr}}@${e.mix}:${e.blendMode}:${e.mask ? effectMaskKey(e.mask) : ''}${frameStr}`;
     });
-  return `${layerId}|${parts.join('|')}`;
+  const base = `${layerId}|${parts.join('|')}`;
+  return contentKey ? `${base}|#${contentKey}` : base;
+}
+
+/** Painted masks reduce to their version, bumped on every dab. */
+export function effectMaskKey(mask: EffectMask): string {
+  if (mask.type === 'raster') {
+    return `raster:${mask.version}:${mask.canvas.width}x${mask.canvas.height}:${mask.enabled}:${mask.inverted}`;
+  }
+  return JSON.stringify([mask.type, mask.min, mask.max, mask.feather, mask.enabled, mask.inverted]);
 }
 
 export function cloneEffectParams(params: Record<string, EffectParam>): Record<string, EffectParam> {
   const result: Record<string, EffectParam> = {};
   for (const [key, param] of Object.entries(params)) {
-    if (param.type === 'color') {
-      result[key] = { ...param, value: [...param.value] };
-    } else {
-      result[key] = { ...param };
-    }
+    result[key] = { ...param, value: cloneParamValue(param.value) } as EffectParam;
   }
   return result;
 }
@@ -30,10 +44,53 @@ export function cloneLayerEffects(effects: LayerEffect[]): LayerEffect[] {
   return effects.map((e) => ({
     definitionId: e.definitionId,
     enabled: e.enabled,
-    params: cloneEffectParams(e.params)
+    params: cloneEffectParams(e.params),
+    mix: e.mix,
+    blendMode: e.blendMode,
+    // Painted mask canvases are shared; strokes copy before writing.
+    mask: e.mask ? { ...e.mask } : null,
+    keyframes: cloneKeyframes(e.keyframes),
+    drivers: cloneDrivers(e.drivers)
   }));
 }
 
+/**
+ * `effects` with every driven param replaced by its value at `time` into a
+ * timeline that wraps every `loop` seconds, so
+ * cache keys and uniforms both see the evaluated values. Effects without
+ * drivers are passed through untouched.
+ */
+export function drivenEffects(effects: LayerEffect[], time: number, loop: number): LayerEffect[] {
+  return effects.map((effect) => {
+    const drivers = Object.entries(effect.drivers);
+    if (drivers.length === 0) return effect;
+    const params = { ...effect.params };
+    for (const [key, driver] of drivers) {
+      const param = params[key];
+      if (param && isAnimatableParam(param)) params[key] = { ...param, value: driveParam(param, driver, time, loop) };
+    }
+    return { ...effect, params };
+  });
+}
+
+/**
+ * `effects` with every pixel-sized param multiplied by `factor`, for a
+ * source rendered at `factor` times the preview's pixels, so radii and
+ * shifts cover the same share of the layer. Returns `effects` at factor 1.
+ */
+export function scaledEffects(effects: LayerEffect[], factor: number): LayerEffect[] {
+  if (factor === 1) return effects;
+  return effects.map((effect) => {
+    const params = { ...effect.params };
+    for (const [key, param] of Object.entries(params)) {
+      if (!isAnimatableParam(param) || !param.pixels) continue;
+      const value = param.value * factor;
+      params[key] = { ...param, value: param.type === 'int' ? Math.round(value) : value };
+    }
+    return { ...effect, params };
+  });
+}
+
 export function invalidateCacheKey(): string {
   return `cache_${++cacheCounter}_${Date.now()}`;
 }
@@ -83,7 +83,7 @@ export const bloom: EffectDefinition = {
   name: 'Bloom',
   params: {
     threshold: { type: 'float', label: 'Threshold', value: 0.6, min: 0.0, max: 1.0, step: 0.01 },
-    radius: { type: 'float', label: 'Radius', value: 8.0, min: 0.1, max: 40.0, step: 0.1 },
+    radius: { type: 'float', label: 'Radius', value: 8.0, min: 0.1, max: 40.0, step: 0.1, pixels: true },
     strength: { type: 'float', label: 'Strength', value: 0.8, min: 0.0, max: 2.0, step: 0.01 }
   },
   passes: 4,
@@ -52,7 +52,7 @@ export const gaussianBlur: EffectDefinition = {
   id: 'gaussian-blur',
   name: 'Gaussian Blur',
   params: {
-    sigma: { type: 'float', label: 'Radius', value: 4.0, min: 0.1, max: 50.0, step: 0.1 }
+    sigma: { type: 'float', label: 'Radius', value: 4.0, min: 0.1, max: 50.0, step: 0.1, pixels: true }
   },
   passes: 2,
   getFragmentShader() {
@@ -44,7 +44,7 @@ export const chromaticAberration: EffectDefinition = {
   name: 'Chromatic Aberration',
   params: {
     mode: { type: 'select', label: 'Mode', value: 'radial', options: ['radial', 'linear'] },
-    shift: { type: 'float', label: 'Shift (px)', value: 2.5, min: 0.0, max: 40.0, step: 0.1 },
+    shift: { type: 'float', label: 'Shift (px)', value: 2.5, min: 0.0, max: 40.0, step: 0.1, pixels: true },
     angle: { type: 'float', label: 'Angle (deg)', value: 0, min: -180, max: 180, step: 1 },
     mix: { type: 'float', label: 'Mix', value: 1.0, min: 0.0, max: 1.0, step: 0.01 }
   },
@@ -0,0 +1,108 @@
+import type { CurvePoint, CurveValue, EffectDefinition, EffectParam } from './Effect';
+import { uniformTexture } from './Effect';
+
+const CURVES_FRAGMENT = `#version 300 es
+precision highp float;
+in vec2 v_texCoord;
+uniform sampler2D u_texture;
+uniform sampler2D u_curve;
+out vec4 fragColor;
+
+// Maps [0, 1] onto the 256 texel centers so linear filtering interpolates entries.
+float lookup(float x, int channel) {
+  vec4 entry = texture(u_curve, vec2(clamp(x, 0.0, 1.0) * (255.0 / 256.0) + 0.5 / 256.0, 0.5));
+  return entry[channel];
+}
+
+void main() {
+  vec4 src = texture(u_texture, v_texCoord);
+  fragColor = vec4(lookup(src.r, 0), lookup(src.g, 1), lookup(src.b, 2), src.a);
+}
+`;
+
+export const LUT_SIZE = 256;
+
+/**
+ * Monotone cubic (Fritsch–Carlson) through `points`, so curves never
+ * overshoot between control points; flat outside the first and last.
+ */
+export function evaluateCurve(points: CurvePoint[], x: number): number {
+  const n = points.length;
+  if (n === 0) return x;
+  if (n === 1 || x <= points[0][0]) return points[0][1];
+  if (x >= points[n - 1][0]) return points[n - 1][1];
+
+  const slopes: number[] = [];
+  for (let k = 0; k < n - 1; k++) {
+    const dx = points[k + 1][0] - points[k][0];
+    slopes.push(dx > 0 ? (points[k + 1][1] - points[k][1]) / dx : 0);
+  }
+  const tangents = points.map((_, k) => {
+    if (k === 0) return slopes[0];
+    if (k === n - 1) return slopes[n - 2];
+    return slopes[k - 1] * slopes[k] <= 0 ? 0 : (slopes[k - 1] + slopes[k]) / 2;
+  });
+  for (let k = 0; k < n - 1; k++) {
+    if (slopes[k] === 0) {
+      tangents[k] = 0;
+      tangents[k + 1] = 0;
+      continue;
+    }
+    const a = tangents[k] / slopes[k];
+    const b = tangents[k + 1] / slopes[k];
+    const s = a * a + b * b;
+    if (s > 9) {
+      const t = 3 / Math.sqrt(s);
+      tangents[k] = t * a * slopes[k];
+      tangents[k + 1] = t * b * slopes[k];
+    }
+  }
+
+  let k = 0;
+  while (x > points[k + 1][0]) k++;
+  const [x0, y0] = points[k];
+  const [x1, y1] = points[k + 1];
+  const h = x1 - x0;
+  const t = (x - x0) / h;
+  const t2 = t * t;
+  const t3 = t2 * t;
+  const y = (2 * t3 - 3 * t2 + 1) * y0 + (t3 - 2 * t2 + t) * h * tangents[k]
+    + (-2 * t3 + 3 * t2) * y1 + (t3 - t2) * h * tangents[k + 1];
+  return Math.min(1, Math.max(0, y));
+}
+
+/**
+ * Bakes a 256-entry RGBA lookup: each channel runs through its own curve
+ * and then the master curve.
+ */
+export function bakeCurveLut(curve: CurveValue): Uint8Array {
+  const lut = new Uint8Array(LUT_SIZE * 4);
+  const channels = [curve.red, curve.green, curve.blue];
+  for (let i = 0; i < LUT_SIZE; i++) {
+    const x = i / (LUT_SIZE - 1);
+    channels.forEach((points, c) => {
+      lut[i * 4 + c] = Math.round(evaluateCurve(curve.master, evaluateCurve(points, x)) * 255);
+    });
+    lut[i * 4 + 3] = 255;
+  }
+  return lut;
+}
+
+export function identityCurve(): CurveValue {
+  return { master: [[0, 0], [1, 1]], red: [[0, 0], [1, 1]], green: [[0, 0], [1, 1]], blue: [[0, 0], [1, 1]] };
+}
+
+export const curves: EffectDefinition = {
+  id: 'curves',
+  name: 'Curves',
+  params: {
+    curve: { type: 'curve', label: 'Curve', value: identityCurve() }
+  },
+  getFragmentShader() {
+    return CURVES_FRAGMENT;
+  },
+  getUniforms(params: Record<string, EffectParam>) {
+    const curve = (params.curve as EffectParam & { value: CurveValue }).value;
+    return { u_curve: uniformTexture(bakeCurveLut(curve), LUT_SIZE, 1) };
+  }
+};
@@ -9,6 +9,8 @@ uniform vec2 u_resolution;
 uniform float u_amount;
 uniform float u_size;
 uniform float u_seed;
+uniform float u_frame;
+uniform bool u_animate;
 uniform int u_mode;
 out vec4 fragColor;
 
@@ -28,25 +30,27 @@ void main() {
   float scale = max(u_size, 1.0);
 
   vec2 px = floor(v_texCoord * u_resolution / scale);
+  // Animated grain reseeds every frame, so renders of a frame repeat exactly.
+  float seed = u_animate ? u_seed + u_frame : u_seed;
   vec3 noise = vec3(0.0);
 
   if (u_mode == 0) {
-    float n = gaussian(px, u_seed) * amount;
+    float n = gaussian(px, seed) * amount;
     noise = vec3(n);
   } else if (u_mode == 1) {
-    noise.r = gaussian(px + vec2(11.0, 29.0), u_seed + 1.0) * amount;
-    noise.g = gaussian(px + vec2(37.0, 3.0), u_seed + 2.0) * amount;
-    noise.b = gaussian(px + vec2(5.0, 43.0), u_seed + 3.0) * amount;
+    noise.r = gaussian(px + vec2(11.0, 29.0), seed + 1.0) * amount;
+    noise.g = gaussian(px + vec2(37.0, 3.0), seed + 2.0) * amount;
+    noise.b = gaussian(px + vec2(5.0, 43.0), seed + 3.0) * amount;
   } else if (u_mode == 2) {
     vec3 c;
-    c.r = gaussian(px + vec2(11.0, 29.0), u_seed + 4.0);
-    c.g = gaussian(px + vec2(37.0, 3.0), u_seed + 5.0);
-    c.b = gaussian(px + vec2(5.0, 43.0), u_seed + 6.0);
+    c.r = gaussian(px + vec2(11.0, 29.0), seed + 4.0);
+    c.g = gaussian(px + vec2(37.0, 3.0), seed + 5.0);
+    c.b = gaussian(px + vec2(5.0, 43.0), seed + 6.0);
     c *= amount * 1.35;
     float meanC = (c.r + c.g + c.b) / 3.0;
     noise = c - vec3(meanC);
   } else {
-    float n = gaussian(px, u_seed + 8.0) * amount * 1.2;
+    float n = gaussian(px, seed + 8.0) * amount * 1.2;
     noise = vec3(n);
   }
 
@@ -59,8 +63,9 @@ export const grain: EffectDefinition = {
   name: 'Grain / Noise',
   params: {
     amount: { type: 'float', label: 'Amount', value: 0.08, min: 0.0, max: 0.6, step: 0.005 },
-    size: { type: 'float', label: 'Size', value: 1.0, min: 1.0, max: 8.0, step: 0.1 },
+    size: { type: 'float', label: 'Size', value: 1.0, min: 1.0, max: 8.0, step: 0.1, pixels: true },
     seed: { type: 'int', label: 'Seed', value: 1, min: 0, max: 9999, step: 1 },
+    animate: { type: 'boolean', label: 'Animate', value: false },
     mode: {
       type: 'select',
       label: 'Mode',
@@ -71,6 +76,9 @@ export const grain: EffectDefinition = {
   getFragmentShader() {
     return GRAIN_FRAGMENT;
   },
+  usesFrame(params: Record<string, EffectParam>) {
+    return params.animate?.value === true;
+  },
   getUniforms(params: Record<string, EffectParam>) {
     const p = params as Record<string, EffectParam & { value: number | string }>;
     const modeName = p.mode.value as string;
@@ -83,6 +91,7 @@ export const grain: EffectDefinition = {
       u_amount: p.amount.value as number,
       u_size: p.size.value as number,
       u_seed: p.seed.value as number,
+      u_animate: params.animate.value === true,
       u_mode: uniformInt(mode)
     };
   }
@@ -83,7 +83,7 @@ export const halation: EffectDefinition = {
   name: 'Halation',
   params: {
     threshold: { type: 'float', label: 'Threshold', value: 0.55, min: 0.0, max: 1.0, step: 0.01 },
-    radius: { type: 'float', label: 'Radius', value: 10.0, min: 0.1, max: 48.0, step: 0.1 },
+    radius: { type: 'float', label: 'Radius', value: 10.0, min: 0.1, max: 48.0, step: 0.1, pixels: true },
     strength: { type: 'float', label: 'Strength', value: 0.65, min: 0.0, max: 2.0, step: 0.01 }
   },
   passes: 4,
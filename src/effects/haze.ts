@@ -0,0 +1,103 @@
+import type { EffectDefinition, EffectParam, PassConfig } from './Effect';
+
+const HAZE_BLUR_H_FRAGMENT = `#version 300 es
+precision highp float;
+in vec2 v_texCoord;
+uniform sampler2D u_texture;
+uniform vec2 u_resolution;
+uniform float u_radius;
+out vec4 fragColor;
+
+void main() {
+  float sigma = max(0.001, u_radius);
+  int radius = int(ceil(sigma * 3.0));
+  vec4 acc = vec4(0.0);
+  float total = 0.0;
+  for (int i = -radius; i <= radius; i++) {
+    float x = float(i);
+    float w = exp(-(x * x) / (2.0 * sigma * sigma));
+    acc += texture(u_texture, v_texCoord + vec2(x / u_resolution.x, 0.0)) * w;
+    total += w;
+  }
+  fragColor = acc / total;
+}
+`;
+
+const HAZE_BLUR_V_FRAGMENT = `#version 300 es
+precision highp float;
+in vec2 v_texCoord;
+uniform sampler2D u_texture;
+uniform vec2 u_resolution;
+uniform float u_radius;
+out vec4 fragColor;
+
+void main() {
+  float sigma = max(0.001, u_radius);
+  int radius = int(ceil(sigma * 3.0));
+  vec4 acc = vec4(0.0);
+  float total = 0.0;
+  for (int i = -radius; i <= radius; i++) {
+    float y = float(i);
+    float w = exp(-(y * y) / (2.0 * sigma * sigma));
+    acc += texture(u_texture, v_texCoord + vec2(0.0, y / u_resolution.y)) * w;
+    total += w;
+  }
+  fragColor = acc / total;
+}
+`;
+
+const HAZE_COMPOSITE_FRAGMENT = `#version 300 es
+precision highp float;
+in vec2 v_texCoord;
+uniform sampler2D u_texture;
+uniform sampler2D u_original;
+uniform float u_strength;
+uniform float u_radius;
+out vec4 fragColor;
+
+void main() {
+  vec4 original = texture(u_original, v_texCoord);
+  // Without a blur there is no haze to screen in: the image passes through.
+  if (u_radius <= 0.0) {
+    fragColor = original;
+    return;
+  }
+  vec4 blurred = texture(u_texture, v_texCoord);
+  vec3 screened = 1.0 - (1.0 - original.rgb) * (1.0 - blurred.rgb);
+  fragColor = vec4(mix(original.rgb, screened, u_strength), original.a);
+}
+`;
+
+export const haze: EffectDefinition = {
+  id: 'haze',
+  name: 'Haze',
+  params: {
+    strength: { type: 'float', label: 'Strength', value: 0.25, min: 0.0, max: 1.0, step: 0.01 },
+    radius: { type: 'float', label: 'Radius', value: 16.0, min: 0.0, max: 48.0, step: 0.1, pixels: true }
+  },
+  passes: 3,
+  getFragmentShader() {
+    return HAZE_BLUR_H_FRAGMENT;
+  },
+  getUniforms(params: Record<string, EffectParam>) {
+    const p = params as Record<string, EffectParam & { value: number }>;
+    return {
+      u_strength: p.strength.value,
+      u_radius: p.radius.value
+    };
+  },
+  getPassConfig(pass: number, params: Record<string, EffectParam>): PassConfig {
+    const p = params as Record<string, EffectParam & { value: number }>;
+    if (pass === 0) {
+      return { fragmentShader: HAZE_BLUR_H_FRAGMENT, uniforms: { u_radius: p.radius.value } };
+    }
+    if (pass === 1) {
+      return { fragmentShader: HAZE_BLUR_V_FRAGMENT, uniforms: { u_radius: p.radius.value } };
+    }
+    return {
+      fragmentShader: HAZE_COMPOSITE_FRAGMENT,
+      uniforms: { u_strength: p.strength.value, u_radius: p.radius.value },
+      bindOriginal: true
+    };
+  }
+};
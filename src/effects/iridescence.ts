@@ -116,7 +116,7 @@ export const iridescence: EffectDefinition = {
     hueShift: { type: 'float', label: 'Hue Shift', value: 0.08, min: -1.0, max: 1.0, step: 0.005 },
     edgeBias: { type: 'float', label: 'Edge Bias', value: 0.65, min: 0.0, max: 1.0, step: 0.01 },
     satBoost: { type: 'float', label: 'Saturation Boost', value: 1.2, min: 0.0, max: 3.0, step: 0.01 },
-    softness: { type: 'float', label: 'Softness', value: 1.0, min: 0.0, max: 8.0, step: 0.1 },
+    softness: { type: 'float', label: 'Softness', value: 1.0, min: 0.0, max: 8.0, step: 0.1, pixels: true },
     lumaCenter: { type: 'float', label: 'Luma Center', value: 0.62, min: 0.0, max: 1.0, step: 0.01 },
     lumaRange: { type: 'float', label: 'Luma Range', value: 0.3, min: 0.05, max: 1.0, step: 0.01 },
     seed: { type: 'int', label: 'Seed', value: 101, min: 0, max: 9999, step: 1 }
@@ -0,0 +1,45 @@
+import type { EffectDefinition, EffectParam } from './Effect';
+
+const LEVELS_FRAGMENT = `#version 300 es
+precision highp float;
+in vec2 v_texCoord;
+uniform sampler2D u_texture;
+uniform float u_inBlack;
+uniform float u_inWhite;
+uniform float u_gamma;
+uniform float u_outBlack;
+uniform float u_outWhite;
+out vec4 fragColor;
+
+void main() {
+  vec4 src = texture(u_texture, v_texCoord);
+  vec3 x = clamp((src.rgb - u_inBlack) / max(0.00001, u_inWhite - u_inBlack), 0.0, 1.0);
+  x = pow(x, vec3(1.0 / max(u_gamma, 0.01)));
+  fragColor = vec4(clamp(mix(vec3(u_outBlack), vec3(u_outWhite), x), 0.0, 1.0), src.a);
+}
+`;
+
+export const levels: EffectDefinition = {
+  id: 'levels',
+  name: 'Levels',
+  params: {
+    inBlack: { type: 'float', label: 'Input Black', value: 0, min: 0.0, max: 1.0, step: 0.005 },
+    inWhite: { type: 'float', label: 'Input White', value: 1.0, min: 0.0, max: 1.0, step: 0.005 },
+    gamma: { type: 'float', label: 'Gamma', value: 1.0, min: 0.1, max: 4.0, step: 0.01 },
+    outBlack: { type: 'float', label: 'Output Black', value: 0, min: 0.0, max: 1.0, step: 0.005 },
+    outWhite: { type: 'float', label: 'Output White', value: 1.0, min: 0.0, max: 1.0, step: 0.005 }
+  },
+  getFragmentShader() {
+    return LEVELS_FRAGMENT;
+  },
+  getUniforms(params: Record<string, EffectParam>) {
+    const p = params as Record<string, EffectParam & { value: number }>;
+    return {
+      u_inBlack: p.inBlack.value,
+      u_inWhite: p.inWhite.value,
+      u_gamma: p.gamma.value,
+      u_outBlack: p.outBlack.value,
+      u_outWhite: p.outWhite.value
+    };
+  }
+};
@@ -0,0 +1,213 @@
+import type { EffectAsset, EffectDefinition, EffectParam } from './Effect';
+import { uniformInt, uniformTexture } from './Effect';
+
+const LUT_FRAGMENT = `#version 300 es
+precision highp float;
+precision highp sampler3D;
+in vec2 v_texCoord;
+uniform sampler2D u_texture;
+uniform sampler3D u_lut3d;
+uniform sampler2D u_lut1d;
+uniform int u_kind;
+uniform float u_size;
+uniform vec3 u_domainMin;
+uniform vec3 u_domainMax;
+uniform float u_intensity;
+out vec4 fragColor;
+
+void main() {
+  vec4 src = texture(u_texture, v_texCoord);
+  vec3 x = clamp((src.rgb - u_domainMin) / max(u_domainMax - u_domainMin, vec3(0.00001)), 0.0, 1.0);
+  // Entry centers, so linear (trilinear in 3D) filtering interpolates between entries.
+  vec3 coord = x * ((u_size - 1.0) / u_size) + 0.5 / u_size;
+  vec3 graded = src.rgb;
+  if (u_kind == 2) {
+    graded = texture(u_lut3d, coord).rgb;
+  } else if (u_kind == 1) {
+    graded = vec3(
+      texture(u_lut1d, vec2(coord.r, 0.5)).r,
+      texture(u_lut1d, vec2(coord.g, 0.5)).g,
+      texture(u_lut1d, vec2(coord.b, 0.5)).b
+    );
+  }
+  fragColor = vec4(mix(src.rgb, clamp(graded, 0.0, 1.0), u_intensity), src.a);
+}
+`;
+
+/** A parsed .cube file. `table` is RGBA with red varying fastest, then green, then blue. */
+export interface CubeLut {
+  title: string;
+  kind: '1d' | '3d';
+  /** Entries per axis. */
+  size: number;
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+  table: Float32Array;
+}
+
+const MAX_3D_SIZE = 256;
+const MAX_1D_SIZE = 65536;
+/** 1D tables longer than this are resampled to fit WebGL 2's minimum texture width. */
+const MAX_1D_TEXELS = 2048;
+
+/**
+ * Parses an Adobe / Resolve .cube LUT: `TITLE`, `LUT_1D_SIZE` or
+ * `LUT_3D_SIZE`, `DOMAIN_MIN`/`DOMAIN_MAX` (or Resolve's
+ * `LUT_*_INPUT_RANGE`), `#` comments and one RGB triple per line.
+ */
+export function parseCubeLut(text: string): CubeLut {
+  let title = '';
+  let size1d = 0;
+  let size3d = 0;
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  const values: number[] = [];
+
+  const lines = text.split(/\r?\n/);
+  lines.forEach((raw, index) => {
+    const line = raw.replace(/#.*/, '').trim();
+    if (!line) return;
+    const lineNo = index + 1;
+    const [keyword, ...rest] = line.split(/\s+/);
+    const numbers = (count: number): number[] => {
+      const parsed = rest.map(Number);
+      if (parsed.length !== count || parsed.some((n) => !Number.isFinite(n))) {
+        throw new Error(`Line ${lineNo}: ${keyword} expects ${count} number${count > 1 ? 's' : ''}`);
+      }
+      return parsed;
+    };
+    const integer = (max: number): number => {
+      const [n] = numbers(1);
+      if (!Number.isInteger(n) || n < 2 || n > max) throw new Error(`Line ${lineNo}: ${keyword} must be an integer from 2 to ${max}`);
+      return n;
+    };
+
+    switch (keyword) {
+      case 'TITLE':
+        title = line.slice(keyword.length).trim().replace(/^"(.*)"$/, '$1');
+        return;
+      case 'LUT_1D_SIZE':
+        size1d = integer(MAX_1D_SIZE);
+        return;
+      case 'LUT_3D_SIZE':
+        size3d = integer(MAX_3D_SIZE);
+        return;
+      case 'DOMAIN_MIN':
+        domainMin = numbers(3) as [number, number, number];
+        return;
+      case 'DOMAIN_MAX':
+        domainMax = numbers(3) as [number, number, number];
+        return;
+      case 'LUT_1D_INPUT_RANGE':
+      case 'LUT_3D_INPUT_RANGE': {
+        const [min, max] = numbers(2);
+        domainMin = [min, min, min];
+        domainMax = [max, max, max];
+        return;
+      }
+    }
+    if (!/^[-+.\d]/.test(keyword)) throw new Error(`Line ${lineNo}: unknown keyword ${keyword}`);
+    const triple = line.split(/\s+/).map(Number);
+    if (triple.length !== 3 || triple.some((n) => !Number.isFinite(n))) {
+      throw new Error(`Line ${lineNo}: expected three numbers`);
+    }
+    values.push(...triple);
+  });
+
+  if (size1d && size3d) throw new Error('LUTs with both a 1D shaper and a 3D table are not supported');
+  if (!size1d && !size3d) throw new Error('Missing LUT_1D_SIZE or LUT_3D_SIZE');
+  if (domainMin.some((min, c) => min >= domainMax[c])) throw new Error('DOMAIN_MIN must be below DOMAIN_MAX');
+
+  const kind = size3d ? '3d' : '1d';
+  const size = size3d || size1d;
+  const entries = kind === '3d' ? size ** 3 : size;
+  if (values.length !== entries * 3) {
+    throw new Error(`Expected ${entries} entries for a ${kind.toUpperCase()} size of ${size}, found ${values.length / 3}`);
+  }
+
+  const table = new Float32Array(entries * 4);
+  for (let i = 0; i < entries; i++) {
+    table[i * 4] = values[i * 3];
+    table[i * 4 + 1] = values[i * 3 + 1];
+    table[i * 4 + 2] = values[i * 3 + 2];
+    table[i * 4 + 3] = 1;
+  }
+  return { title, kind, size, domainMin, domainMax, table };
+}
+
+/** Linear resample of an RGBA 1D table to `count` entries, endpoints kept. */
+function resample1d(table: Float32Array, count: number): Float32Array {
+  const size = table.length / 4;
+  const out = new Float32Array(count * 4);
+  for (let i = 0; i < count; i++) {
+    const t = (i / (count - 1)) * (size - 1);
+    const i0 = Math.floor(t);
+    const i1 = Math.min(size - 1, i0 + 1);
+    const f = t - i0;
+    for (let c = 0; c < 4; c++) {
+      out[i * 4 + c] = table[i0 * 4 + c] * (1 - f) + table[i1 * 4 + c] * f;
+    }
+  }
+  return out;
+}
+
+/** Smallest identity tables, bound to whichever sampler the loaded LUT doesn't use. */
+const IDENTITY_1D = new Float32Array([0, 0, 0, 1, 1, 1, 1, 1]);
+const IDENTITY_3D = new Float32Array([
+  0, 0, 0, 1, 1, 0, 0, 1, 0, 1, 0, 1, 1, 1, 0, 1,
+  0, 0, 1, 1, 1, 0, 1, 1, 0, 1, 1, 1, 1, 1, 1, 1
+]);
+
+/**
+ * Parsed LUTs by asset id, so re-renders reuse one table (and the renderer
+ * skips re-uploading it). Bounded; least recently used goes first.
+ */
+const parsed = new Map<string, CubeLut | null>();
+const PARSED_LIMIT = 8;
+
+function lutForAsset(asset: EffectAsset): CubeLut | null {
+  let lut = parsed.get(asset.id);
+  if (lut === undefined) {
+    try {
+      lut = parseCubeLut(asset.data);
+      if (lut.kind === '1d' && lut.size > MAX_1D_TEXELS) {
+        lut = { ...lut, size: MAX_1D_TEXELS, table: resample1d(lut.table, MAX_1D_TEXELS) };
+      }
+    } catch {
+      // Imports are validated; this only guards hand-edited project files.
+      lut = null;
+    }
+  }
+  parsed.delete(asset.id);
+  parsed.set(asset.id, lut);
+  if (parsed.size > PARSED_LIMIT) parsed.delete(parsed.keys().next().value!);
+  return lut;
+}
+
+export const lut: EffectDefinition = {
+  id: 'lut',
+  name: 'LUT (.cube)',
+  params: {
+    file: { type: 'file', label: 'LUT File', accept: '.cube', value: null },
+    intensity: { type: 'float', label: 'Intensity', value: 1.0, min: 0.0, max: 1.0, step: 0.01 }
+  },
+  getFragmentShader() {
+    return LUT_FRAGMENT;
+  },
+  getUniforms(params: Record<string, EffectParam>) {
+    const asset = (params.file as EffectParam & { value: EffectAsset | null }).value;
+    const cube = asset ? lutForAsset(asset) : null;
+    return {
+      u_lut3d: cube?.kind === '3d' ? uniformTexture(cube.table, cube.size, cube.size, cube.size) : uniformTexture(IDENTITY_3D, 2, 2, 2),
+      u_lut1d: cube?.kind === '1d' ? uniformTexture(cube.table, cube.size, 1) : uniformTexture(IDENTITY_1D, 2, 1),
+      u_kind: uniformInt(cube ? (cube.kind === '3d' ? 2 : 1) : 0),
+      u_size: cube?.size ?? 2,
+      u_domainMin: cube?.domainMin ?? [0, 0, 0],
+      u_domainMax: cube?.domainMax ?? [1, 1, 1],
+      u_intensity: (params.intensity as EffectParam & { value: number }).value
+    };
+  },
+  validateAsset(_key: string, asset: EffectAsset) {
+    parseCubeLut(asset.data);
+  }
+};
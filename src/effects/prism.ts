@@ -0,0 +1,50 @@
+import type { EffectDefinition, EffectParam } from './Effect';
+
+const PRISM_FRAGMENT = `#version 300 es
+precision highp float;
+in vec2 v_texCoord;
+uniform sampler2D u_texture;
+uniform vec2 u_resolution;
+uniform float u_shift;
+uniform float u_mix;
+uniform float u_threshold;
+out vec4 fragColor;
+
+void main() {
+  vec4 src = texture(u_texture, v_texCoord);
+  vec2 px = vec2(1.0 / max(1.0, u_resolution.x), 1.0 / max(1.0, u_resolution.y));
+
+  // Whole-pixel shifts; texture rows run bottom-up, so image-space (+d, +d) is (+d, -d) here.
+  float d = floor(u_shift + 0.5);
+  float r = texture(u_texture, clamp(v_texCoord + vec2(-d, d) * px, 0.0, 1.0)).r;
+  float b = texture(u_texture, clamp(v_texCoord + vec2(d, -d) * px, 0.0, 1.0)).b;
+  vec3 split = vec3(r, src.g, b);
+
+  float y = dot(src.rgb, vec3(0.2126, 0.7152, 0.0722));
+  float mask = clamp((y - u_threshold) / max(0.00001, 1.0 - u_threshold), 0.0, 1.0);
+  float w = u_mix * (0.2 + 0.8 * mask);
+
+  fragColor = vec4(clamp(src.rgb * (1.0 - w) + split * w, 0.0, 1.0), src.a);
+}
+`;
+
+export const prism: EffectDefinition = {
+  id: 'prism',
+  name: 'Prism Split',
+  params: {
+    shift: { type: 'int', label: 'Shift (px)', value: 3, min: 0, max: 40, step: 1, pixels: true },
+    mix: { type: 'float', label: 'Mix', value: 0.6, min: 0.0, max: 1.0, step: 0.01 },
+    threshold: { type: 'float', label: 'Threshold', value: 0.6, min: 0.0, max: 1.0, step: 0.01 }
+  },
+  getFragmentShader() {
+    return PRISM_FRAGMENT;
+  },
+  getUniforms(params: Record<string, EffectParam>) {
+    const p = params as Record<string, EffectParam & { value: number }>;
+    return {
+      u_shift: p.shift.value,
+      u_mix: p.mix.value,
+      u_threshold: p.threshold.value
+    };
+  }
+};
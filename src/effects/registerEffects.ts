@@ -1,11 +1,18 @@
 import { effectRegistry } from './EffectRegistry';
 import { gaussianBlur } from './blur';
 import { bloom } from './bloom';
+import { softnessDiffusion } from './softness';
+import { haze } from './haze';
 import { vignette } from './vignette';
 import { colorGrading } from './colorGrading';
+import { tone } from './tone';
+import { curves } from './curves';
+import { levels } from './levels';
+import { lut } from './lut';
 import { halation } from './halation';
 import { iridescence } from './iridescence';
 import { chromaticAberration } from './chromaticAberration';
+import { prism } from './prism';
 import { grain } from './grain';
 
 export function registerAllEffects(): void {
@@ -13,8 +20,15 @@ export function registerAllEffects(): void {
   effectRegistry.register(bloom);
   effectRegistry.register(vignette);
   effectRegistry.register(colorGrading);
+  effectRegistry.register(tone);
+  effectRegistry.register(curves);
+  effectRegistry.register(levels);
+  effectRegistry.register(lut);
   effectRegistry.register(halation);
+  effectRegistry.register(softnessDiffusion);
+  effectRegistry.register(haze);
   effectRegistry.register(iridescence);
   effectRegistry.register(chromaticAberration);
+  effectRegistry.register(prism);
   effectRegistry.register(grain);
 }
@@ -0,0 +1,96 @@
+import type { EffectDefinition, EffectParam, PassConfig } from './Effect';
+
+const SOFTNESS_BLUR_H_FRAGMENT = `#version 300 es
+precision highp float;
+in vec2 v_texCoord;
+uniform sampler2D u_texture;
+uniform vec2 u_resolution;
+uniform float u_radius;
+out vec4 fragColor;
+
+void main() {
+  float sigma = max(0.001, u_radius);
+  int radius = int(ceil(sigma * 3.0));
+  vec4 acc = vec4(0.0);
+  float total = 0.0;
+  for (int i = -radius; i <= radius; i++) {
+    float x = float(i);
+    float w = exp(-(x * x) / (2.0 * sigma * sigma));
+    acc += texture(u_texture, v_texCoord + vec2(x / u_resolution.x, 0.0)) * w;
+    total += w;
+  }
+  fragColor = acc / total;
+}
+`;
+
+const SOFTNESS_BLUR_V_FRAGMENT = `#version 300 es
+precision highp float;
+in vec2 v_texCoord;
+uniform sampler2D u_texture;
+uniform vec2 u_resolution;
+uniform float u_radius;
+out vec4 fragColor;
+
+void main() {
+  float sigma = max(0.001, u_radius);
+  int radius = int(ceil(sigma * 3.0));
+  vec4 acc = vec4(0.0);
+  float total = 0.0;
+  for (int i = -radius; i <= radius; i++) {
+    float y = float(i);
+    float w = exp(-(y * y) / (2.0 * sigma * sigma));
+    acc += texture(u_texture, v_texCoord + vec2(0.0, y / u_resolution.y)) * w;
+    total += w;
+  }
+  fragColor = acc / total;
+}
+`;
+
+const SOFTNESS_COMPOSITE_FRAGMENT = `#version 300 es
+precision highp float;
+in vec2 v_texCoord;
+uniform sampler2D u_texture;
+uniform sampler2D u_original;
+uniform float u_mix;
+out vec4 fragColor;
+
+void main() {
+  vec4 blurred = texture(u_texture, v_texCoord);
+  vec4 original = texture(u_original, v_texCoord);
+  fragColor = vec4(mix(original.rgb, blurred.rgb, clamp(u_mix, 0.0, 1.0)), original.a);
+}
+`;
+
+export const softnessDiffusion: EffectDefinition = {
+  id: 'softness-diffusion',
+  name: 'Softness Diffusion',
+  params: {
+    radius: { type: 'float', label: 'Blur Radius', value: 6.0, min: 0.0, max: 40.0, step: 0.1, pixels: true },
+    mix: { type: 'float', label: 'Mix', value: 0.35, min: 0.0, max: 1.0, step: 0.01 }
+  },
+  passes: 3,
+  getFragmentShader() {
+    return SOFTNESS_BLUR_H_FRAGMENT;
+  },
+  getUniforms(params: Record<string, EffectParam>) {
+    const p = params as Record<string, EffectParam & { value: number }>;
+    return {
+      u_radius: p.radius.value,
+      u_mix: p.mix.value
+    };
+  },
+  getPassConfig(pass: number, params: Record<string, EffectParam>): PassConfig {
+    const p = params as Record<string, EffectParam & { value: number }>;
+    if (pass === 0) {
+      return { fragmentShader: SOFTNESS_BLUR_H_FRAGMENT, uniforms: { u_radius: p.radius.value } };
+    }
+    if (pass === 1) {
+      return { fragmentShader: SOFTNESS_BLUR_V_FRAGMENT, uniforms: { u_radius: p.radius.value } };
+    }
+    return {
+      fragmentShader: SOFTNESS_COMPOSITE_FRAGMENT,
+      uniforms: { u_mix: p.mix.value },
+      bindOriginal: true
+    };
+  }
+};
@@ -0,0 +1,111 @@
+import type { EffectDefinition, EffectParam } from './Effect';
+
+const TONE_FRAGMENT = `#version 300 es
+precision highp float;
+in vec2 v_texCoord;
+uniform sampler2D u_texture;
+uniform float u_temperature;
+uniform float u_tint;
+uniform float u_saturation;
+uniform float u_vibrance;
+uniform float u_highlightRolloff;
+uniform float u_brightness;
+uniform float u_contrast;
+uniform float u_fade;
+out vec4 fragColor;
+
+// HSV per PLAN §13: hue in [0, 1), achromatic pixels get hue 0.
+vec3 rgb2hsv(vec3 c) {
+  float maxc = max(c.r, max(c.g, c.b));
+  float minc = min(c.r, min(c.g, c.b));
+  float delta = maxc - minc;
+  float h = 0.0;
+  if (delta > 0.0) {
+    if (maxc == c.r) h = (c.g - c.b) / delta;
+    else if (maxc == c.g) h = 2.0 + (c.b - c.r) / delta;
+    else h = 4.0 + (c.r - c.g) / delta;
+    h = fract(h / 6.0);
+  }
+  float s = maxc > 0.0 ? delta / maxc : 0.0;
+  return vec3(h, s, maxc);
+}
+
+vec3 hsv2rgb(vec3 c) {
+  float h = c.x, s = c.y, v = c.z;
+  if (s <= 0.0) return vec3(v);
+  float h6 = fract(h) * 6.0;
+  float i = floor(h6);
+  float f = h6 - i;
+  float p = v * (1.0 - s);
+  float q = v * (1.0 - s * f);
+  float t = v * (1.0 - s * (1.0 - f));
+  int k = int(i) % 6;
+  if (k == 0) return vec3(v, t, p);
+  if (k == 1) return vec3(q, v, p);
+  if (k == 2) return vec3(p, v, t);
+  if (k == 3) return vec3(p, q, v);
+  if (k == 4) return vec3(t, p, v);
+  return vec3(v, p, q);
+}
+
+void main() {
+  vec4 src = texture(u_texture, v_texCoord);
+
+  // 9.1 Channel gains
+  float t = clamp(u_temperature, -1.0, 1.0);
+  float m = clamp(u_tint, -1.0, 1.0);
+  vec3 gains = vec3(1.0 + 0.18 * t + 0.05 * m, 1.0 - 0.08 * abs(t) - 0.10 * m, 1.0 - 0.18 * t + 0.05 * m);
+  vec3 color = clamp(src.rgb * gains, 0.0, 1.0);
+
+  // 9.2 Saturation + vibrance
+  vec3 hsv = rgb2hsv(color);
+  float s = clamp(hsv.y * u_saturation, 0.0, 1.0);
+  float vb = u_vibrance - 1.0;
+  s = vb >= 0.0 ? clamp(s + (1.0 - s) * 0.75 * vb, 0.0, 1.0) : clamp(s * (1.0 + 0.65 * vb), 0.0, 1.0);
+  color = hsv2rgb(vec3(hsv.x, s, hsv.z));
+
+  // 9.3 Highlight rolloff
+  if (u_highlightRolloff > 0.0) {
+    vec3 rolled = 0.72 + (color - 0.72) / (1.0 + 2.4 * u_highlightRolloff);
+    color = mix(color, rolled, vec3(greaterThan(color, vec3(0.72))));
+  }
+
+  // 9.4 Global exposure/contrast/fade
+  color = clamp(color * u_brightness, 0.0, 1.0);
+  color = clamp((color - 0.5) * u_contrast + 0.5, 0.0, 1.0);
+  color = clamp(color * (1.0 - u_fade) + 0.08 * u_fade, 0.0, 1.0);
+
+  fragColor = vec4(color, src.a);
+}
+`;
+
+export const tone: EffectDefinition = {
+  id: 'tone',
+  name: 'Tone',
+  params: {
+    temperature: { type: 'float', label: 'Temperature', value: 0, min: -1.0, max: 1.0, step: 0.01 },
+    tint: { type: 'float', label: 'Tint', value: 0, min: -1.0, max: 1.0, step: 0.01 },
+    saturation: { type: 'float', label: 'Saturation', value: 1.0, min: 0.0, max: 2.0, step: 0.01 },
+    vibrance: { type: 'float', label: 'Vibrance', value: 1.0, min: 0.0, max: 2.0, step: 0.01 },
+    highlightRolloff: { type: 'float', label: 'Highlight Rolloff', value: 0, min: 0.0, max: 1.0, step: 0.01 },
+    brightness: { type: 'float', label: 'Brightness', value: 1.0, min: 0.0, max: 2.0, step: 0.01 },
+    contrast: { type: 'float', label: 'Contrast', value: 1.0, min: 0.0, max: 2.0, step: 0.01 },
+    fade: { type: 'float', label: 'Fade', value: 0, min: 0.0, max: 1.0, step: 0.01 }
+  },
+  getFragmentShader() {
+    return TONE_FRAGMENT;
+  },
+  getUniforms(params: Record<string, EffectParam>) {
+    const p = params as Record<string, EffectParam & { value: number }>;
+    return {
+      u_temperature: p.temperature.value,
+      u_tint: p.tint.value,
+      u_saturation: p.saturation.value,
+      u_vibrance: p.vibrance.value,
+      u_highlightRolloff: p.highlightRolloff.value,
+      u_brightness: p.brightness.value,
+      u_contrast: p.contrast.value,
+      u_fade: p.fade.value
+    };
+  }
+};
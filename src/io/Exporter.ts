@@ -0,0 +1,127 @@
+import type { DocumentModel } from '../model/Document';
+import { applyAnimation, frameCount, frameTime, timeFrame } from '../model/Animation';
+import { Compositor } from '../renderer/Compositor';
+import { GifEncoder } from './GifEncoder';
+import { encodeAnimatedWebp } from './WebpAnimation';
+import { createZip } from './ZipWriter';
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp' | 'gif' | 'webp-animated' | 'png-sequence';
+
+/** Formats that render every frame of the document's timeline. */
+export const ANIMATED_FORMATS: ExportFormat[] = ['gif', 'webp-animated', 'png-sequence'];
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** Encoder quality in [0, 1]; ignored for PNG. */
+  quality: number;
+  /** Output pixels per document unit (1 = document size). */
+  scale: number;
+}
+
+export const EXPORT_MIME: Record<ExportFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  'webp-animated': 'image/webp',
+  'png-sequence': 'application/zip'
+};
+
+export const EXPORT_EXTENSION: Record<ExportFormat, string> = {
+  png: 'png',
+  jpeg: 'jpg',
+  webp: 'webp',
+  gif: 'gif',
+  'webp-animated': 'webp',
+  'png-sequence': 'zip'
+};
+
+export class Exporter {
+  // A dedicated compositor so effects are re-run at export resolution and
+  // never served from the preview's effect cache.
+  private readonly compositor = new Compositor();
+
+  /** `frame` seeds per-frame effects such as animated grain. */
+  render(doc: DocumentModel, scale: number, background?: string, frame = 0): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(doc.width * scale));
+    canvas.height = Math.max(1, Math.round(doc.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas context unavailable');
+
+    this.compositor.draw(ctx, doc, { scale, frame });
+    this.compositor.invalidateEffectCache();
+
+    if (!background) return canvas;
+
+    // Formats without alpha are flattened over a solid background.
+    const flattened = document.createElement('canvas');
+    flattened.width = canvas.width;
+    flattened.height = canvas.height;
+    const flatCtx = flattened.getContext('2d')!;
+    flatCtx.fillStyle = background;
+    flatCtx.fillRect(0, 0, flattened.width, flattened.height);
+    flatCtx.drawImage(canvas, 0, 0);
+    return flattened;
+  }
+
+  /** Stills render the document as it stands at `time`; animated formats render the whole timeline. */
+  async export(doc: DocumentModel, options: ExportOptions, time = 0): Promise<Blob> {
+    if (ANIMATED_FORMATS.includes(options.format)) return this.exportAnimation(doc, options);
+    const frame = timeFrame(doc.animation, time);
+    const canvas = this.render(doc, options.scale, options.format === 'jpeg' ? '#ffffff' : undefined, frame);
+    return canvasToBlob(canvas, EXPORT_MIME[options.format], options.quality);
+  }
+
+  /**
+   * Renders frame by frame from a copy of the document, so the result depends
+   * only on the keyframes and the live document is never left mid-animation
+   * while frames encode.
+   */
+  private async exportAnimation(doc: DocumentModel, options: ExportOptions): Promise<Blob> {
+    const { animation } = doc;
+    const copy = doc.clone();
+    const width = Math.max(1, Math.round(doc.width * options.scale));
+    const height = Math.max(1, Math.round(doc.height * options.scale));
+    const gif = options.format === 'gif' ? new GifEncoder(width, height, Math.round(100 / animation.fps)) : null;
+    const frames: Uint8Array<ArrayBuffer>[] = [];
+
+    for (let frame = 0; frame < frameCount(animation); frame++) {
+      applyAnimation(copy.layers, frameTime(animation, frame));
+      copy.syncGroupBounds();
+      const canvas = this.render(copy, options.scale, undefined, frame);
+      if (gif) {
+        gif.addFrame(canvas.getContext('2d')!.getImageData(0, 0, width, height).data);
+      } else {
+        const type = options.format === 'png-sequence' ? 'image/png' : 'image/webp';
+        const blob = await canvasToBlob(canvas, type, options.quality);
+        frames.push(new Uint8Array(await blob.arrayBuffer()));
+      }
+    }
+
+    if (gif) return new Blob([gif.finish()], { type: EXPORT_MIME.gif });
+    if (options.format === 'webp-animated') {
+      return new Blob([encodeAnimatedWebp(frames, width, height, 1000 / animation.fps)], { type: EXPORT_MIME.webp });
+    }
+    const digits = Math.max(4, `${frames.length}`.length);
+    return createZip(frames.map((data, index) => ({ name: `frame-${`${index + 1}`.padStart(digits, '0')}.png`, data })));
+  }
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) resolve(blob);
+      else reject(new Error(`Failed to encode ${type}`));
+    }, type, quality);
+  });
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,209 @@
+/** Histogram bins hold colours at 5 bits per channel. */
+const BIN_BITS = 5;
+const BIN_SHIFT = 8 - BIN_BITS;
+const BIN_COUNT = 1 << (BIN_BITS * 3);
+/** Pixels with less alpha than this become the transparent index. */
+const ALPHA_THRESHOLD = 128;
+const MAX_COLORS = 255;
+const MAX_CODE = 4096;
+
+interface ColorBox {
+  bins: number[];
+  count: number;
+}
+
+/**
+ * Animated GIF89a writer. Every frame gets its own median-cut palette of up
+ * to 255 colours plus a transparent index, loops forever and is disposed to
+ * the background so transparent areas never show earlier frames.
+ */
+export class GifEncoder {
+  private readonly bytes: number[] = [];
+
+  /** `delay` is in hundredths of a second, as GIF stores it. */
+  constructor(private readonly width: number, private readonly height: number, private readonly delay: number) {
+    this.writeString('GIF89a');
+    this.writeShort(width);
+    this.writeShort(height);
+    this.bytes.push(0, 0, 0);
+    // NETSCAPE2.0 application extension: loop forever.
+    this.bytes.push(0x21, 0xff, 0x0b);
+    this.writeString('NETSCAPE2.0');
+    this.bytes.push(0x03, 0x01, 0x00, 0x00, 0x00);
+  }
+
+  /** Adds one frame from RGBA pixels of the encoder's size. */
+  addFrame(rgba: Uint8ClampedArray): void {
+    const { palette, indices, transparent } = quantize(rgba);
+    const tableBits = Math.max(1, Math.ceil(Math.log2(palette.length / 3 + (transparent >= 0 ? 1 : 0))));
+
+    this.bytes.push(0x21, 0xf9, 0x04, (2 << 2) | (transparent >= 0 ? 1 : 0));
+    this.writeShort(this.delay);
+    this.bytes.push(Math.max(0, transparent), 0x00);
+
+    this.bytes.push(0x2c);
+    this.writeShort(0);
+    this.writeShort(0);
+    this.writeShort(this.width);
+    this.writeShort(this.height);
+    this.bytes.push(0x80 | (tableBits - 1));
+    for (let i = 0; i < 3 << tableBits; i++) this.bytes.push(palette[i] ?? 0);
+
+    const minCodeSize = Math.max(2, tableBits);
+    this.bytes.push(minCodeSize);
+    const data = lzw(indices, minCodeSize);
+    for (let offset = 0; offset < data.length; offset += 255) {
+      const block = data.subarray(offset, offset + 255);
+      this.bytes.push(block.length, ...block);
+    }
+    this.bytes.push(0x00);
+  }
+
+  finish(): Uint8Array<ArrayBuffer> {
+    this.bytes.push(0x3b);
+    return Uint8Array.from(this.bytes);
+  }
+
+  private writeShort(value: number): void {
+    this.bytes.push(value & 0xff, (value >> 8) & 0xff);
+  }
+
+  private writeString(text: string): void {
+    for (let i = 0; i < text.length; i++) this.bytes.push(text.charCodeAt(i));
+  }
+}
+
+function binOf(rgba: Uint8ClampedArray, offset: number): number {
+  return ((rgba[offset] >> BIN_SHIFT) << (BIN_BITS * 2)) | ((rgba[offset + 1] >> BIN_SHIFT) << BIN_BITS) | (rgba[offset + 2] >> BIN_SHIFT);
+}
+
+function binChannel(bin: number, channel: number): number {
+  return (bin >> (BIN_BITS * (2 - channel))) & ((1 << BIN_BITS) - 1);
+}
+
+/** Median cut over a 15-bit histogram; every bin maps to the palette entry of its box. */
+function quantize(rgba: Uint8ClampedArray): { palette: number[]; indices: Uint8Array; transparent: number } {
+  const pixelCount = rgba.length / 4;
+  const histogram = new Uint32Array(BIN_COUNT);
+  let hasTransparency = false;
+  for (let i = 0; i < pixelCount; i++) {
+    if (rgba[i * 4 + 3] < ALPHA_THRESHOLD) hasTransparency = true;
+    else histogram[binOf(rgba, i * 4)]++;
+  }
+
+  const used: number[] = [];
+  let total = 0;
+  for (let bin = 0; bin < BIN_COUNT; bin++) {
+    if (histogram[bin] === 0) continue;
+    used.push(bin);
+    total += histogram[bin];
+  }
+
+  const boxes: ColorBox[] = used.length > 0 ? [{ bins: used, count: total }] : [];
+  while (boxes.length < MAX_COLORS) {
+    let target = -1;
+    let targetScore = 0;
+    let targetChannel = 0;
+    boxes.forEach((box, index) => {
+      if (box.bins.length < 2) return;
+      for (let channel = 0; channel < 3; channel++) {
+        let min = Infinity;
+        let max = -Infinity;
+        for (const bin of box.bins) {
+          const value = binChannel(bin, channel);
+          if (value < min) min = value;
+          if (value > max) max = value;
+        }
+        const score = (max - min) * box.count;
+        if (score > targetScore) {
+          target = index;
+          targetScore = score;
+          targetChannel = channel;
+        }
+      }
+    });
+    if (target < 0) break;
+
+    const box = boxes[target];
+    box.bins.sort((a, b) => binChannel(a, targetChannel) - binChannel(b, targetChannel));
+    let seen = 0;
+    let split = 1;
+    for (; split < box.bins.length - 1; split++) {
+      seen += histogram[box.bins[split - 1]];
+      if (seen >= box.count / 2) break;
+    }
+    const low = box.bins.slice(0, split);
+    const high = box.bins.slice(split);
+    const lowCount = low.reduce((sum, bin) => sum + histogram[bin], 0);
+    boxes.splice(target, 1, { bins: low, count: lowCount }, { bins: high, count: box.count - lowCount });
+  }
+
+  const palette: number[] = [];
+  const lookup = new Int16Array(BIN_COUNT).fill(-1);
+  boxes.forEach((box, index) => {
+    const sums = [0, 0, 0];
+    for (const bin of box.bins) {
+      for (let channel = 0; channel < 3; channel++) sums[channel] += binChannel(bin, channel) * histogram[bin];
+    }
+    for (let channel = 0; channel < 3; channel++) {
+      palette.push(Math.min(255, Math.round((sums[channel] / box.count + 0.5) * (1 << BIN_SHIFT))));
+    }
+    for (const bin of box.bins) lookup[bin] = index;
+  });
+
+  const transparent = hasTransparency ? boxes.length : -1;
+  const indices = new Uint8Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    indices[i] = rgba[i * 4 + 3] < ALPHA_THRESHOLD ? transparent : lookup[binOf(rgba, i * 4)];
+  }
+  return { palette, indices, transparent };
+}
+
+/** Variable-width LZW as GIF expects it, starting with a clear code. */
+function lzw(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const out: number[] = [];
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+  let buffer = 0;
+  let bufferBits = 0;
+
+  const emit = (code: number) => {
+    buffer |= code << bufferBits;
+    bufferBits += codeSize;
+    while (bufferBits >= 8) {
+      out.push(buffer & 0xff);
+      buffer >>>= 8;
+      bufferBits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i];
+    const key = (prefix << 8) | index;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === MAX_CODE) {
+      emit(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = index;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bufferBits > 0) out.push(buffer & 0xff);
+  return Uint8Array.from(out);
+}
@@ -0,0 +1,284 @@
+import type { CurveValue, EffectLuminanceMask, EffectParam, LayerEffect } from '../effects/Effect';
+import { createEffectAsset, createLayerEffect } from '../effects/Effect';
+import { effectRegistry } from '../effects/EffectRegistry';
+import { cloneLayerEffects } from '../effects/EffectStack';
+import { GPU_BLEND_MODES } from '../model/BlendModes';
+import type { BlendMode } from '../model/Layer';
+import { DRIVER_LIMITS, DRIVER_WAVES, cloneDrivers, isAnimatableParam } from '../model/Animation';
+import type { DriverWave, ParamDriver } from '../model/Animation';
+
+export const PRESET_FORMAT = 'flyermaker-effect-presets';
+export const PRESET_VERSION = 1;
+
+/** A named effect stack that can be applied to any layer. */
+export interface EffectPreset {
+  id: string;
+  name: string;
+  effects: LayerEffect[];
+}
+
+/**
+ * Shareable form of a preset effect: param values only. Ranges, labels and
+ * defaults for missing params come from the registry when it is loaded.
+ * Painted masks belong to one layer's pixels and keyframes to one
+ * document's timeline, so neither is kept; param drivers are timeless and
+ * travel. A missing `mix`, `blendMode`, `mask` or `drivers` means full,
+ * normal, unmasked and undriven.
+ */
+interface PresetEffectJson {
+  definitionId: string;
+  enabled: boolean;
+  params: Record<string, unknown>;
+  mix?: number;
+  blendMode?: BlendMode;
+  mask?: EffectLuminanceMask | null;
+  drivers?: Record<string, ParamDriver>;
+}
+
+/** Also the IndexedDB record, so stored presets go through the same checks as imports. */
+export interface PresetJson {
+  id: string;
+  name: string;
+  effects: PresetEffectJson[];
+}
+
+interface PresetFileJson {
+  format: typeof PRESET_FORMAT;
+  version: number;
+  presets: PresetJson[];
+}
+
+/**
+ * Snapshot of `effects` under `name`. Placeholders for unregistered effects
+ * are left out: they render nothing and would fail validation on load.
+ * Painted masks and keyframes are dropped, as they would be on export.
+ */
+export function createPreset(name: string, effects: LayerEffect[], id: string = crypto.randomUUID()): EffectPreset {
+  const kept = cloneLayerEffects(effects.filter((effect) => effectRegistry.get(effect.definitionId)));
+  for (const effect of kept) {
+    if (effect.mask?.type === 'raster') effect.mask = null;
+    effect.keyframes = {};
+  }
+  return { id, name, effects: kept };
+}
+
+export function presetToJson(preset: EffectPreset): PresetJson {
+  return {
+    id: preset.id,
+    name: preset.name,
+    effects: preset.effects.map((effect) => ({
+      definitionId: effect.definitionId,
+      enabled: effect.enabled,
+      mix: effect.mix,
+      blendMode: effect.blendMode,
+      mask: effect.mask?.type === 'luminance' ? { ...effect.mask } : null,
+      drivers: cloneDrivers(effect.drivers),
+      params: Object.fromEntries(Object.entries(effect.params).map(([key, param]) => [
+        key,
+        // Asset ids are recomputed on load; only the file travels.
+        param.type === 'file' && param.value ? { name: param.value.name, data: param.value.data } : param.value
+      ]))
+    }))
+  };
+}
+
+export function serializePresets(presets: EffectPreset[]): string {
+  const file: PresetFileJson = { format: PRESET_FORMAT, version: PRESET_VERSION, presets: presets.map(presetToJson) };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Parses an exported preset file. Every preset is checked against the
+ * registry; all problems are reported together, one per line.
+ */
+export function parsePresetFile(text: string): EffectPreset[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Preset file is not valid JSON');
+  }
+  if (!isRecord(raw) || raw.format !== PRESET_FORMAT) throw new Error('Not a FlyerMaker preset file');
+  if (typeof raw.version !== 'number') throw new Error('Preset file has no schema version');
+  if (raw.version > PRESET_VERSION) {
+    throw new Error(`Presets were saved by a newer FlyerMaker (schema v${raw.version}, supported v${PRESET_VERSION})`);
+  }
+  if (!Array.isArray(raw.presets)) throw new Error('Preset file has no presets list');
+
+  const errors: string[] = [];
+  const presets = raw.presets.map((entry, index) => restorePreset(entry, `Preset ${index + 1}`, errors));
+  if (errors.length > 0) throw new Error(errors.join('\n'));
+  return presets as EffectPreset[];
+}
+
+/**
+ * Rebuilds a preset from its JSON form against the current registry.
+ * Problems are appended to `errors` (prefixed with `where`, refined to the
+ * preset's name once known); returns null if there were any.
+ */
+export function restorePreset(raw: unknown, where: string, errors: string[]): EffectPreset | null {
+  const before = errors.length;
+  if (!isRecord(raw)) {
+    errors.push(`${where}: expected an object`);
+    return null;
+  }
+  if (typeof raw.name !== 'string' || !raw.name.trim()) {
+    errors.push(`${where}: missing a name`);
+    return null;
+  }
+  const label = `Preset "${raw.name}"`;
+  if (!Array.isArray(raw.effects)) {
+    errors.push(`${label}: missing its effects list`);
+    return null;
+  }
+  const effects = raw.effects.map((entry, index) => restoreEffect(entry, `${label}, effect ${index + 1}`, errors));
+  if (errors.length > before) return null;
+  const id = typeof raw.id === 'string' && raw.id ? raw.id : crypto.randomUUID();
+  return { id, name: raw.name, effects: effects as LayerEffect[] };
+}
+
+function restoreEffect(raw: unknown, where: string, errors: string[]): LayerEffect | null {
+  if (!isRecord(raw) || typeof raw.definitionId !== 'string') {
+    errors.push(`${where}: missing a definitionId`);
+    return null;
+  }
+  const definition = effectRegistry.get(raw.definitionId);
+  if (!definition) {
+    errors.push(`${where}: unknown effect "${raw.definitionId}"`);
+    return null;
+  }
+  const label = `${where} (${definition.name})`;
+  const effect = createLayerEffect(definition);
+  if (raw.enabled !== undefined && typeof raw.enabled !== 'boolean') errors.push(`${label}: "enabled" must be true or false`);
+  effect.enabled = raw.enabled !== false;
+  if (raw.mix !== undefined) {
+    if (typeof raw.mix !== 'number' || !(raw.mix >= 0 && raw.mix <= 1)) errors.push(`${label}: "mix" must be a number from 0 to 1`);
+    else effect.mix = raw.mix;
+  }
+  if (raw.blendMode !== undefined) {
+    if (!GPU_BLEND_MODES.includes(raw.blendMode as BlendMode)) errors.push(`${label}: unknown blend mode ${describe(raw.blendMode)}`);
+    else effect.blendMode = raw.blendMode as BlendMode;
+  }
+  if (raw.mask !== undefined && raw.mask !== null) {
+    const mask = restoreLuminanceMask(raw.mask);
+    if (!mask) errors.push(`${label}: "mask" must be a luminance mask with min, max and feather from 0 to 1`);
+    effect.mask = mask;
+  }
+  if (raw.params !== undefined && !isRecord(raw.params)) {
+    errors.push(`${label}: "params" must be an object`);
+    return null;
+  }
+  for (const [key, value] of Object.entries(raw.params ?? {})) {
+    const param = effect.params[key];
+    if (!param) {
+      errors.push(`${label}: unknown param "${key}"`);
+      continue;
+    }
+    const problem = assignParamValue(param, value);
+    if (problem) {
+      errors.push(`${label}, ${param.label}: ${problem}`);
+      continue;
+    }
+    if (param.type === 'file' && param.value) {
+      try {
+        definition.validateAsset?.(key, param.value);
+      } catch (error) {
+        errors.push(`${label}, ${param.label}: ${error instanceof Error ? error.message : 'invalid file'}`);
+      }
+    }
+  }
+  if (raw.drivers !== undefined) {
+    if (!isRecord(raw.drivers)) errors.push(`${label}: "drivers" must be an object`);
+    for (const [key, value] of Object.entries(isRecord(raw.drivers) ? raw.drivers : {})) {
+      const param = effect.params[key];
+      if (!param || !isAnimatableParam(param)) {
+        errors.push(`${label}: drivers only apply to number params, not "${key}"`);
+        continue;
+      }
+      const driver = restoreDriver(value);
+      if (!driver) errors.push(`${label}, ${param.label}: driver needs a wave of ${DRIVER_WAVES.join(', ')} and rate, amount and phase in range`);
+      else effect.drivers[key] = driver;
+    }
+  }
+  return effect;
+}
+
+function restoreDriver(raw: unknown): ParamDriver | null {
+  if (!isRecord(raw) || !DRIVER_WAVES.includes(raw.wave as DriverWave)) return null;
+  for (const [key, { min, max }] of Object.entries(DRIVER_LIMITS)) {
+    const value = raw[key];
+    if (typeof value !== 'number' || !(value >= min && value <= max)) return null;
+  }
+  return { wave: raw.wave as DriverWave, rate: raw.rate as number, amount: raw.amount as number, phase: raw.phase as number };
+}
+
+function restoreLuminanceMask(raw: unknown): EffectLuminanceMask | null {
+  if (!isRecord(raw) || raw.type !== 'luminance') return null;
+  const unit = (value: unknown): value is number => typeof value === 'number' && value >= 0 && value <= 1;
+  if (!unit(raw.min) || !unit(raw.max) || !unit(raw.feather)) return null;
+  if (typeof raw.enabled !== 'boolean' || typeof raw.inverted !== 'boolean') return null;
+  return { type: 'luminance', enabled: raw.enabled, inverted: raw.inverted, min: raw.min, max: raw.max, feather: raw.feather };
+}
+
+/** Checks `value` against the param's type and range and stores it; returns the problem otherwise. */
+function assignParamValue(param: EffectParam, value: unknown): string | null {
+  switch (param.type) {
+    case 'float':
+    case 'int':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return `expected a number, got ${describe(value)}`;
+      if (param.type === 'int' && !Number.isInteger(value)) return `expected a whole number, got ${value}`;
+      if (value < param.min || value > param.max) return `${value} is outside the range ${param.min} to ${param.max}`;
+      param.value = value;
+      return null;
+    case 'color':
+      if (!Array.isArray(value) || value.length !== 3 || !value.every((c) => typeof c === 'number' && c >= 0 && c <= 1)) {
+        return 'expected three channel values from 0 to 1';
+      }
+      param.value = [value[0], value[1], value[2]];
+      return null;
+    case 'boolean':
+      if (typeof value !== 'boolean') return `expected true or false, got ${describe(value)}`;
+      param.value = value;
+      return null;
+    case 'select':
+      if (typeof value !== 'string' || !param.options.includes(value)) {
+        return `expected one of ${param.options.map((option) => `"${option}"`).join(', ')}, got ${describe(value)}`;
+      }
+      param.value = value;
+      return null;
+    case 'curve': {
+      if (!isRecord(value)) return 'expected master, red, green and blue point lists';
+      const curve = {} as CurveValue;
+      for (const channel of ['master', 'red', 'green', 'blue'] as const) {
+        const points = value[channel];
+        const valid = Array.isArray(points) && points.length >= 2 && points.every((point, i) => (
+          Array.isArray(point) && point.length === 2
+          && point.every((n) => typeof n === 'number' && n >= 0 && n <= 1)
+          && (i === 0 || point[0] > points[i - 1][0])
+        ));
+        if (!valid) return `${channel} curve needs at least two points in 0 to 1, sorted by x`;
+        curve[channel] = (points as number[][]).map(([x, y]) => [x, y]);
+      }
+      param.value = curve;
+      return null;
+    }
+    case 'file':
+      if (value === null) {
+        param.value = null;
+        return null;
+      }
+      if (!isRecord(value) || typeof value.name !== 'string' || typeof value.data !== 'string') {
+        return 'expected null or a file with a name and data';
+      }
+      param.value = createEffectAsset(value.name, value.data);
+      return null;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  return value === undefined ? 'nothing' : JSON.stringify(value);
+}
@@ -0,0 +1,61 @@
+import type { EffectPreset, PresetJson } from './PresetFile';
+import { presetToJson, restorePreset } from './PresetFile';
+
+const DB_NAME = 'flyermaker';
+const DB_VERSION = 1;
+const STORE = 'effect-presets';
+
+/**
+ * Effect presets persisted in IndexedDB. Records hold the preset's JSON
+ * form, so presets saved before an effect changed are re-validated on load.
+ */
+export class PresetStore {
+  private constructor(private readonly db: IDBDatabase) {}
+
+  static open(): Promise<PresetStore> {
+    return new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE)) request.result.createObjectStore(STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(new PresetStore(request.result));
+      request.onerror = () => reject(request.error ?? new Error('Failed to open the preset library'));
+    });
+  }
+
+  /**
+   * Stored presets by name. Records that no longer validate are skipped and
+   * their problems appended to `errors`.
+   */
+  async list(errors: string[]): Promise<EffectPreset[]> {
+    const records = await this.run<PresetJson[]>('readonly', (store) => store.getAll());
+    const presets: EffectPreset[] = [];
+    for (const record of records) {
+      const preset = restorePreset(record, 'Stored preset', errors);
+      if (preset) presets.push(preset);
+    }
+    return presets.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async put(preset: EffectPreset): Promise<void> {
+    await this.run('readwrite', (store) => store.put(presetToJson(preset)));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.run('readwrite', (store) => store.delete(id));
+  }
+
+  private run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const transaction = this.db.transaction(STORE, mode);
+      const request = action(transaction.objectStore(STORE));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error ?? new Error('Preset library request failed'));
+      transaction.onabort = () => reject(transaction.error ?? new Error('Preset library request was aborted'));
+    });
+  }
+}
@@ -0,0 +1,391 @@
+import { DocumentModel } from '../model/Document';
+import { Layer } from '../model/Layer';
+import type { AdjustmentContent, BlendMode, GradientMask, LayerContent, LayerMask, RasterMask, ShapeContent, ShapeMask, TextContent } from '../model/Layer';
+import type { EffectLuminanceMask, EffectMask, EffectParam, LayerEffect } from '../effects/Effect';
+import { cloneParamValue, createLayerEffect } from '../effects/Effect';
+import { effectRegistry } from '../effects/EffectRegistry';
+import { cloneEffectParams } from '../effects/EffectStack';
+import { loadImage } from './loadImage';
+import { cloneDrivers, cloneKeyframes } from '../model/Animation';
+import type { AnimationSettings, KeyframeTrack, LayerKeyframes, ParamDriver } from '../model/Animation';
+
+export const PROJECT_FORMAT = 'flyermaker-project';
+export const PROJECT_VERSION = 9;
+export const PROJECT_EXTENSION = 'flyer';
+
+interface ProjectEffect {
+  definitionId: string;
+  enabled: boolean;
+  params: Record<string, EffectParam>;
+  /** Absent in files saved before v7, like `blendMode` and `mask`. */
+  mix?: number;
+  blendMode?: BlendMode;
+  mask?: ProjectEffectMask | null;
+  /** Absent in files saved before v8. */
+  keyframes?: Record<string, KeyframeTrack>;
+  /** Absent in files saved before v9. */
+  drivers?: Record<string, ParamDriver>;
+}
+
+interface ProjectImageContent {
+  type: 'image';
+  /** Key into `ProjectFile.assets`. */
+  asset: string;
+  naturalWidth: number;
+  naturalHeight: number;
+  name: string;
+}
+
+interface ProjectGroupContent {
+  type: 'group';
+  children: ProjectLayer[];
+}
+
+type ProjectContent = ProjectImageContent | TextContent | ShapeContent | ProjectGroupContent | AdjustmentContent;
+
+/** Painted masks store their pixels as an asset, like image layers. */
+interface ProjectRasterMask extends Omit<RasterMask, 'canvas' | 'version'> {
+  asset: string;
+  width: number;
+  height: number;
+}
+
+type ProjectMask = ProjectRasterMask | GradientMask | ShapeMask;
+
+type ProjectEffectMask = ProjectRasterMask | EffectLuminanceMask;
+
+interface ProjectLayer {
+  id: string;
+  name: string;
+  visible: boolean;
+  locked: boolean;
+  opacity: number;
+  blendMode: BlendMode;
+  /** Absent in files saved before v5. */
+  clipToBelow?: boolean;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+  flipX: boolean;
+  flipY: boolean;
+  content: ProjectContent;
+  effects: ProjectEffect[];
+  /** Absent in files saved before v4. */
+  mask?: ProjectMask | null;
+  /** Absent in files saved before v8. */
+  keyframes?: LayerKeyframes;
+}
+
+interface ProjectDocument {
+  width: number;
+  height: number;
+  activeLayerId: string | null;
+  layers: ProjectLayer[];
+  /** Absent in files saved before v8. */
+  animation?: AnimationSettings;
+}
+
+/**
+ * On-disk `.flyer` layout: a JSON manifest describing the document, plus an
+ * asset table of embedded image bytes (PNG data URLs) shared between layers.
+ */
+export interface ProjectFile {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  document: ProjectDocument;
+  assets: Record<string, string>;
+}
+
+/** Parsed JSON of any schema version, before migration narrows it to a `ProjectFile`. */
+type RawProject = Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades a version-n project to version n + 1.
+const MIGRATIONS: Record<number, (project: RawProject) => RawProject> = {
+  // v2: layers gained rotation and flips.
+  1: (project) => {
+    const document = isRecord(project.document) ? project.document : {};
+    const layers = Array.isArray(document.layers) ? document.layers : [];
+    return {
+      ...project,
+      document: {
+        ...document,
+        layers: layers.map((layer: unknown) => (isRecord(layer) ? { rotation: 0, flipX: false, flipY: false, ...layer } : layer))
+      }
+    };
+  },
+  // v3: group layers nest a `children` array; older files have none.
+  2: (project) => project,
+  // v4: layers may carry a `mask`; a missing one means unmasked.
+  3: (project) => project,
+  // v5: layers may set `clipToBelow`; a missing flag means unclipped.
+  4: (project) => project,
+  // v6: adds `adjustment` layer content; older files have none.
+  5: (project) => project,
+  // v7: effects may carry `mix`, `blendMode` and `mask`; missing ones mean full, normal and unmasked.
+  6: (project) => project,
+  // v8: layers and effects may carry `keyframes`, the document an `animation` timeline.
+  7: (project) => project,
+  // v9: effects may carry param `drivers`.
+  8: (project) => project
+};
+
+export function serializeProject(doc: DocumentModel): string {
+  const assets: Record<string, string> = {};
+  const assetIds = new Map<CanvasImageSource, string>();
+
+  const encodeAsset = (source: CanvasImageSource, width: number, height: number): string => {
+    const existing = assetIds.get(source);
+    if (existing) return existing;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')!.drawImage(source, 0, 0, width, height);
+    const id = `asset-${assetIds.size + 1}`;
+    assets[id] = canvas.toDataURL('image/png');
+    assetIds.set(source, id);
+    return id;
+  };
+
+  const serializeContent = (content: LayerContent): ProjectContent => {
+    switch (content.type) {
+      case 'image':
+        return {
+          type: 'image',
+          asset: encodeAsset(content.source, content.naturalWidth, content.naturalHeight),
+          naturalWidth: content.naturalWidth,
+          naturalHeight: content.naturalHeight,
+          name: content.name
+        };
+      case 'text':
+        return { ...content };
+      case 'shape':
+        return { ...content, points: content.points.map(([x, y]) => [x, y]), fill: { ...content.fill } };
+      case 'group':
+        return { type: 'group', children: content.children.map(serializeLayer) };
+      case 'adjustment':
+        return { type: 'adjustment' };
+    }
+  };
+
+  const serializeMask = (mask: LayerMask): ProjectMask => {
+    if (mask.type !== 'raster') return { ...mask };
+    const { width, height } = mask.canvas;
+    return { type: 'raster', enabled: mask.enabled, inverted: mask.inverted, asset: encodeAsset(mask.canvas, width, height), width, height };
+  };
+
+  const serializeEffectMask = (mask: EffectMask): ProjectEffectMask => (
+    mask.type === 'luminance' ? { ...mask } : serializeMask(mask) as ProjectRasterMask
+  );
+
+  const serializeLayer = (layer: Layer): ProjectLayer => ({
+    id: layer.id,
+    name: layer.name,
+    visible: layer.visible,
+    locked: layer.locked,
+    opacity: layer.opacity,
+    blendMode: layer.blendMode,
+    clipToBelow: layer.clipToBelow,
+    x: layer.x,
+    y: layer.y,
+    width: layer.width,
+    height: layer.height,
+    rotation: layer.rotation,
+    flipX: layer.flipX,
+    flipY: layer.flipY,
+    content: serializeContent(layer.content),
+    effects: layer.effects.map((effect) => ({
+      definitionId: effect.definitionId,
+      enabled: effect.enabled,
+      params: cloneEffectParams(effect.params),
+      mix: effect.mix,
+      blendMode: effect.blendMode,
+      mask: effect.mask ? serializeEffectMask(effect.mask) : null,
+      keyframes: cloneKeyframes(effect.keyframes),
+      drivers: cloneDrivers(effect.drivers)
+    })),
+    mask: layer.mask ? serializeMask(layer.mask) : null,
+    keyframes: cloneKeyframes(layer.keyframes)
+  });
+
+  const project: ProjectFile = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    document: {
+      width: doc.width,
+      height: doc.height,
+      activeLayerId: doc.activeLayerId,
+      layers: doc.layers.map(serializeLayer),
+      animation: { ...doc.animation }
+    },
+    assets
+  };
+  return JSON.stringify(project);
+}
+
+export async function parseProject(text: string): Promise<DocumentModel> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Project file is not valid JSON');
+  }
+  const project = migrateProject(raw);
+
+  const images = new Map<string, HTMLImageElement>();
+  for (const [id, dataUrl] of Object.entries(project.assets)) {
+    images.set(id, await loadImage(dataUrl));
+  }
+
+  const deserializeContent = (content: ProjectContent): LayerContent => {
+    switch (content.type) {
+      case 'image': {
+        const source = images.get(content.asset);
+        if (!source) throw new Error(`Project references missing asset "${content.asset}"`);
+        return {
+          type: 'image',
+          source,
+          naturalWidth: content.naturalWidth,
+          naturalHeight: content.naturalHeight,
+          name: content.name
+        };
+      }
+      case 'text':
+        return { ...content };
+      case 'shape':
+        return { ...content, points: content.points.map(([x, y]) => [x, y]), fill: { ...content.fill } };
+      case 'group':
+        return { type: 'group', children: content.children.map(deserializeLayer) };
+      case 'adjustment':
+        return { type: 'adjustment' };
+      default:
+        throw new Error(`Unsupported layer content "${(content as { type: string }).type}"`);
+    }
+  };
+
+  const deserializeMask = (mask: ProjectMask): LayerMask => {
+    if (mask.type !== 'raster') return { ...mask };
+    const source = images.get(mask.asset);
+    if (!source) throw new Error(`Project references missing asset "${mask.asset}"`);
+    const canvas = document.createElement('canvas');
+    canvas.width = mask.width;
+    canvas.height = mask.height;
+    canvas.getContext('2d')!.drawImage(source, 0, 0);
+    return { type: 'raster', enabled: mask.enabled, inverted: mask.inverted, canvas, version: 0 };
+  };
+
+  const deserializeEffect = (entry: ProjectEffect): LayerEffect => {
+    const effect = restoreEffect(entry);
+    effect.mix = entry.mix ?? 1;
+    effect.blendMode = entry.blendMode ?? 'source-over';
+    if (entry.mask) effect.mask = entry.mask.type === 'luminance' ? { ...entry.mask } : deserializeMask(entry.mask) as RasterMask;
+    effect.keyframes = cloneKeyframes(entry.keyframes ?? {});
+    effect.drivers = cloneDrivers(entry.drivers ?? {});
+    return effect;
+  };
+
+  const deserializeLayer = (entry: ProjectLayer): Layer => {
+    const layer = new Layer(entry.name, deserializeContent(entry.content), entry.id);
+    layer.visible = entry.visible;
+    layer.locked = entry.locked;
+    layer.opacity = entry.opacity;
+    layer.blendMode = entry.blendMode;
+    layer.clipToBelow = entry.clipToBelow ?? false;
+    layer.x = entry.x;
+    layer.y = entry.y;
+    layer.width = entry.width;
+    layer.height = entry.height;
+    layer.rotation = entry.rotation;
+    layer.flipX = entry.flipX;
+    layer.flipY = entry.flipY;
+    layer.effects = entry.effects.map(deserializeEffect);
+    layer.mask = entry.mask ? deserializeMask(entry.mask) : null;
+    layer.keyframes = cloneKeyframes(entry.keyframes ?? {});
+    return layer;
+  };
+
+  const doc = new DocumentModel();
+  doc.width = project.document.width;
+  doc.height = project.document.height;
+  if (project.document.animation) doc.animation = { ...project.document.animation };
+  doc.layers = project.document.layers.map(deserializeLayer);
+  doc.syncGroupBounds();
+  const activeId = project.document.activeLayerId;
+  doc.activeLayerId = activeId && doc.findLayer(activeId) ? activeId : null;
+  return doc;
+}
+
+function migrateProject(raw: unknown): ProjectFile {
+  if (!isRecord(raw) || raw.format !== PROJECT_FORMAT) throw new Error('Not a FlyerMaker project file');
+  const { version } = raw;
+  if (typeof version !== 'number') throw new Error('Project file has no schema version');
+  if (version > PROJECT_VERSION) {
+    throw new Error(`Project was saved by a newer FlyerMaker (schema v${version}, supported v${PROJECT_VERSION})`);
+  }
+
+  let project: RawProject = raw;
+  for (let from = version; from < PROJECT_VERSION; from++) {
+    const migrate = MIGRATIONS[from];
+    if (!migrate) throw new Error(`No migration from project schema v${from}`);
+    project = { ...migrate(project), version: from + 1 };
+  }
+
+  if (!isProjectFile(project)) throw new Error('Project file is missing its document or assets');
+  return project;
+}
+
+/** Checks the outline only; layer entries are trusted once the document and asset table are there. */
+function isProjectFile(project: RawProject): project is RawProject & ProjectFile {
+  const { document, assets } = project;
+  return isRecord(document) && Array.isArray(document.layers) && isRecord(assets);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Rebuilds a saved effect against the current registry so param metadata
+ * (ranges, labels) stays current. Effects whose definition is not
+ * registered are kept verbatim as inert placeholders: the renderer skips
+ * them, but they survive the next save.
+ */
+function restoreEffect(saved: ProjectEffect): LayerEffect {
+  const definition = effectRegistry.get(saved.definitionId);
+  if (!definition) {
+    return { definitionId: saved.definitionId, enabled: saved.enabled, params: cloneEffectParams(saved.params), mix: 1, blendMode: 'source-over', mask: null, keyframes: {}, drivers: {} };
+  }
+  const effect = createLayerEffect(definition);
+  effect.enabled = saved.enabled;
+  for (const [key, param] of Object.entries(saved.params)) {
+    const target = effect.params[key];
+    if (target) copyParamValue(target, param);
+  }
+  return effect;
+}
+
+/** Copies `saved`'s value onto `target` when both are the same kind of param. */
+function copyParamValue(target: EffectParam, saved: EffectParam): void {
+  switch (target.type) {
+    case 'float':
+    case 'int':
+      if (saved.type === target.type) target.value = saved.value;
+      break;
+    case 'color':
+      if (saved.type === 'color') target.value = cloneParamValue(saved.value);
+      break;
+    case 'boolean':
+      if (saved.type === 'boolean') target.value = saved.value;
+      break;
+    case 'select':
+      if (saved.type === 'select') target.value = saved.value;
+      break;
+    case 'curve':
+      if (saved.type === 'curve') target.value = cloneParamValue(saved.value);
+      break;
+    case 'file':
+      if (saved.type === 'file') target.value = cloneParamValue(saved.value);
+      break;
+  }
+}
@@ -0,0 +1,86 @@
+/** Chunks of a still WebP that carry image data; everything else is dropped. */
+const FRAME_CHUNKS = new Set(['ALPH', 'VP8 ', 'VP8L']);
+
+/**
+ * Muxes still WebP files, as `canvas.toBlob('image/webp')` produces them,
+ * into one looping animated WebP. Every frame covers the whole canvas and
+ * replaces the previous one rather than blending over it.
+ */
+export function encodeAnimatedWebp(stills: Uint8Array[], width: number, height: number, frameDuration: number): Uint8Array<ArrayBuffer> {
+  const chunks: Uint8Array[] = [];
+
+  const vp8x = new Uint8Array(10);
+  vp8x[0] = 0x10 | 0x02; // alpha, animation
+  writeUint24(vp8x, 4, width - 1);
+  writeUint24(vp8x, 7, height - 1);
+  chunks.push(chunk('VP8X', vp8x));
+
+  // Transparent background, loop forever.
+  chunks.push(chunk('ANIM', new Uint8Array(6)));
+
+  for (const still of stills) {
+    const header = new Uint8Array(16);
+    writeUint24(header, 6, width - 1);
+    writeUint24(header, 9, height - 1);
+    writeUint24(header, 12, Math.round(frameDuration));
+    header[15] = 0x02; // do not blend
+    chunks.push(chunk('ANMF', concat([header, ...frameChunks(still)])));
+  }
+
+  const body = concat(chunks);
+  const file = new Uint8Array(12 + body.length);
+  writeFourCC(file, 0, 'RIFF');
+  new DataView(file.buffer).setUint32(4, 4 + body.length, true);
+  writeFourCC(file, 8, 'WEBP');
+  file.set(body, 12);
+  return file;
+}
+
+/** The image chunks of a still WebP, headers and padding included. */
+function frameChunks(still: Uint8Array): Uint8Array[] {
+  if (readFourCC(still, 0) !== 'RIFF' || readFourCC(still, 8) !== 'WEBP') {
+    throw new Error('This browser cannot encode WebP frames');
+  }
+  const view = new DataView(still.buffer, still.byteOffset, still.byteLength);
+  const found: Uint8Array[] = [];
+  for (let offset = 12; offset + 8 <= still.length;) {
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size & 1);
+    if (FRAME_CHUNKS.has(readFourCC(still, offset))) found.push(still.subarray(offset, end));
+    offset = end;
+  }
+  if (!found.some((part) => readFourCC(part, 0) !== 'ALPH')) throw new Error('WebP frame has no image data');
+  return found;
+}
+
+function chunk(fourCC: string, payload: Uint8Array): Uint8Array {
+  const out = new Uint8Array(8 + payload.length + (payload.length & 1));
+  writeFourCC(out, 0, fourCC);
+  new DataView(out.buffer).setUint32(4, payload.length, true);
+  out.set(payload, 8);
+  return out;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function writeUint24(bytes: Uint8Array, offset: number, value: number): void {
+  bytes[offset] = value & 0xff;
+  bytes[offset + 1] = (value >> 8) & 0xff;
+  bytes[offset + 2] = (value >> 16) & 0xff;
+}
+
+function writeFourCC(bytes: Uint8Array, offset: number, fourCC: string): void {
+  for (let i = 0; i < 4; i++) bytes[offset + i] = fourCC.charCodeAt(i);
+}
+
+function readFourCC(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + 4));
+}
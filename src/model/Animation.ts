@@ -0,0 +1,278 @@
+import type { Layer } from './Layer';
+import type { EffectParam } from '../effects/Effect';
+
+export type Easing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out' | 'hold';
+
+export const EASINGS: Easing[] = ['linear', 'ease-in', 'ease-out', 'ease-in-out', 'hold'];
+
+/** A value at `time` seconds. `easing` shapes the segment towards the next keyframe. */
+export interface Keyframe {
+  time: number;
+  value: number;
+  easing: Easing;
+}
+
+/** Sorted by time, with at most one keyframe per time. Tracks are replaced, never edited in place. */
+export type KeyframeTrack = Keyframe[];
+
+export type AnimatableProperty = 'x' | 'y' | 'width' | 'height' | 'opacity';
+
+export const ANIMATABLE_PROPERTIES: AnimatableProperty[] = ['x', 'y', 'width', 'height', 'opacity'];
+
+/** Per-layer tracks. Group boxes follow their children, so groups only animate `opacity`. */
+export type LayerKeyframes = Partial<Record<AnimatableProperty, KeyframeTrack>>;
+
+export interface AnimationSettings {
+  /** Length of the timeline in seconds. */
+  duration: number;
+  fps: number;
+}
+
+export const DEFAULT_ANIMATION: AnimationSettings = { duration: 3, fps: 15 };
+
+/** Keyframes closer than this many seconds share a slot. */
+const TIME_EPSILON = 1e-4;
+
+export function frameCount(settings: AnimationSettings): number {
+  return Math.max(1, Math.round(settings.duration * settings.fps));
+}
+
+/** Seconds until playback wraps: whole frames, so it can differ slightly from `duration`. */
+export function loopLength(settings: AnimationSettings): number {
+  return frameCount(settings) / settings.fps;
+}
+
+export function frameTime(settings: AnimationSettings, frame: number): number {
+  return frame / settings.fps;
+}
+
+/** The frame shown at `time`, which grain and other per-frame effects advance with. */
+export function timeFrame(settings: AnimationSettings, time: number): number {
+  return Math.min(frameCount(settings) - 1, Math.max(0, Math.round(time * settings.fps)));
+}
+
+export function ease(easing: Easing, t: number): number {
+  switch (easing) {
+    case 'linear':
+      return t;
+    case 'ease-in':
+      return t * t * t;
+    case 'ease-out':
+      return 1 - (1 - t) ** 3;
+    case 'ease-in-out':
+      return t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2;
+    case 'hold':
+      return 0;
+  }
+}
+
+/** Value of `track` at `time`: held before the first and after the last keyframe. */
+export function evaluateTrack(track: KeyframeTrack, time: number): number {
+  if (time <= track[0].time) return track[0].value;
+  for (let i = 1; i < track.length; i++) {
+    const next = track[i];
+    if (time >= next.time) continue;
+    const prev = track[i - 1];
+    const t = (time - prev.time) / Math.max(TIME_EPSILON, next.time - prev.time);
+    return prev.value + (next.value - prev.value) * ease(prev.easing, t);
+  }
+  return track[track.length - 1].value;
+}
+
+export function keyframeAt(track: KeyframeTrack | undefined, time: number): Keyframe | undefined {
+  return track?.find((key) => Math.abs(key.time - time) < TIME_EPSILON);
+}
+
+/** A copy of `track` with a keyframe at `time`; an existing one there keeps its easing unless one is given. */
+export function setKeyframe(track: KeyframeTrack | undefined, time: number, value: number, easing?: Easing): KeyframeTrack {
+  const existing = keyframeAt(track, time);
+  const rest = (track ?? []).filter((key) => key !== existing);
+  const key: Keyframe = { time: existing?.time ?? time, value, easing: easing ?? existing?.easing ?? 'linear' };
+  return [...rest, key].sort((a, b) => a.time - b.time);
+}
+
+/** A copy of `track` without its keyframe at `time`; null once the track is empty. */
+export function removeKeyframe(track: KeyframeTrack, time: number): KeyframeTrack | null {
+  const rest = track.filter((key) => Math.abs(key.time - time) >= TIME_EPSILON);
+  return rest.length > 0 ? rest : null;
+}
+
+export function cloneKeyframes<T extends Record<string, KeyframeTrack | undefined>>(tracks: T): T {
+  const copy: Record<string, KeyframeTrack> = {};
+  for (const [key, track] of Object.entries(tracks)) {
+    if (track) copy[key] = track.map((frame) => ({ ...frame }));
+  }
+  return copy as T;
+}
+
+export function keyframesEqual(a: Record<string, KeyframeTrack | undefined>, b: Record<string, KeyframeTrack | undefined>): boolean {
+  return JSON.stringify(cloneKeyframes(a)) === JSON.stringify(cloneKeyframes(b));
+}
+
+/** The properties `layer` can animate. */
+export function animatableProperties(layer: Layer): AnimatableProperty[] {
+  return layer.content.type === 'group' ? ['opacity'] : ANIMATABLE_PROPERTIES;
+}
+
+/** Numeric params are the animatable ones. */
+export function isAnimatableParam(param: EffectParam): param is Extract<EffectParam, { type: 'float' | 'int' }> {
+  return param.type === 'float' || param.type === 'int';
+}
+
+export type DriverWave = 'sine' | 'triangle' | 'noise' | 'ramp';
+
+export const DRIVER_WAVES: DriverWave[] = ['sine', 'triangle', 'noise', 'ramp'];
+
+/**
+ * Procedural modulation of a numeric effect param around its set (or
+ * keyframed) value, evaluated at timeline time. The param keeps its value;
+ * only rendering sees the driven one. Drivers are tied to the timeline loop:
+ * they repeat with it rather than running on past the end.
+ */
+export interface ParamDriver {
+  wave: DriverWave;
+  /** Cycles per second, rounded to a whole number of cycles per timeline loop. */
+  rate: number;
+  /** Share of the param's range swept: waves swing half of it either way, ramps climb all of it and wrap. */
+  amount: number;
+  /** Offset into the cycle, 0–1. */
+  phase: number;
+}
+
+export const DEFAULT_DRIVER: ParamDriver = { wave: 'sine', rate: 0.5, amount: 0.25, phase: 0 };
+
+export const DRIVER_LIMITS: Record<Exclude<keyof ParamDriver, 'wave'>, { min: number; max: number }> = {
+  rate: { min: 0.01, max: 10 },
+  amount: { min: 0, max: 1 },
+  phase: { min: 0, max: 1 }
+};
+
+function fract(value: number): number {
+  return value - Math.floor(value);
+}
+
+/** Deterministic value in [-1, 1] for an integer lattice point. */
+function latticeNoise(n: number): number {
+  return fract(Math.sin(n * 127.1 + 311.7) * 43758.5453) * 2 - 1;
+}
+
+/** Whole cycles `driver` runs per `loop` seconds: its rate rounded, and at least one. */
+export function loopCycles(driver: ParamDriver, loop: number): number {
+  return Math.max(1, Math.round(driver.rate * loop));
+}
+
+/**
+ * The driver's signal at `time` into a timeline that wraps every `loop`
+ * seconds: [-1, 1] for waves, [0, 1) for ramps. Every wave returns to its
+ * starting value at `loop`, so playback wraps without a jump.
+ */
+export function evaluateDriver(driver: ParamDriver, time: number, loop: number): number {
+  const cycles = loopCycles(driver, loop);
+  const cycle = (cycles * time) / loop + driver.phase;
+  switch (driver.wave) {
+    case 'sine':
+      return Math.sin(cycle * Math.PI * 2);
+    case 'triangle':
+      return 1 - 4 * Math.abs(fract(cycle + 0.25) - 0.5);
+    case 'noise': {
+      // The lattice repeats every `cycles` points so the noise loops too.
+      const base = Math.floor(cycle);
+      const t = cycle - base;
+      const smooth = t * t * (3 - 2 * t);
+      const from = latticeNoise(base % cycles);
+      return from + (latticeNoise((base + 1) % cycles) - from) * smooth;
+    }
+    case 'ramp':
+      return fract(cycle);
+  }
+}
+
+/** The value `driver` gives `param` at `time` into a `loop`-second timeline, kept in the param's range. */
+export function driveParam(param: Extract<EffectParam, { type: 'float' | 'int' }>, driver: ParamDriver, time: number, loop: number): number {
+  const span = param.max - param.min;
+  const signal = evaluateDriver(driver, time, loop);
+  if (driver.wave === 'ramp') {
+    // Ramps wrap, so a full sweep of a hue or seed cycles seamlessly.
+    const wrapped = param.min + fract((param.value - param.min + signal * driver.amount * span) / Math.max(span, 1e-9)) * span;
+    return param.type === 'int' ? Math.round(wrapped) : wrapped;
+  }
+  return paramValue(param, param.value + (signal * driver.amount * span) / 2);
+}
+
+export function cloneDrivers(drivers: Record<string, ParamDriver>): Record<string, ParamDriver> {
+  const copy: Record<string, ParamDriver> = {};
+  for (const [key, driver] of Object.entries(drivers)) copy[key] = { ...driver };
+  return copy;
+}
+
+export function driversEqual(a: Record<string, ParamDriver>, b: Record<string, ParamDriver>): boolean {
+  const keys = Object.keys(a);
+  if (keys.length !== Object.keys(b).length) return false;
+  return keys.every((key) => {
+    const other = b[key];
+    return !!other && a[key].wave === other.wave && a[key].rate === other.rate
+      && a[key].amount === other.amount && a[key].phase === other.phase;
+  });
+}
+
+function layerValue(property: AnimatableProperty, value: number): number {
+  if (property === 'opacity') return Math.min(1, Math.max(0, value));
+  if (property === 'width' || property === 'height') return Math.max(1, value);
+  return value;
+}
+
+function paramValue(param: Extract<EffectParam, { type: 'float' | 'int' }>, value: number): number {
+  const clamped = Math.min(param.max, Math.max(param.min, value));
+  return param.type === 'int' ? Math.round(clamped) : clamped;
+}
+
+/** Writes every animated layer property and effect param at `time`, recursing into groups. */
+export function applyAnimation(layers: Layer[], time: number): void {
+  for (const layer of layers) {
+    for (const property of animatableProperties(layer)) {
+      const track = layer.keyframes[property];
+      if (track) layer[property] = layerValue(property, evaluateTrack(track, time));
+    }
+    for (const effect of layer.effects) {
+      for (const [key, track] of Object.entries(effect.keyframes)) {
+        const param = effect.params[key];
+        if (param && isAnimatableParam(param)) param.value = paramValue(param, evaluateTrack(track, time));
+      }
+    }
+    if (layer.content.type === 'group') applyAnimation(layer.content.children, time);
+  }
+}
+
+/**
+ * Keys edits made at `time`: an animated value that no longer matches its
+ * track becomes a keyframe there, so edits to animated properties stick
+ * instead of snapping back on the next frame.
+ */
+export function keyAnimatedEdits(layers: Layer[], time: number): void {
+  for (const layer of layers) {
+    for (const property of animatableProperties(layer)) {
+      const track = layer.keyframes[property];
+      if (track && layer[property] !== layerValue(property, evaluateTrack(track, time))) {
+        layer.keyframes = { ...layer.keyframes, [property]: setKeyframe(track, time, layer[property]) };
+      }
+    }
+    for (const effect of layer.effects) {
+      for (const [key, track] of Object.entries(effect.keyframes)) {
+        const param = effect.params[key];
+        if (!param || !isAnimatableParam(param)) continue;
+        if (param.value !== paramValue(param, evaluateTrack(track, time))) {
+          effect.keyframes = { ...effect.keyframes, [key]: setKeyframe(track, time, param.value) };
+        }
+      }
+    }
+    if (layer.content.type === 'group') keyAnimatedEdits(layer.content.children, time);
+  }
+}
+
+export function hasKeyframes(layers: Layer[]): boolean {
+  return layers.some((layer) => (
+    Object.keys(layer.keyframes).length > 0
+    || layer.effects.some((effect) => Object.keys(effect.keyframes).length > 0)
+    || (layer.content.type === 'group' && hasKeyframes(layer.content.children))
+  ));
+}
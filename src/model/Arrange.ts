@@ -0,0 +1,65 @@
+import type { Layer } from './Layer';
+import { layerBounds } from './LayerTransform';
+import type { Rect } from './LayerTransform';
+
+export type AlignEdge = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+export const ALIGN_EDGES: AlignEdge[] = ['left', 'center', 'right', 'top', 'middle', 'bottom'];
+
+/** Moves each layer so its rotated bounds line up with `edge` of `target`. */
+export function alignLayers(layers: Layer[], edge: AlignEdge, target: Rect): void {
+  for (const layer of layers) {
+    const bounds = layerBounds(layer);
+    switch (edge) {
+      case 'left':
+        layer.x += target.x - bounds.x;
+        break;
+      case 'center':
+        layer.x += target.x + target.width / 2 - (bounds.x + bounds.width / 2);
+        break;
+      case 'right':
+        layer.x += target.x + target.width - (bounds.x + bounds.width);
+        break;
+      case 'top':
+        layer.y += target.y - bounds.y;
+        break;
+      case 'middle':
+        layer.y += target.y + target.height / 2 - (bounds.y + bounds.height / 2);
+        break;
+      case 'bottom':
+        layer.y += target.y + target.height - (bounds.y + bounds.height);
+        break;
+    }
+  }
+}
+
+/**
+ * Spaces layers evenly along `axis`, keeping the outermost two in place so
+ * the gaps between neighbouring bounds are equal.
+ */
+export function distributeLayers(layers: Layer[], axis: DistributeAxis): void {
+  if (layers.length < 3) return;
+  const horizontal = axis === 'horizontal';
+  const entries = layers
+    .map((layer) => ({ layer, bounds: layerBounds(layer) }))
+    .map((entry) => ({
+      ...entry,
+      start: horizontal ? entry.bounds.x : entry.bounds.y,
+      size: horizontal ? entry.bounds.width : entry.bounds.height
+    }))
+    .sort((a, b) => a.start - b.start);
+
+  const first = entries[0];
+  const end = Math.max(...entries.map((entry) => entry.start + entry.size));
+  const occupied = entries.reduce((sum, entry) => sum + entry.size, 0);
+  const gap = (end - first.start - occupied) / (entries.length - 1);
+
+  let cursor = first.start;
+  for (const entry of entries) {
+    const shift = cursor - entry.start;
+    if (horizontal) entry.layer.x += shift;
+    else entry.layer.y += shift;
+    cursor += entry.size + gap;
+  }
+}
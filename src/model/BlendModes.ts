@@ -0,0 +1,39 @@
+import type { BlendMode, ExtendedBlendMode } from './Layer';
+
+/** Modes the Canvas 2D compositor renders natively. */
+export const CANVAS_BLEND_MODES: BlendMode[] = [
+  'source-over', 'multiply', 'screen', 'overlay', 'darken', 'lighten', 'color-dodge', 'color-burn',
+  'hard-light', 'soft-light', 'difference', 'exclusion', 'hue', 'saturation', 'color', 'luminosity'
+];
+
+/** Every PLAN §12 mode, in the spec's order, for the WebGL compositor. */
+export const GPU_BLEND_MODES: BlendMode[] = [
+  'source-over',
+  'darken', 'multiply', 'color-burn', 'linear-burn', 'darker-color',
+  'lighten', 'screen', 'color-dodge', 'linear-dodge', 'lighter-color',
+  'overlay', 'soft-light', 'hard-light', 'vivid-light', 'linear-light', 'pin-light', 'hard-mix',
+  'difference', 'exclusion', 'subtract', 'divide',
+  'hue', 'saturation', 'color', 'luminosity'
+];
+
+const CANVAS_FALLBACK: Record<ExtendedBlendMode, GlobalCompositeOperation> = {
+  'linear-burn': 'color-burn',
+  'linear-dodge': 'lighter',
+  'vivid-light': 'hard-light',
+  'linear-light': 'hard-light',
+  'pin-light': 'hard-light',
+  'hard-mix': 'hard-light',
+  subtract: 'difference',
+  divide: 'color-dodge',
+  'darker-color': 'darken',
+  'lighter-color': 'lighten'
+};
+
+export function isExtendedBlendMode(mode: BlendMode): mode is ExtendedBlendMode {
+  return mode in CANVAS_FALLBACK;
+}
+
+/** The Canvas 2D operation used for `mode`: itself, or the closest native mode. */
+export function canvasBlendMode(mode: BlendMode): GlobalCompositeOperation {
+  return isExtendedBlendMode(mode) ? CANVAS_FALLBACK[mode] : mode;
+}
@@ -1,10 +1,84 @@
 import { Layer } from './Layer';
+import type { LayerContent } from './Layer';
+import { cloneLayerEffects } from '../effects/EffectStack';
+import { selectionBounds } from './LayerTransform';
+import { DEFAULT_ANIMATION, cloneKeyframes } from './Animation';
+import type { AnimationSettings } from './Animation';
 
 export class DocumentModel {
   width = 1280;
   height = 720;
+  animation: AnimationSettings = { ...DEFAULT_ANIMATION };
+  /** Top-level layers, bottom first; groups hold their own children. */
   layers: Layer[] = [];
-  activeLayerId: string | null = null;
+  private activeId: string | null = null;
+  private selection = new Set<string>();
+
+  /** The layer the property panels edit; always part of the selection. */
+  get activeLayerId(): string | null {
+    return this.activeId;
+  }
+
+  /** Makes `id` the active layer and the whole selection. */
+  set activeLayerId(id: string | null) {
+    this.activeId = id;
+    this.selection = new Set(id ? [id] : []);
+  }
+
+  get selectedLayerIds(): ReadonlySet<string> {
+    return this.selection;
+  }
+
+  /** Selected layers in tree order (bottom first, groups before their children). */
+  get selectedLayers(): Layer[] {
+    return this.allLayers().filter((layer) => this.selection.has(layer.id));
+  }
+
+  isSelected(id: string): boolean {
+    return this.selection.has(id);
+  }
+
+  /** Replaces the selection; `activeId` defaults to the last id given. */
+  setSelection(ids: Iterable<string>, activeId?: string | null): void {
+    const known = new Set(this.allLayers().map((layer) => layer.id));
+    this.selection = new Set([...ids].filter((id) => known.has(id)));
+    const fallback = [...this.selection].pop() ?? null;
+    this.activeId = activeId && this.selection.has(activeId) ? activeId : fallback;
+  }
+
+  /** Shift/Cmd-click behaviour: adds `id` as the active layer, or drops it if already selected. */
+  toggleSelection(id: string): void {
+    if (!this.selection.has(id)) {
+      this.selection.add(id);
+      this.activeId = id;
+      return;
+    }
+    this.selection.delete(id);
+    if (this.activeId === id) this.activeId = [...this.selection].pop() ?? null;
+  }
+
+  /** Every layer in tree order: each group precedes its (bottom-first) children. */
+  allLayers(layers: Layer[] = this.layers): Layer[] {
+    return layers.flatMap((layer) => (
+      layer.content.type === 'group' ? [layer, ...this.allLayers(layer.content.children)] : [layer]
+    ));
+  }
+
+  findLayer(id: string | null): Layer | null {
+    if (!id) return null;
+    return this.allLayers().find((layer) => layer.id === id) ?? null;
+  }
+
+  /** The group directly containing `id`, or null for top-level layers. */
+  parentOf(id: string): Layer | null {
+    return this.allLayers().find((layer) => layer.content.type === 'group' && layer.content.children.some((child) => child.id === id)) ?? null;
+  }
+
+  /** The array holding `id`: `layers` or its parent group's children. */
+  siblingsOf(id: string): Layer[] {
+    const parent = this.parentOf(id);
+    return parent && parent.content.type === 'group' ? parent.content.children : this.layers;
+  }
 
   addLayer(layer: Layer): Layer {
     this.layers.push(layer);
@@ -13,23 +87,174 @@ export class DocumentModel {
   }
 
   deleteLayer(id: string): void {
-    const idx = this.layers.findIndex((layer) => layer.id === id);
+    const parent = this.parentOf(id);
+    const siblings = this.siblingsOf(id);
+    const idx = siblings.findIndex((layer) => layer.id === id);
     if (idx < 0) return;
-    this.layers.splice(idx, 1);
-    if (this.activeLayerId === id) {
-      const neighbor = this.layers[Math.min(idx, this.layers.length - 1)];
+    const [removed] = siblings.splice(idx, 1);
+    for (const layer of this.allLayers([removed])) this.selection.delete(layer.id);
+    if (this.activeId && !this.findLayer(this.activeId)) {
+      const neighbor = siblings[Math.min(idx, siblings.length - 1)] ?? parent;
       this.activeLayerId = neighbor ? neighbor.id : null;
     }
+    this.syncGroupBounds();
   }
 
+  /** Reorders `id` within its own container. */
   moveLayer(id: string, toIndex: number): void {
-    const fromIndex = this.layers.findIndex((layer) => layer.id === id);
-    if (fromIndex < 0 || toIndex < 0 || toIndex >= this.layers.length) return;
-    const [layer] = this.layers.splice(fromIndex, 1);
-    this.layers.splice(toIndex, 0, layer);
+    const siblings = this.siblingsOf(id);
+    const fromIndex = siblings.findIndex((layer) => layer.id === id);
+    if (fromIndex < 0 || toIndex < 0 || toIndex >= siblings.length) return;
+    const [layer] = siblings.splice(fromIndex, 1);
+    siblings.splice(toIndex, 0, layer);
+  }
+
+  /**
+   * Moves `id` into `groupId` (null for the top level) at `index`, or on
+   * top when omitted. A group cannot be moved into itself or a descendant.
+   */
+  moveToGroup(id: string, groupId: string | null, index?: number): void {
+    const layer = this.findLayer(id);
+    const group = groupId ? this.findLayer(groupId) : null;
+    if (!layer || (groupId && (!group || group.content.type !== 'group'))) return;
+    if (group && this.allLayers([layer]).includes(group)) return;
+    const from = this.siblingsOf(id);
+    const fromIndex = from.indexOf(layer);
+    const target = group && group.content.type === 'group' ? group.content.children : this.layers;
+    const toIndex = Math.min(index ?? target.length, target.length);
+    if (from === target) {
+      // `index` counts the layer's own slot when it moves up within one container.
+      this.moveLayer(id, fromIndex < toIndex ? toIndex - 1 : toIndex);
+      return;
+    }
+    from.splice(fromIndex, 1);
+    target.splice(toIndex, 0, layer);
+    this.syncGroupBounds();
+  }
+
+  /**
+   * Wraps `ids` in a new group placed where the topmost of them was. The
+   * layers keep their relative stacking order.
+   */
+  groupLayers(ids: Iterable<string>, name = 'Group'): Layer | null {
+    const wanted = new Set(ids);
+    // Dropping children of selected groups keeps each layer moved once.
+    const layers = this.allLayers().filter((layer) => wanted.has(layer.id) && !this.hasSelectedAncestor(layer.id, wanted));
+    if (layers.length === 0) return null;
+    const top = layers[layers.length - 1];
+    const container = this.siblingsOf(top.id);
+    const group = new Layer(name, { type: 'group', children: [] });
+    container.splice(container.indexOf(top) + 1, 0, group);
+    for (const layer of layers) this.moveToGroup(layer.id, group.id);
+    this.activeLayerId = group.id;
+    return group;
+  }
+
+  /** Replaces group `id` with its children, keeping them selected. */
+  ungroup(id: string): void {
+    const group = this.findLayer(id);
+    if (!group || group.content.type !== 'group') return;
+    const container = this.siblingsOf(id);
+    const children = group.content.children;
+    container.splice(container.indexOf(group), 1, ...children);
+    this.setSelection(children.map((child) => child.id));
+    this.syncGroupBounds();
+  }
+
+  /**
+   * Copies each of `ids` (with new ids throughout) directly above its
+   * original and selects the copies.
+   */
+  duplicateLayers(ids: Iterable<string>): Layer[] {
+    const wanted = new Set(ids);
+    const originals = this.allLayers().filter((layer) => wanted.has(layer.id) && !this.hasSelectedAncestor(layer.id, wanted));
+    const copies = originals.map((layer) => {
+      const copy = cloneLayer(layer);
+      copy.name = `${layer.name} copy`;
+      const siblings = this.siblingsOf(layer.id);
+      siblings.splice(siblings.indexOf(layer) + 1, 0, copy);
+      return copy;
+    });
+    if (copies.length > 0) this.setSelection(copies.map((copy) => copy.id));
+    return copies;
+  }
+
+  /** True when the layer or any group containing it is locked. */
+  isLocked(id: string): boolean {
+    for (let layer = this.findLayer(id); layer; layer = this.parentOf(layer.id)) {
+      if (layer.locked) return true;
+    }
+    return false;
+  }
+
+  /** Recomputes every group's box from its children, deepest first. */
+  syncGroupBounds(layers: Layer[] = this.layers): void {
+    for (const layer of layers) {
+      if (layer.content.type !== 'group') continue;
+      this.syncGroupBounds(layer.content.children);
+      const bounds = selectionBounds(layer.content.children);
+      Object.assign(layer, bounds ?? { x: 0, y: 0, width: 0, height: 0 });
+      layer.rotation = 0;
+    }
+  }
+
+  /**
+   * A detached copy of the layer tree and canvas settings, for rendering
+   * variations (such as other animation frames) without touching this one.
+   */
+  clone(): DocumentModel {
+    const copy = new DocumentModel();
+    copy.width = this.width;
+    copy.height = this.height;
+    copy.animation = { ...this.animation };
+    copy.layers = this.layers.map(cloneLayer);
+    return copy;
   }
 
   get activeLayer(): Layer | null {
-    return this.layers.find((layer) => layer.id === this.activeLayerId) ?? null;
+    return this.findLayer(this.activeId);
+  }
+
+  private hasSelectedAncestor(id: string, ids: Set<string>): boolean {
+    for (let parent = this.parentOf(id); parent; parent = this.parentOf(parent.id)) {
+      if (ids.has(parent.id)) return true;
+    }
+    return false;
+  }
+}
+
+function cloneLayer(layer: Layer): Layer {
+  const { content } = layer;
+  let next: LayerContent;
+  switch (content.type) {
+    case 'image':
+    case 'text':
+    case 'adjustment':
+      next = { ...content };
+      break;
+    case 'shape':
+      next = { ...content, points: content.points.map(([x, y]) => [x, y]), fill: { ...content.fill } };
+      break;
+    case 'group':
+      next = { type: 'group', children: content.children.map(cloneLayer) };
+      break;
   }
+  const copy = new Layer(layer.name, next);
+  copy.visible = layer.visible;
+  copy.locked = layer.locked;
+  copy.opacity = layer.opacity;
+  copy.blendMode = layer.blendMode;
+  copy.clipToBelow = layer.clipToBelow;
+  copy.x = layer.x;
+  copy.y = layer.y;
+  copy.width = layer.width;
+  copy.height = layer.height;
+  copy.rotation = layer.rotation;
+  copy.flipX = layer.flipX;
+  copy.flipY = layer.flipY;
+  copy.effects = cloneLayerEffects(layer.effects);
+  // Raster mask canvases are shared; strokes copy before writing.
+  copy.mask = layer.mask ? { ...layer.mask } : null;
+  copy.keyframes = cloneKeyframes(layer.keyframes);
+  return copy;
 }
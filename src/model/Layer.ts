@@ -1,4 +1,12 @@
-export type BlendMode = GlobalCompositeOperation;
+/**
+ * PLAN §12 modes Canvas 2D has no operation for. Only the WebGL compositor
+ * renders them exactly; the Canvas 2D fallback substitutes a close mode.
+ */
+export type ExtendedBlendMode =
+  | 'linear-burn' | 'linear-dodge' | 'vivid-light' | 'linear-light' | 'pin-light'
+  | 'hard-mix' | 'subtract' | 'divide' | 'darker-color' | 'lighter-color';
+
+export type BlendMode = GlobalCompositeOperation | ExtendedBlendMode;
 
 export interface ImageContent {
   type: 'image';
@@ -8,9 +16,114 @@ export interface ImageContent {
   name: string;
 }
 
-export type LayerContent = ImageContent;
+export type TextAlign = 'left' | 'center' | 'right';
+
+export interface TextContent {
+  type: 'text';
+  text: string;
+  fontFamily: string;
+  fontWeight: number;
+  /** Font size in document pixels. */
+  fontSize: number;
+  /** CSS hex color, e.g. `#ffffff`. */
+  color: string;
+  align: TextAlign;
+  /** Line advance as a multiple of `fontSize`. */
+  lineHeight: number;
+  /** Extra tracking between glyphs in document pixels. */
+  letterSpacing: number;
+  /** Wrap lines at this width in document pixels; 0 disables wrapping. */
+  wrapWidth: number;
+}
+
+export type ShapeKind = 'rectangle' | 'ellipse' | 'line' | 'polygon';
+
+export type ShapeFill =
+  | { type: 'none' }
+  | { type: 'solid'; color: string }
+  | { type: 'linear' | 'radial'; from: string; to: string; /** Degrees, linear only. */ angle: number };
+
+export interface ShapeContent {
+  type: 'shape';
+  shape: ShapeKind;
+  /**
+   * Line endpoints / polygon vertices in unit-box coordinates (0–1),
+   * mapped onto the layer box at draw time. Unused for rectangles/ellipses.
+   */
+  points: Array<[number, number]>;
+  fill: ShapeFill;
+  stroke: string;
+  /** Stroke width in document pixels; 0 disables the stroke. */
+  strokeWidth: number;
+  /** Rectangle corner radius in document pixels. */
+  cornerRadius: number;
+}
+
+/**
+ * A folder of layers composited into an isolated buffer before the group's
+ * own effects, opacity and blend mode apply. The group's box is derived:
+ * it always equals the bounds of its children (see `syncGroupBounds`).
+ */
+export interface GroupContent {
+  type: 'group';
+  /** Bottom-first, like `DocumentModel.layers`. */
+  children: Layer[];
+}
+
+/**
+ * No pixels of its own: the layer's effects run on the composite of the
+ * layers below it in the same container, and the result lands inside the
+ * layer box (and mask) with the layer's opacity and blend mode. New
+ * adjustment layers cover the document.
+ */
+export interface AdjustmentContent {
+  type: 'adjustment';
+}
+
+export type LayerContent = ImageContent | TextContent | ShapeContent | GroupContent | AdjustmentContent;
+
+interface MaskBase {
+  enabled: boolean;
+  /** Hide where the mask is white instead of where it is black. */
+  inverted: boolean;
+}
+
+/**
+ * Painted mask stored as coverage in the canvas alpha channel (opaque =
+ * visible), stretched over the layer's unflipped content. The canvas is
+ * copy-on-write: each brush stroke paints into a fresh copy so history
+ * snapshots can keep the previous one by reference.
+ */
+export interface RasterMask extends MaskBase {
+  type: 'raster';
+  canvas: HTMLCanvasElement;
+  /** Bumped on every dab so caches keyed on the mask notice live painting. */
+  version: number;
+}
+
+export interface GradientMask extends MaskBase {
+  type: 'gradient';
+  kind: 'linear' | 'radial';
+  /** Direction of a linear fade in degrees (0 = left to right). */
+  angle: number;
+  /** Fade start/end along the gradient axis (or radius), 0–1 of the layer box. */
+  start: number;
+  end: number;
+}
+
+export interface ShapeMask extends MaskBase {
+  type: 'shape';
+  shape: 'rectangle' | 'ellipse';
+  /** Margin on each side as a fraction of the layer box, 0–0.5. */
+  inset: number;
+  /** Edge softness in document pixels. */
+  feather: number;
+}
+
+export type LayerMask = RasterMask | GradientMask | ShapeMask;
 
 import type { LayerEffect } from '../effects/Effect';
+import type { LayerKeyframes } from './Animation';
 export type { LayerEffect };
 
 export class Layer {
@@ -23,11 +136,22 @@ export class Layer {
   content: LayerContent;
   effects: LayerEffect[] = [];
   effectCacheKey = '';
+  mask: LayerMask | null = null;
+  keyframes: LayerKeyframes = {};
+  /**
+   * Clipping mask: show this layer only where the nearest unclipped layer
+   * below it (in the same container) is opaque.
+   */
+  clipToBelow = false;
 
   x = 0;
   y = 0;
   width = 0;
   height = 0;
+  /** Clockwise rotation in degrees around the box center. */
+  rotation = 0;
+  flipX = false;
+  flipY = false;
 
   constructor(name: string, content: LayerContent, id: string = crypto.randomUUID()) {
     this.id = id;
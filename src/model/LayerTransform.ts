@@ -0,0 +1,158 @@
+import type { Layer } from './Layer';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** A possibly rotated box: a layer, or a stand-in such as a selection's bounds. */
+export type TransformBox = Pick<Layer, 'x' | 'y' | 'width' | 'height' | 'rotation'>;
+
+export function layerCenter(layer: TransformBox): Point {
+  return { x: layer.x + layer.width / 2, y: layer.y + layer.height / 2 };
+}
+
+export function rotateVector(x: number, y: number, degrees: number): Point {
+  const rad = (degrees * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return { x: x * cos - y * sin, y: x * sin + y * cos };
+}
+
+/** Maps a document point into the layer's unrotated box frame (same origin as `layer.x/y`). */
+export function toLayerFrame(layer: TransformBox, x: number, y: number): Point {
+  const center = layerCenter(layer);
+  const local = rotateVector(x - center.x, y - center.y, -layer.rotation);
+  return { x: center.x + local.x, y: center.y + local.y };
+}
+
+/** Inverse of `toLayerFrame`. */
+export function fromLayerFrame(layer: TransformBox, x: number, y: number): Point {
+  const center = layerCenter(layer);
+  const world = rotateVector(x - center.x, y - center.y, layer.rotation);
+  return { x: center.x + world.x, y: center.y + world.y };
+}
+
+export type ResizeHandle = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w';
+
+/** Corner and edge-midpoint handle positions in the layer's unrotated frame. */
+export function resizeHandlePoints(layer: TransformBox): Array<[ResizeHandle, number, number]> {
+  const { x, y, width, height } = layer;
+  const cx = x + width / 2;
+  const cy = y + height / 2;
+  return [
+    ['nw', x, y], ['n', cx, y], ['ne', x + width, y], ['e', x + width, cy],
+    ['se', x + width, y + height], ['s', cx, y + height], ['sw', x, y + height], ['w', x, cy]
+  ];
+}
+
+/** Ratio a locked resize preserves: the source pixels' for images, otherwise the given box's. */
+export function lockedAspectRatio(layer: Pick<Layer, 'content'>, width: number, height: number): number {
+  if (layer.content.type === 'image') return layer.content.naturalWidth / layer.content.naturalHeight;
+  return width / height;
+}
+
+export interface ResizeOptions {
+  /** Width/height ratio to hold, or null for free resizing. */
+  aspect: number | null;
+  fromCenter: boolean;
+  minSize: number;
+}
+
+/**
+ * Resizes `origin` by dragging `handle` by (`dx`, `dy`) document units. The
+ * drag is measured in the box's rotated frame and the opposite corner or
+ * edge (or the center, with `fromCenter`) stays fixed in document space.
+ */
+export function resizeBox(origin: TransformBox, handle: ResizeHandle, dx: number, dy: number, options: ResizeOptions): Rect {
+  const local = rotateVector(dx, dy, -origin.rotation);
+  const factor = options.fromCenter ? 2 : 1;
+  const { minSize } = options;
+  const horizontal = handle.includes('e') || handle.includes('w');
+  const vertical = handle.includes('n') || handle.includes('s');
+  let width = origin.width;
+  let height = origin.height;
+  if (handle.includes('e')) width = origin.width + local.x * factor;
+  if (handle.includes('w')) width = origin.width - local.x * factor;
+  if (handle.includes('s')) height = origin.height + local.y * factor;
+  if (handle.includes('n')) height = origin.height - local.y * factor;
+
+  if (options.aspect) {
+    // Corners follow whichever axis moved further; edges drive the other axis.
+    const widthLeads = horizontal && (!vertical || Math.abs(width / origin.width - 1) >= Math.abs(height / origin.height - 1));
+    if (widthLeads) height = width / options.aspect;
+    else width = height * options.aspect;
+    const grow = Math.max(1, minSize / width, minSize / height);
+    width *= grow;
+    height *= grow;
+  } else {
+    width = Math.max(minSize, width);
+    height = Math.max(minSize, height);
+  }
+
+  const anchorU = options.fromCenter ? 0.5 : handle.includes('w') ? 1 : handle.includes('e') ? 0 : 0.5;
+  const anchorV = options.fromCenter ? 0.5 : handle.includes('n') ? 1 : handle.includes('s') ? 0 : 0.5;
+  const anchor = fromLayerFrame(origin, origin.x + anchorU * origin.width, origin.y + anchorV * origin.height);
+  const toCenter = rotateVector((0.5 - anchorU) * width, (0.5 - anchorV) * height, origin.rotation);
+  return { x: anchor.x + toCenter.x - width / 2, y: anchor.y + toCenter.y - height / 2, width, height };
+}
+
+/** Axis-aligned document-space bounds of the layer's rotated box. */
+export function layerBounds(layer: TransformBox): Rect {
+  const corners = [
+    fromLayerFrame(layer, layer.x, layer.y),
+    fromLayerFrame(layer, layer.x + layer.width, layer.y),
+    fromLayerFrame(layer, layer.x, layer.y + layer.height),
+    fromLayerFrame(layer, layer.x + layer.width, layer.y + layer.height)
+  ];
+  const xs = corners.map((point) => point.x);
+  const ys = corners.map((point) => point.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/** Union of `layerBounds` over `layers`, or null when empty. */
+export function selectionBounds(layers: TransformBox[]): Rect | null {
+  if (layers.length === 0) return null;
+  const bounds = layers.map(layerBounds);
+  const x = Math.min(...bounds.map((rect) => rect.x));
+  const y = Math.min(...bounds.map((rect) => rect.y));
+  const right = Math.max(...bounds.map((rect) => rect.x + rect.width));
+  const bottom = Math.max(...bounds.map((rect) => rect.y + rect.height));
+  return { x, y, width: right - x, height: bottom - y };
+}
+
+export function rectsIntersect(a: Rect, b: Rect): boolean {
+  return a.x <= b.x + b.width && b.x <= a.x + a.width && a.y <= b.y + b.height && b.y <= a.y + a.height;
+}
+
+export function containsPoint(layer: TransformBox, x: number, y: number): boolean {
+  const local = toLayerFrame(layer, x, y);
+  return local.x >= layer.x && local.x <= layer.x + layer.width && local.y >= layer.y && local.y <= layer.y + layer.height;
+}
+
+export function normalizeRotation(degrees: number): number {
+  const wrapped = ((degrees % 360) + 540) % 360 - 180;
+  return Object.is(wrapped, -0) ? 0 : wrapped;
+}
+
+export function hasTransform(layer: Pick<Layer, 'rotation' | 'flipX' | 'flipY'>): boolean {
+  return layer.rotation !== 0 || layer.flipX || layer.flipY;
+}
+
+/** Sets up `ctx` so drawing the layer's unrotated box lands rotated/flipped around its center. */
+export function applyLayerTransform(ctx: CanvasRenderingContext2D, layer: Pick<Layer, 'x' | 'y' | 'width' | 'height' | 'rotation' | 'flipX' | 'flipY'>): void {
+  const center = layerCenter(layer);
+  ctx.translate(center.x, center.y);
+  ctx.rotate((layer.rotation * Math.PI) / 180);
+  ctx.scale(layer.flipX ? -1 : 1, layer.flipY ? -1 : 1);
+  ctx.translate(-center.x, -center.y);
+}
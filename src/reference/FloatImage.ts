@@ -0,0 +1,112 @@
+/**
+ * Interleaved RGB float image, values nominally in [0, 1] (PLAN appendix
+ * §2). Pure data: nothing here touches the DOM, so it runs under Node.
+ */
+export interface FloatImage {
+  width: number;
+  height: number;
+  /** `width * height * 3` floats, row-major, top row first. */
+  data: Float32Array;
+}
+
+/** Single-channel companion of `FloatImage` for masks and gray maps. */
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+export function createImage(width: number, height: number): FloatImage {
+  return { width, height, data: new Float32Array(width * height * 3) };
+}
+
+export function createGray(width: number, height: number): GrayImage {
+  return { width, height, data: new Float32Array(width * height) };
+}
+
+export function cloneImage(image: FloatImage): FloatImage {
+  return { width: image.width, height: image.height, data: new Float32Array(image.data) };
+}
+
+export function clip(x: number, a = 0, b = 1): number {
+  return Math.min(Math.max(x, a), b);
+}
+
+export function mix(a: number, b: number, t: number): number {
+  return a * (1 - t) + b * t;
+}
+
+/** Rec.709 luma. */
+export function luma(r: number, g: number, b: number): number {
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+export function lumaMap(image: FloatImage): GrayImage {
+  const out = createGray(image.width, image.height);
+  const { data } = image;
+  for (let i = 0; i < out.data.length; i++) {
+    out.data[i] = luma(data[i * 3], data[i * 3 + 1], data[i * 3 + 2]);
+  }
+  return out;
+}
+
+/** HSV per §13: hue in [0, 1), achromatic pixels get hue 0. */
+export function rgbToHsv(r: number, g: number, b: number): [number, number, number] {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+  let h = 0;
+  if (delta > 0) {
+    if (max === r) h = (g - b) / delta;
+    else if (max === g) h = 2 + (b - r) / delta;
+    else h = 4 + (r - g) / delta;
+    h = fract(h / 6);
+  }
+  return [h, max > 0 ? delta / max : 0, max];
+}
+
+export function hsvToRgb(h: number, s: number, v: number): [number, number, number] {
+  if (s <= 0) return [v, v, v];
+  const h6 = fract(h) * 6;
+  const i = Math.floor(h6);
+  const f = h6 - i;
+  const p = v * (1 - s);
+  const q = v * (1 - s * f);
+  const t = v * (1 - s * (1 - f));
+  switch (i % 6) {
+    case 0: return [v, t, p];
+    case 1: return [q, v, p];
+    case 2: return [p, v, t];
+    case 3: return [p, q, v];
+    case 4: return [t, p, v];
+    default: return [v, p, q];
+  }
+}
+
+/** `x mod 1` into [0, 1), also for negative `x`. */
+export function fract(x: number): number {
+  return x - Math.floor(x);
+}
+
+/** Reads RGBA8 pixels (e.g. `ImageData.data`), dropping alpha. */
+export function fromRGBA8(rgba: ArrayLike<number>, width: number, height: number): FloatImage {
+  const image = createImage(width, height);
+  for (let i = 0; i < width * height; i++) {
+    image.data[i * 3] = rgba[i * 4] / 255;
+    image.data[i * 3 + 1] = rgba[i * 4 + 1] / 255;
+    image.data[i * 3 + 2] = rgba[i * 4 + 2] / 255;
+  }
+  return image;
+}
+
+/** §13 final quantization, with opaque alpha. */
+export function toRGBA8(image: FloatImage): Uint8ClampedArray {
+  const out = new Uint8ClampedArray(image.width * image.height * 4);
+  for (let i = 0; i < image.width * image.height; i++) {
+    out[i * 4] = Math.round(clip(image.data[i * 3]) * 255);
+    out[i * 4 + 1] = Math.round(clip(image.data[i * 3 + 1]) * 255);
+    out[i * 4 + 2] = Math.round(clip(image.data[i * 3 + 2]) * 255);
+    out[i * 4 + 3] = 255;
+  }
+  return out;
+}
@@ -0,0 +1,115 @@
+import type { BlendMode } from '../model/Layer';
+import type { FloatImage, GrayImage } from './FloatImage';
+import { clip, createImage, hsvToRgb, luma, rgbToHsv } from './FloatImage';
+
+type RGB = [number, number, number];
+
+const EPS = 1e-6;
+
+export interface ReferenceLayer {
+  image: FloatImage;
+  /** Per-pixel coverage, folded into `opacity` the way the GPU blender does. */
+  alpha?: GrayImage;
+  opacity: number;
+  blendMode: BlendMode;
+  visible?: boolean;
+}
+
+function colorBurn(b: number, t: number): number {
+  return t <= EPS ? 0 : 1 - clip((1 - b) / (t + EPS));
+}
+
+function colorDodge(b: number, t: number): number {
+  return t >= 1 - EPS ? 1 : clip(b / (1 - t + EPS));
+}
+
+function vividLight(b: number, t: number): number {
+  return t <= 0.5 ? colorBurn(b, 2 * t) : colorDodge(b, 2 * (t - 0.5));
+}
+
+function channelBlend(mode: BlendMode, b: number, t: number): number {
+  switch (mode) {
+    case 'source-over': return t;
+    case 'darken': return Math.min(b, t);
+    case 'multiply': return b * t;
+    case 'color-burn': return colorBurn(b, t);
+    case 'linear-burn': return clip(b + t - 1);
+    case 'lighten': return Math.max(b, t);
+    case 'screen': return 1 - (1 - b) * (1 - t);
+    case 'color-dodge': return colorDodge(b, t);
+    case 'linear-dodge': return clip(b + t);
+    case 'overlay': return b <= 0.5 ? 2 * b * t : 1 - 2 * (1 - b) * (1 - t);
+    case 'soft-light': return clip((1 - 2 * t) * b * b + 2 * t * b);
+    case 'hard-light': return t <= 0.5 ? 2 * b * t : 1 - 2 * (1 - b) * (1 - t);
+    case 'vivid-light': return vividLight(b, t);
+    case 'linear-light': return clip(b + 2 * t - 1);
+    case 'pin-light': return t <= 0.5 ? Math.min(b, 2 * t) : Math.max(b, 2 * (t - 0.5));
+    case 'hard-mix': return vividLight(b, t) < 0.5 ? 0 : 1;
+    case 'difference': return Math.abs(b - t);
+    case 'exclusion': return b + t - 2 * b * t;
+    case 'subtract': return clip(b - t);
+    case 'divide': return clip(b / (t + EPS));
+    default: throw new Error(`No PLAN §12 equation for blend mode "${mode}"`);
+  }
+}
+
+/** PLAN §12 `BlendMode(B, T)` for one pixel. */
+export function blendPixel(mode: BlendMode, b: RGB, t: RGB): RGB {
+  switch (mode) {
+    case 'darker-color': return luma(...t) < luma(...b) ? t : b;
+    case 'lighter-color': return luma(...t) > luma(...b) ? t : b;
+    case 'hue':
+    case 'saturation':
+    case 'color':
+    case 'luminosity': {
+      const hb = rgbToHsv(...b);
+      const ht = rgbToHsv(...t);
+      if (mode === 'hue') return hsvToRgb(ht[0], hb[1], hb[2]);
+      if (mode === 'saturation') return hsvToRgb(hb[0], ht[1], hb[2]);
+      if (mode === 'color') return hsvToRgb(ht[0], ht[1], hb[2]);
+      return hsvToRgb(hb[0], hb[1], ht[2]);
+    }
+    default:
+      return [channelBlend(mode, b[0], t[0]), channelBlend(mode, b[1], t[1]), channelBlend(mode, b[2], t[2])];
+  }
+}
+
+/**
+ * PLAN §11: folds `layers` (bottom first) from C0 = 0, A0 = 0 and returns
+ * the composite over white. Every layer must match the first one's size.
+ */
+export function compositeLayers(layers: ReferenceLayer[]): FloatImage {
+  const first = layers[0];
+  if (!first) throw new Error('Nothing to composite');
+  const { width, height } = first.image;
+  const count = width * height;
+  const color = new Float64Array(count * 3);
+  const coverage = new Float64Array(count);
+
+  for (const layer of layers) {
+    if (layer.visible === false || layer.opacity <= 0) continue;
+    if (layer.image.width !== width || layer.image.height !== height) {
+      throw new Error('Reference layers must share one size');
+    }
+    const { data } = layer.image;
+    for (let i = 0; i < count; i++) {
+      const alpha = layer.opacity * (layer.alpha ? layer.alpha.data[i] : 1);
+      if (alpha <= 0) continue;
+      const backdrop: RGB = [color[i * 3], color[i * 3 + 1], color[i * 3 + 2]];
+      const blended = blendPixel(layer.blendMode, backdrop, [data[i * 3], data[i * 3 + 1], data[i * 3 + 2]]);
+      const previous = coverage[i];
+      const next = alpha + previous * (1 - alpha);
+      coverage[i] = next;
+      for (let c = 0; c < 3; c++) {
+        const numerator = backdrop[c] * previous * (1 - alpha) + blended[c] * alpha;
+        color[i * 3 + c] = next > EPS ? numerator / next : 0;
+      }
+    }
+  }
+
+  const out = createImage(width, height);
+  for (let i = 0; i < count; i++) {
+    for (let c = 0; c < 3; c++) out.data[i * 3 + c] = clip(color[i * 3 + c] * coverage[i] + (1 - coverage[i]));
+  }
+  return out;
+}
@@ -0,0 +1,63 @@
+import type { FloatImage, GrayImage } from './FloatImage';
+
+/**
+ * Normalized 1D kernel with sigma = `radius` and taps out to ±ceil(3σ),
+ * the same kernel the blur shaders build.
+ */
+function gaussianKernel(radius: number): Float64Array {
+  const taps = Math.ceil(radius * 3);
+  const kernel = new Float64Array(taps * 2 + 1);
+  let total = 0;
+  for (let i = -taps; i <= taps; i++) {
+    const w = Math.exp(-(i * i) / (2 * radius * radius));
+    kernel[i + taps] = w;
+    total += w;
+  }
+  for (let i = 0; i < kernel.length; i++) kernel[i] /= total;
+  return kernel;
+}
+
+/** Separable blur of `channels`-interleaved data with edge replication. */
+function blurChannels(data: Float32Array, width: number, height: number, channels: number, radius: number): Float32Array {
+  if (radius <= 0) return new Float32Array(data);
+  const kernel = gaussianKernel(radius);
+  const taps = (kernel.length - 1) / 2;
+  const horizontal = new Float32Array(data.length);
+  const out = new Float32Array(data.length);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < channels; c++) {
+        let acc = 0;
+        for (let i = -taps; i <= taps; i++) {
+          const sx = Math.min(Math.max(x + i, 0), width - 1);
+          acc += data[(y * width + sx) * channels + c] * kernel[i + taps];
+        }
+        horizontal[(y * width + x) * channels + c] = acc;
+      }
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < channels; c++) {
+        let acc = 0;
+        for (let i = -taps; i <= taps; i++) {
+          const sy = Math.min(Math.max(y + i, 0), height - 1);
+          acc += horizontal[(sy * width + x) * channels + c] * kernel[i + taps];
+        }
+        out[(y * width + x) * channels + c] = acc;
+      }
+    }
+  }
+  return out;
+}
+
+/** `GaussianBlur(I, radius)` of the appendix; identity for radius <= 0. */
+export function gaussianBlur(image: FloatImage, radius: number): FloatImage {
+  return { width: image.width, height: image.height, data: blurChannels(image.data, image.width, image.height, 3, radius) };
+}
+
+/** `GaussianBlurGray(M, radius)` of the appendix. */
+export function gaussianBlurGray(image: GrayImage, radius: number): GrayImage {
+  return { width: image.width, height: image.height, data: blurChannels(image.data, image.width, image.height, 1, radius) };
+}
@@ -0,0 +1,40 @@
+import type { FloatImage } from './FloatImage';
+import type {
+  GlowParams,
+  GrainParams,
+  HazeParams,
+  IridescenceParams,
+  PrismParams,
+  SoftnessParams,
+  ToneParams
+} from './stages';
+import { bloom, grain, halation, haze, iridescence, prism, softness, tone } from './stages';
+
+/** Stage settings for `applyPhotoEffect`; an omitted stage is identity. */
+export interface PhotoEffectParams {
+  softness?: SoftnessParams;
+  bloom?: GlowParams;
+  halation?: GlowParams;
+  haze?: HazeParams;
+  prism?: PrismParams;
+  iridescence?: IridescenceParams;
+  tone?: ToneParams;
+  grain?: GrainParams;
+}
+
+/**
+ * PLAN appendix `apply_photo_effect`: runs the enabled stages in the §4
+ * order, Softness → Glow → Color FX → Tone → Grain.
+ */
+export function applyPhotoEffect(image: FloatImage, params: PhotoEffectParams): FloatImage {
+  let out = image;
+  if (params.softness) out = softness(out, params.softness);
+  if (params.bloom) out = bloom(out, params.bloom);
+  if (params.halation) out = halation(out, params.halation);
+  if (params.haze) out = haze(out, params.haze);
+  if (params.prism) out = prism(out, params.prism);
+  if (params.iridescence) out = iridescence(out, params.iridescence);
+  if (params.tone) out = tone(out, params.tone);
+  if (params.grain) out = grain(out, params.grain);
+  return out;
+}
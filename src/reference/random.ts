@@ -0,0 +1,43 @@
+/**
+ * Seeded zero-mean Gaussian source for the grain stage (PLAN appendix
+ * §10, §13.3): mulberry32 uniforms through Box-Muller. The same seed
+ * always yields the same sequence, on any platform.
+ */
+export class GaussianRandom {
+  private state: number;
+  private spare: number | null = null;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /** Uniform in [0, 1). */
+  uniform(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Sample of N(0, sigma). */
+  gaussian(sigma = 1): number {
+    if (this.spare !== null) {
+      const value = this.spare;
+      this.spare = null;
+      return value * sigma;
+    }
+    const u1 = Math.max(this.uniform(), 1e-12);
+    const u2 = this.uniform();
+    const magnitude = Math.sqrt(-2 * Math.log(u1));
+    this.spare = magnitude * Math.sin(2 * Math.PI * u2);
+    return magnitude * Math.cos(2 * Math.PI * u2) * sigma;
+  }
+
+  /** `count` independent N(0, sigma) samples. */
+  fill(count: number, sigma: number): Float32Array {
+    const out = new Float32Array(count);
+    for (let i = 0; i < count; i++) out[i] = this.gaussian(sigma);
+    return out;
+  }
+}
@@ -0,0 +1,352 @@
+import type { FloatImage, GrayImage } from './FloatImage';
+import { clip, createGray, createImage, fract, hsvToRgb, lumaMap, mix, rgbToHsv } from './FloatImage';
+import { gaussianBlur, gaussianBlurGray } from './gaussian';
+import { GaussianRandom } from './random';
+
+// Parameter names follow the matching effect definitions in src/effects,
+// so a layer effect's values can be passed straight through.
+
+export interface SoftnessParams {
+  radius: number;
+  mix: number;
+}
+
+export interface GlowParams {
+  threshold: number;
+  radius: number;
+  strength: number;
+}
+
+export interface HazeParams {
+  radius: number;
+  strength: number;
+}
+
+export interface PrismParams {
+  /** Pixels; rounded, since §8.1 shifts by whole-pixel indexing. */
+  shift: number;
+  mix: number;
+  /** `bloom_threshold`, which drives the shared §6 highlight mask. */
+  threshold: number;
+}
+
+export interface IridescenceParams {
+  amount: number;
+  hueShift: number;
+  edgeBias: number;
+  satBoost: number;
+  softness: number;
+  lumaCenter: number;
+  lumaRange: number;
+  /** `grain_seed`, the dither source. */
+  seed: number;
+}
+
+export interface ToneParams {
+  temperature: number;
+  tint: number;
+  saturation: number;
+  vibrance: number;
+  highlightRolloff: number;
+  brightness: number;
+  contrast: number;
+  fade: number;
+}
+
+export type GrainMode = 'fine-mono' | 'color-speckle' | 'soft-chroma' | 'coarse-film';
+
+export interface GrainParams {
+  amount: number;
+  size: number;
+  seed: number;
+  mode: GrainMode;
+}
+
+function mapPixels(image: FloatImage, fn: (r: number, g: number, b: number, index: number) => [number, number, number]): FloatImage {
+  const out = createImage(image.width, image.height);
+  const { data } = image;
+  for (let i = 0; i < image.width * image.height; i++) {
+    const [r, g, b] = fn(data[i * 3], data[i * 3 + 1], data[i * 3 + 2], i);
+    out.data[i * 3] = r;
+    out.data[i * 3 + 1] = g;
+    out.data[i * 3 + 2] = b;
+  }
+  return out;
+}
+
+function multiplyMask(image: FloatImage, mask: GrayImage): FloatImage {
+  return mapPixels(image, (r, g, b, i) => [r * mask.data[i], g * mask.data[i], b * mask.data[i]]);
+}
+
+/** §5. */
+export function softness(image: FloatImage, params: SoftnessParams): FloatImage {
+  const blurred = gaussianBlur(image, params.radius);
+  const t = clip(params.mix);
+  return mapPixels(image, (r, g, b, i) => [
+    mix(r, blurred.data[i * 3], t),
+    mix(g, blurred.data[i * 3 + 1], t),
+    mix(b, blurred.data[i * 3 + 2], t)
+  ]);
+}
+
+/** §6 `M_b`, also used for the halation mask `M_h`. */
+export function highlightMask(image: FloatImage, threshold: number): GrayImage {
+  const mask = lumaMap(image);
+  const range = Math.max(1e-5, 1 - threshold);
+  for (let i = 0; i < mask.data.length; i++) mask.data[i] = clip((mask.data[i] - threshold) / range);
+  return mask;
+}
+
+/** Shared shape of §7.1 and §7.2: add a tinted blur of the highlights. */
+function glow(image: FloatImage, params: GlowParams, tint: [number, number, number]): FloatImage {
+  const blurred = gaussianBlur(multiplyMask(image, highlightMask(image, params.threshold)), params.radius);
+  const s = params.strength;
+  return mapPixels(image, (r, g, b, i) => [
+    clip(r + s * blurred.data[i * 3] * tint[0]),
+    clip(g + s * blurred.data[i * 3 + 1] * tint[1]),
+    clip(b + s * blurred.data[i * 3 + 2] * tint[2])
+  ]);
+}
+
+/** §7.1. */
+export function bloom(image: FloatImage, params: GlowParams): FloatImage {
+  return glow(image, params, [1, 1, 1]);
+}
+
+/** §7.2, with the warm tint `c_h`. */
+export function halation(image: FloatImage, params: GlowParams): FloatImage {
+  return glow(image, params, [1, 0.58, 0.32]);
+}
+
+/** §7.3. */
+export function haze(image: FloatImage, params: HazeParams): FloatImage {
+  if (params.strength <= 0 || params.radius <= 0) return image;
+  const blurred = gaussianBlur(image, params.radius);
+  const screen = (a: number, b: number) => 1 - (1 - a) * (1 - b);
+  return mapPixels(image, (r, g, b, i) => [
+    mix(r, screen(r, blurred.data[i * 3]), params.strength),
+    mix(g, screen(g, blurred.data[i * 3 + 1]), params.strength),
+    mix(b, screen(b, blurred.data[i * 3 + 2]), params.strength)
+  ]);
+}
+
+/**
+ * §8.1. Red samples from (x - Δ, y - Δ), so its content moves by (+Δ, +Δ)
+ * with y pointing down; blue moves the opposite way.
+ */
+export function prism(image: FloatImage, params: PrismParams): FloatImage {
+  if (params.shift <= 0 || params.mix <= 0) return image;
+  const { width, height, data } = image;
+  const delta = Math.round(params.shift);
+  const mask = highlightMask(image, params.threshold);
+  const at = (x: number, y: number, c: number) => {
+    const sx = Math.min(Math.max(x, 0), width - 1);
+    const sy = Math.min(Math.max(y, 0), height - 1);
+    return data[(sy * width + sx) * 3 + c];
+  };
+  return mapPixels(image, (r, g, b, i) => {
+    const x = i % width;
+    const y = Math.floor(i / width);
+    const t = params.mix * (0.2 + 0.8 * mask.data[i]);
+    return [
+      clip(r * (1 - t) + at(x - delta, y - delta, 0) * t),
+      clip(g),
+      clip(b * (1 - t) + at(x + delta, y + delta, 2) * t)
+    ];
+  });
+}
+
+/** 98th percentile with linear interpolation between order statistics. */
+function percentile98(values: Float32Array): number {
+  const sorted = Float64Array.from(values).sort();
+  if (sorted.length === 0) return 0;
+  const rank = 0.98 * (sorted.length - 1);
+  const lo = Math.floor(rank);
+  const hi = Math.min(lo + 1, sorted.length - 1);
+  return mix(sorted[lo], sorted[hi], rank - lo);
+}
+
+/** §8.2.1: normalized, softened edge activity `E`. */
+function edgeActivity(Y: GrayImage, softnessRadius: number): GrayImage {
+  const { width, height } = Y;
+  const edges = createGray(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const gx = x < width - 1 ? Math.abs(Y.data[i + 1] - Y.data[i]) : 0;
+      const gy = y < height - 1 ? Math.abs(Y.data[i + width] - Y.data[i]) : 0;
+      edges.data[i] = Math.sqrt(gx * gx + gy * gy);
+    }
+  }
+  const p98 = percentile98(edges.data);
+  for (let i = 0; i < edges.data.length; i++) edges.data[i] = p98 <= 1e-6 ? 0 : clip(edges.data[i] / p98);
+  return gaussianBlurGray(edges, 0.35 * softnessRadius);
+}
+
+/** §8.2.4 dither map, evaluated in float64 at integer pixel coordinates. */
+export function iridescenceDither(x: number, y: number, seed: number): number {
+  return fract(Math.sin(12.9898 * x + 78.233 * y + 0.137 * (seed + 911)) * 43758.5453) - 0.5;
+}
+
+/** §8.2. */
+export function iridescence(image: FloatImage, params: IridescenceParams): FloatImage {
+  if (params.amount <= 0) return image;
+  const { width, height } = image;
+  const count = width * height;
+  const Y = lumaMap(image);
+  const E = edgeActivity(Y, params.softness);
+  const ambient = gaussianBlur(image, Math.max(1.5, 1.6 * params.softness));
+
+  const hsv = new Float32Array(count * 3);
+  const ambientHue = new Float32Array(count);
+  const S0 = new Float32Array(count);
+  const weight = createGray(width, height);
+  const center = params.lumaCenter;
+  const range = Math.max(0.05, params.lumaRange);
+  const beta = clip(params.edgeBias);
+
+  // §8.2.2–8.2.3: gates and the raw effect weight W.
+  for (let i = 0; i < count; i++) {
+    const [h, s, v] = rgbToHsv(image.data[i * 3], image.data[i * 3 + 1], image.data[i * 3 + 2]);
+    const [ha, sa] = rgbToHsv(ambient.data[i * 3], ambient.data[i * 3 + 1], ambient.data[i * 3 + 2]);
+    hsv[i * 3] = h;
+    hsv[i * 3 + 1] = s;
+    hsv[i * 3 + 2] = v;
+    ambientHue[i] = ha;
+
+    const y = Y.data[i];
+    const gMid = clip(1 - Math.abs(y - center) / range);
+    const gHi = clip((y - 0.42) / 0.35) * clip((0.995 - y) / 0.18);
+    const gL = Math.max(gMid, 0.9 * gHi);
+    const gW = clip((0.995 - y) / 0.2);
+    S0[i] = clip(Math.max(s, 0.9 * sa));
+    const gS = clip(0.15 + 1.05 * S0[i]);
+    const nB = clip((0.28 - s) / 0.28);
+    const e = E.data[i];
+    const r = clip(beta * e + (1 - beta) * gS + nB * (0.25 + 0.45 * e));
+    weight.data[i] = clip(r * gL * gW);
+  }
+  const W = params.softness > 0 ? gaussianBlurGray(weight, params.softness) : weight;
+
+  // §8.2.4: hue remap, dither and the blend mask M.
+  const amount = clip(params.amount);
+  const remapped = createImage(width, height);
+  const blendMask = createGray(width, height);
+  for (let i = 0; i < count; i++) {
+    const h = hsv[i * 3];
+    const s = hsv[i * 3 + 1];
+    const v = hsv[i * 3 + 2];
+    const y = Y.data[i];
+    const e = E.data[i];
+    const ef = amount * W.data[i];
+
+    const nH = clip((0.24 - s) / 0.24);
+    const hS = fract((1 - nH) * h + nH * ambientHue[i]);
+    const phi = fract(hS + 0.18 * y + 0.22 * e);
+    const hT = fract(
+      hS + params.hueShift
+      + 0.14 * Math.sin(2 * Math.PI * (1.8 * phi + 0.65 * e))
+      + 0.04 * Math.sin(2 * Math.PI * (4.2 * phi + 1.2 * y))
+    );
+    const dH = fract(hT - hS + 0.5) - 0.5;
+    const d = iridescenceDither(i % width, Math.floor(i / width), params.seed);
+    const hP = fract(hS + dH * ef + d * (0.001 + 0.0022 * ef));
+
+    const q = 1 - Math.exp(-clip(1.1 * params.satBoost * ef, 0, 12));
+    const sP = clip(clip(S0[i] + q * (0.18 + 0.68 * (1 - S0[i]))) + d * (0.012 * ef));
+    const vP = clip(v * (1 + 0.07 * ef) + 0.014 * ef);
+
+    const [r, g, b] = hsvToRgb(hP, sP, vP);
+    remapped.data[i * 3] = r;
+    remapped.data[i * 3 + 1] = g;
+    remapped.data[i * 3 + 2] = b;
+    blendMask.data[i] = clip(ef * (0.55 + 0.45 * (1 - s)));
+  }
+  const M = gaussianBlurGray(blendMask, Math.max(0.3, 0.22 * params.softness));
+
+  return mapPixels(image, (r, g, b, i) => {
+    const m = M.data[i];
+    return [
+      clip(r * (1 - m) + remapped.data[i * 3] * m),
+      clip(g * (1 - m) + remapped.data[i * 3 + 1] * m),
+      clip(b * (1 - m) + remapped.data[i * 3 + 2] * m)
+    ];
+  });
+}
+
+/** §9.1–9.4, in order. */
+export function tone(image: FloatImage, params: ToneParams): FloatImage {
+  const t = clip(params.temperature, -1, 1);
+  const m = clip(params.tint, -1, 1);
+  const gains = [1 + 0.18 * t + 0.05 * m, 1 - 0.08 * Math.abs(t) - 0.1 * m, 1 - 0.18 * t + 0.05 * m];
+  const vb = params.vibrance - 1;
+  const pivot = 0.72;
+  const rolloff = (x: number) => (
+    params.highlightRolloff > 0 && x > pivot ? pivot + (x - pivot) / (1 + 2.4 * params.highlightRolloff) : x
+  );
+  const global = (x: number) => {
+    const bright = clip(x * params.brightness);
+    const contrasted = clip((bright - 0.5) * params.contrast + 0.5);
+    return clip(contrasted * (1 - params.fade) + 0.08 * params.fade);
+  };
+
+  return mapPixels(image, (r, g, b) => {
+    const [h, s0, v] = rgbToHsv(clip(r * gains[0]), clip(g * gains[1]), clip(b * gains[2]));
+    let s = clip(s0 * params.saturation);
+    s = vb >= 0 ? clip(s + (1 - s) * 0.75 * vb) : clip(s * (1 + 0.65 * vb));
+    const rgb = hsvToRgb(h, s, v);
+    return [global(rolloff(rgb[0])), global(rolloff(rgb[1])), global(rolloff(rgb[2]))];
+  });
+}
+
+/** §10. Identical inputs and seed always produce identical noise. */
+export function grain(image: FloatImage, params: GrainParams): FloatImage {
+  if (params.amount <= 0) return image;
+  const { width, height } = image;
+  const count = width * height;
+  const a = params.amount;
+  const k = Math.max(1, params.size);
+  const random = new GaussianRandom(params.seed);
+  const noise = new Float32Array(count * 3);
+
+  switch (params.mode) {
+    case 'fine-mono': {
+      const n = random.fill(count, a);
+      for (let i = 0; i < count; i++) noise.fill(n[i], i * 3, i * 3 + 3);
+      break;
+    }
+    case 'color-speckle':
+      noise.set(random.fill(count * 3, a));
+      break;
+    case 'soft-chroma': {
+      const raw = { width, height, data: random.fill(count * 3, 1.35 * a) };
+      const blurred = gaussianBlur(raw, Math.max(0.4, 0.7 * k)).data;
+      for (let i = 0; i < count; i++) {
+        const mean = (blurred[i * 3] + blurred[i * 3 + 1] + blurred[i * 3 + 2]) / 3;
+        for (let c = 0; c < 3; c++) noise[i * 3 + c] = blurred[i * 3 + c] - mean;
+      }
+      break;
+    }
+    case 'coarse-film': {
+      const hs = Math.max(1, Math.round(height / k));
+      const ws = Math.max(1, Math.round(width / k));
+      const low = random.fill(hs * ws, 1.2 * a);
+      for (let y = 0; y < height; y++) {
+        const sy = Math.min(hs - 1, Math.floor((y * hs) / height));
+        for (let x = 0; x < width; x++) {
+          const sx = Math.min(ws - 1, Math.floor((x * ws) / width));
+          const i = y * width + x;
+          noise.fill(low[sy * ws + sx], i * 3, i * 3 + 3);
+        }
+      }
+      break;
+    }
+  }
+
+  return mapPixels(image, (r, g, b, i) => [
+    clip(r + noise[i * 3]),
+    clip(g + noise[i * 3 + 1]),
+    clip(b + noise[i * 3 + 2])
+  ]);
+}
+
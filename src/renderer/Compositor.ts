@@ -1,55 +1,534 @@
 import type { DocumentModel } from '../model/Document';
-import type { Layer } from '../model/Layer';
+import type { GroupContent, Layer } from '../model/Layer';
+import { applyLayerTransform, hasTransform } from '../model/LayerTransform';
 import { EffectRenderer } from '../effects/EffectRenderer';
-import { generateCacheKey } from '../effects/EffectStack';
+import { drivenEffects, generateCacheKey, scaledEffects } from '../effects/EffectStack';
+import { frameTime, loopLength } from '../model/Animation';
+import { TextRasterizer, textContentKey } from './TextRasterizer';
+import { ShapeRasterizer, shapeContentKey } from './ShapeRasterizer';
+import { MaskRasterizer, drawMaskPreview, maskKey } from './MaskRasterizer';
+import { GpuBlender } from './GpuBlender';
+import { computeHistogram } from './Histogram';
+import type { Histogram } from './Histogram';
+import { canvasBlendMode } from '../model/BlendModes';
+import type { BlendMode } from '../model/Layer';
+
+export interface CompositeOptions {
+  /**
+   * Output pixels per document unit. When set, layer effects are re-run at
+   * the layer's on-canvas size times this scale instead of the source's
+   * natural size (used by export), with pixel-sized params scaled to match.
+   */
+  scale?: number;
+  /** Animation frame for effects that vary per frame, such as animated grain; 0 when absent. */
+  frame?: number;
+  /** Seconds into the timeline that param drivers are evaluated at; `draw` derives it from `frame` when absent. */
+  time?: number;
+  /** Seconds after which the timeline wraps, which drivers repeat with; `draw` fills it in from the document. */
+  loop?: number;
+}
+
+/** Longest side of a Layers panel thumbnail, in CSS pixels. */
+export const THUMBNAIL_SIZE = 40;
+
+interface Thumbnail {
+  key: string;
+  canvas: HTMLCanvasElement;
+}
+
+/** A layer's pre-effect source from the last on-screen draw; binned on first request. */
+interface HistogramEntry {
+  key: string;
+  image: CanvasImageSource;
+  width: number;
+  height: number;
+  histogram: Histogram | null;
+}
+
+interface LayerSource {
+  image: CanvasImageSource;
+  width: number;
+  height: number;
+  /** Identifies generated content for the effect cache; empty for static sources. */
+  contentKey: string;
+  /** Source pixels per pixel of the same source in the on-screen render. */
+  pixelScale: number;
+}
 
 export class Compositor {
   private readonly effectRenderer = new EffectRenderer();
+  private readonly textRasterizer = new TextRasterizer();
+  private readonly shapeRasterizer = new ShapeRasterizer();
+  private readonly maskRasterizer = new MaskRasterizer();
+  private resampleCanvas: HTMLCanvasElement | null = null;
+  private readonly groupBuffers = new Map<string, HTMLCanvasElement>();
+  private readonly clipRunBuffers = new Map<string, HTMLCanvasElement[]>();
+  private readonly thumbnails = new Map<string, Thumbnail>();
+  private readonly maskThumbnails = new Map<string, Thumbnail>();
+  private readonly histograms = new Map<string, HistogramEntry>();
+  /** Null on the Canvas 2D fallback, or after a GPU failure. */
+  private gpuBlender = GpuBlender.create();
+  /** Layer buffers for GPU blending, one per group nesting depth. */
+  private readonly blendBuffers: HTMLCanvasElement[] = [];
+  private blendDepth = 0;
+  /** Target-sized stencil an adjustment's result is cut to before blending. */
+  private adjustmentBuffer: HTMLCanvasElement | null = null;
+  /** Opaque box an adjustment's mask is applied to. */
+  private solidBox: HTMLCanvasElement | null = null;
 
-  draw(ctx: CanvasRenderingContext2D, doc: DocumentModel): void {
+  draw(ctx: CanvasRenderingContext2D, doc: DocumentModel, options: CompositeOptions = {}): void {
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
     ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    if (options.scale !== undefined) ctx.setTransform(options.scale, 0, 0, options.scale, 0, 0);
 
-    const activeIds = new Set(doc.layers.map((l) => l.id));
+    const activeIds = new Set(doc.allLayers().map((l) => l.id));
     this.effectRenderer.pruneDeletedLayers(activeIds);
-
-    for (const layer of doc.layers) {
-      if (!layer.visible) continue;
-      ctx.globalAlpha = layer.opacity;
-      ctx.globalCompositeOperation = layer.blendMode;
-      this.drawContent(ctx, layer);
+    this.textRasterizer.prune(activeIds);
+    this.shapeRasterizer.prune(activeIds);
+    this.maskRasterizer.prune(activeIds);
+    for (const buffers of [this.groupBuffers, this.clipRunBuffers]) {
+      for (const id of buffers.keys()) {
+        if (!activeIds.has(id)) buffers.delete(id);
+      }
     }
+    for (const previews of [this.thumbnails, this.maskThumbnails, this.histograms]) {
+      for (const id of previews.keys()) {
+        if (!activeIds.has(id)) previews.delete(id);
+      }
+    }
+
+    this.drawLayers(ctx, doc.layers, {
+      ...options,
+      time: options.time ?? frameTime(doc.animation, options.frame ?? 0),
+      loop: options.loop ?? loopLength(doc.animation)
+    });
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+  }
 
+  /**
+   * Draws `layers` bottom-up. A layer followed by `clipToBelow` layers forms
+   * a clipping run: the clipped layers show only inside the base's alpha,
+   * and vanish with it when the base is hidden. Adjustment layers have no
+   * alpha to clip to, so they never start a run.
+   */
+  private drawLayers(ctx: CanvasRenderingContext2D, layers: Layer[], options: CompositeOptions): void {
+    for (let i = 0; i < layers.length; i++) {
+      const base = layers[i];
+      if (base.content.type === 'adjustment') {
+        if (isDrawable(base)) this.drawAdjustment(ctx, base, layers.slice(0, i), options);
+        continue;
+      }
+      let end = i + 1;
+      while (end < layers.length && layers[end].clipToBelow) end++;
+      const clipped = layers.slice(i + 1, end).filter(isDrawable);
+      i = end - 1;
+      if (!isDrawable(base)) continue;
+      if (clipped.length > 0) this.drawClippingRun(ctx, base, clipped, options);
+      else this.drawLayer(ctx, base, options);
+    }
     ctx.globalAlpha = 1;
     ctx.globalCompositeOperation = 'source-over';
   }
 
+  /**
+   * Normal layers draw straight onto the target. Other modes go through the
+   * GPU when available: the layer renders into a target-sized buffer that
+   * is then blended onto the target's pixels.
+   */
+  private drawLayer(ctx: CanvasRenderingContext2D, layer: Layer, options: CompositeOptions): void {
+    if (!this.usesGpu(layer.blendMode)) {
+      ctx.globalAlpha = layer.opacity;
+      ctx.globalCompositeOperation = canvasBlendMode(layer.blendMode);
+      this.drawContent(ctx, layer, options);
+      return;
+    }
+    const { width, height } = ctx.canvas;
+    const buffer = this.blendBuffers[this.blendDepth] ?? document.createElement('canvas');
+    this.blendBuffers[this.blendDepth] = buffer;
+    if (buffer.width !== width) buffer.width = width;
+    if (buffer.height !== height) buffer.height = height;
+    const layerCtx = buffer.getContext('2d')!;
+    layerCtx.setTransform(1, 0, 0, 1, 0, 0);
+    layerCtx.globalAlpha = 1;
+    layerCtx.globalCompositeOperation = 'source-over';
+    layerCtx.clearRect(0, 0, width, height);
+    layerCtx.setTransform(ctx.getTransform());
+    // A group renders its children through deeper buffers before drawing here.
+    this.blendDepth++;
+    try {
+      this.drawContent(layerCtx, layer, options);
+    } finally {
+      this.blendDepth--;
+    }
+    this.composite(ctx, buffer, layer.opacity, layer.blendMode);
+  }
+
+  /** Whether the GPU path is active, so every PLAN §12 mode renders exactly. */
+  get gpuBlending(): boolean {
+    return this.gpuBlender !== null;
+  }
+
+  private usesGpu(mode: BlendMode): boolean {
+    return mode !== 'source-over' && !!this.gpuBlender?.supports(mode);
+  }
+
+  /** Draws a target-sized, untransformed `source` onto `ctx` with a layer's opacity and blend mode. */
+  private composite(ctx: CanvasRenderingContext2D, source: HTMLCanvasElement, opacity: number, mode: BlendMode): void {
+    if (this.gpuBlender && this.usesGpu(mode)) {
+      try {
+        this.gpuBlender.blend(ctx, source, opacity, mode);
+        return;
+      } catch {
+        // A lost context stays lost: use Canvas 2D from here on, as when
+        // WebGL 2 is missing from the start.
+        this.gpuBlender = null;
+      }
+    }
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.globalAlpha = opacity;
+    ctx.globalCompositeOperation = canvasBlendMode(mode);
+    ctx.drawImage(source, 0, 0);
+    ctx.restore();
+  }
+
+  /**
+   * Composites a clipping run in buffers matching the target canvas: the
+   * base at full strength, then each clipped layer cut to the base's alpha
+   * and blended onto it. The result lands with the base's opacity and blend
+   * mode, so those apply to the whole run.
+   */
+  private drawClippingRun(ctx: CanvasRenderingContext2D, base: Layer, clipped: Layer[], options: CompositeOptions): void {
+    const { width, height } = ctx.canvas;
+    const transform = ctx.getTransform();
+    const buffers = this.clipBuffers(base.id, width, height);
+    const [run, alpha, layerCtx] = buffers.map((buffer) => {
+      const bufferCtx = buffer.getContext('2d')!;
+      bufferCtx.setTransform(1, 0, 0, 1, 0, 0);
+      bufferCtx.globalAlpha = 1;
+      bufferCtx.globalCompositeOperation = 'source-over';
+      bufferCtx.clearRect(0, 0, width, height);
+      return bufferCtx;
+    });
+
+    run.setTransform(transform);
+    this.drawContent(run, base, options);
+    run.setTransform(1, 0, 0, 1, 0, 0);
+    alpha.drawImage(run.canvas, 0, 0);
+
+    clipped.forEach((layer, index) => {
+      if (layer.content.type === 'adjustment') {
+        // Adjusts the run so far; the final cut below keeps it inside the base.
+        run.setTransform(transform);
+        this.drawAdjustment(run, layer, [base, ...clipped.slice(0, index)], options);
+        run.setTransform(1, 0, 0, 1, 0, 0);
+        return;
+      }
+      layerCtx.setTransform(1, 0, 0, 1, 0, 0);
+      layerCtx.globalCompositeOperation = 'source-over';
+      layerCtx.clearRect(0, 0, width, height);
+      layerCtx.setTransform(transform);
+      layerCtx.globalAlpha = layer.opacity;
+      this.drawContent(layerCtx, layer, options);
+      layerCtx.setTransform(1, 0, 0, 1, 0, 0);
+      layerCtx.globalAlpha = 1;
+      layerCtx.globalCompositeOperation = 'destination-in';
+      layerCtx.drawImage(alpha.canvas, 0, 0);
+      this.composite(run, layerCtx.canvas, 1, layer.blendMode);
+    });
+    // Blending can raise coverage where the base is semi-transparent.
+    run.globalCompositeOperation = 'destination-in';
+    run.drawImage(alpha.canvas, 0, 0);
+    run.globalCompositeOperation = 'source-over';
+
+    this.composite(ctx, run.canvas, base.opacity, base.blendMode);
+  }
+
+  /**
+   * Run, base-alpha and clipped-layer buffers, kept per base layer so a
+   * clipped group can hold its own runs while its parent run is in flight.
+   */
+  private clipBuffers(baseId: string, width: number, height: number): HTMLCanvasElement[] {
+    let buffers = this.clipRunBuffers.get(baseId);
+    if (!buffers) {
+      buffers = [document.createElement('canvas'), document.createElement('canvas'), document.createElement('canvas')];
+      this.clipRunBuffers.set(baseId, buffers);
+    }
+    for (const buffer of buffers) {
+      if (buffer.width !== width) buffer.width = width;
+      if (buffer.height !== height) buffer.height = height;
+    }
+    return buffers;
+  }
+
+  /**
+   * Runs an adjustment layer's effects over everything already on `ctx` —
+   * the layers `below` it in the same container — then cuts the result to
+   * the layer box and mask and blends it back with the layer's opacity and
+   * blend mode. `below` only feeds the cache key.
+   */
+  private drawAdjustment(ctx: CanvasRenderingContext2D, layer: Layer, below: Layer[], options: CompositeOptions): void {
+    const { width, height } = ctx.canvas;
+    const transform = ctx.getTransform();
+    const contentKey = [
+      `${width}x${height}`, transform.a, transform.b, transform.c, transform.d, transform.e, transform.f,
+      layersContentKey(below, options)
+    ].join(',');
+    // The canvas is `scale` times the on-screen document pixels.
+    const effects = scaledEffects(drivenEffects(layer.effects, options.time ?? 0, options.loop ?? 1), options.scale ?? 1);
+    const cacheKey = generateCacheKey(layer.id, effects, contentKey, options.frame);
+    const processed = this.effectRenderer.process(ctx.canvas, width, height, effects, cacheKey, options.frame);
+
+    const scale = options.scale ?? 1;
+    const boxWidth = Math.max(1, Math.round(layer.width * scale));
+    const boxHeight = Math.max(1, Math.round(layer.height * scale));
+    const { mask } = layer;
+    const pixelsPerUnit = boxWidth / Math.max(1, layer.width);
+    if (options.scale === undefined) {
+      if (mask) {
+        const size = `@${boxWidth}x${boxHeight}`;
+        this.updateThumbnail(this.maskThumbnails, layer.id, maskKey(mask) + size, boxWidth, boxHeight, (thumb, w, h) => drawMaskPreview(thumb, mask, w, h, pixelsPerUnit * (w / boxWidth)));
+      } else {
+        this.maskThumbnails.delete(layer.id);
+      }
+    }
+    if (!processed) return;
+
+    if (!this.solidBox) {
+      this.solidBox = document.createElement('canvas');
+      this.solidBox.width = 0;
+    }
+    if (this.solidBox.width !== boxWidth || this.solidBox.height !== boxHeight) {
+      this.solidBox.width = boxWidth;
+      this.solidBox.height = boxHeight;
+      const boxCtx = this.solidBox.getContext('2d')!;
+      boxCtx.fillStyle = '#ffffff';
+      boxCtx.fillRect(0, 0, boxWidth, boxHeight);
+    }
+    let coverage: CanvasImageSource = this.solidBox;
+    if (mask?.enabled) coverage = this.maskRasterizer.apply(layer.id, coverage, boxWidth, boxHeight, mask, pixelsPerUnit);
+
+    if (!this.adjustmentBuffer) this.adjustmentBuffer = document.createElement('canvas');
+    const buffer = this.adjustmentBuffer;
+    if (buffer.width !== width) buffer.width = width;
+    if (buffer.height !== height) buffer.height = height;
+    const stencil = buffer.getContext('2d')!;
+    stencil.setTransform(1, 0, 0, 1, 0, 0);
+    stencil.globalAlpha = 1;
+    stencil.globalCompositeOperation = 'source-over';
+    stencil.clearRect(0, 0, width, height);
+    stencil.setTransform(transform);
+    if (hasTransform(layer)) applyLayerTransform(stencil, layer);
+    stencil.drawImage(coverage, layer.x, layer.y, layer.width, layer.height);
+    stencil.setTransform(1, 0, 0, 1, 0, 0);
+    stencil.globalCompositeOperation = 'source-in';
+    stencil.drawImage(processed, 0, 0);
+    stencil.globalCompositeOperation = 'source-over';
+
+    this.composite(ctx, buffer, layer.opacity, layer.blendMode);
+  }
+
   invalidateEffectCache(layerId?: string): void {
     this.effectRenderer.invalidateCache(layerId);
+    for (const thumbnails of [this.thumbnails, this.maskThumbnails]) {
+      if (layerId) thumbnails.delete(layerId);
+      else thumbnails.clear();
+    }
+  }
+
+  /** The layer's post-effect thumbnail from the last on-screen draw, if it has been drawn. */
+  thumbnail(layerId: string): HTMLCanvasElement | null {
+    return this.thumbnails.get(layerId)?.canvas ?? null;
   }
 
-  private drawContent(ctx: CanvasRenderingContext2D, layer: Layer): void {
+  /** Grayscale preview of the layer's mask from the last on-screen draw. */
+  maskThumbnail(layerId: string): HTMLCanvasElement | null {
+    return this.maskThumbnails.get(layerId)?.canvas ?? null;
+  }
+
+  /** Histogram of the layer's content before effects, as last drawn on screen. */
+  histogram(layerId: string): Histogram | null {
+    const entry = this.histograms.get(layerId);
+    if (!entry) return null;
+    if (!entry.histogram) entry.histogram = computeHistogram(entry.image, entry.width, entry.height);
+    return entry.histogram;
+  }
+
+  private drawContent(ctx: CanvasRenderingContext2D, layer: Layer, options: CompositeOptions): void {
+    const source = this.contentSource(layer, options);
+    const effects = scaledEffects(drivenEffects(layer.effects, options.time ?? 0, options.loop ?? 1), source.pixelScale);
+    const cacheKey = generateCacheKey(layer.id, effects, source.contentKey, options.frame);
+    let image = source.image;
+    if (effects.length > 0 && effects.some((e) => e.enabled)) {
+      const processed = this.effectRenderer.process(source.image, source.width, source.height, effects, cacheKey, options.frame);
+      if (processed) image = processed;
+    }
+    const { mask } = layer;
+    const pixelsPerUnit = source.width / Math.max(1, layer.width);
+    // Thumbnails follow the on-screen render only, not scaled export passes.
+    if (options.scale === undefined) {
+      const size = `@${source.width}x${source.height}`;
+      const histogramKey = source.contentKey + size;
+      const histogram = this.histograms.get(layer.id);
+      if (histogram?.key !== histogramKey || histogram.image !== source.image) {
+        this.histograms.set(layer.id, { key: histogramKey, image: source.image, width: source.width, height: source.height, histogram: null });
+      }
+      this.updateThumbnail(this.thumbnails, layer.id, cacheKey + size, source.width, source.height, (thumb, w, h) => thumb.drawImage(image, 0, 0, w, h));
+      if (mask) {
+        this.updateThumbnail(this.maskThumbnails, layer.id, maskKey(mask) + size, source.width, source.height, (thumb, w, h) => drawMaskPreview(thumb, mask, w, h, pixelsPerUnit * (w / source.width)));
+      } else {
+        this.maskThumbnails.delete(layer.id);
+      }
+    }
+    // Masks cut the post-effect image, so blurs and glows fade with the layer.
+    if (mask?.enabled) image = this.maskRasterizer.apply(layer.id, image, source.width, source.height, mask, pixelsPerUnit);
+
+    const transformed = hasTransform(layer);
+    if (transformed) {
+      ctx.save();
+      applyLayerTransform(ctx, layer);
+    }
+    ctx.drawImage(image, layer.x, layer.y, layer.width, layer.height);
+    if (transformed) ctx.restore();
+  }
+
+  private contentSource(layer: Layer, options: CompositeOptions): LayerSource {
     const { content } = layer;
+    const scale = options.scale ?? 1;
     switch (content.type) {
       case 'image': {
-        if (layer.effects.length > 0 && layer.effects.some((e) => e.enabled)) {
-          const cacheKey = generateCacheKey(layer.id, layer.effects);
-          const processed = this.effectRenderer.process(
-            content.source,
-            content.naturalWidth,
-            content.naturalHeight,
-            layer.effects,
-            cacheKey
-          );
-          if (processed) {
-            ctx.drawImage(processed, layer.x, layer.y, layer.width, layer.height);
-          } else {
-            ctx.drawImage(content.source, layer.x, layer.y, layer.width, layer.height);
-          }
-        } else {
-          ctx.drawImage(content.source, layer.x, layer.y, layer.width, layer.height);
+        const hasEffects = layer.effects.some((e) => e.enabled);
+        if (options.scale === undefined || !hasEffects) {
+          return { image: content.source, width: content.naturalWidth, height: content.naturalHeight, contentKey: '', pixelScale: 1 };
         }
-        break;
+        // On screen, effects run at the natural size; export re-runs them at
+        // the output size, with pixel params scaled to match.
+        const width = Math.max(1, Math.round(layer.width * scale));
+        const height = Math.max(1, Math.round(layer.height * scale));
+        const pixelScale = (width / content.naturalWidth + height / content.naturalHeight) / 2;
+        return { image: this.resample(content.source, width, height), width, height, contentKey: '', pixelScale };
+      }
+      case 'text': {
+        // Text is vector: rasterize at its on-canvas pixel size.
+        const width = Math.max(1, Math.round(layer.width * scale));
+        const height = Math.max(1, Math.round(layer.height * scale));
+        const image = this.textRasterizer.rasterize(layer.id, content, width, height);
+        return { image, width, height, contentKey: textContentKey(content), pixelScale: scale };
       }
+      case 'shape': {
+        const width = Math.max(1, Math.round(layer.width * scale));
+        const height = Math.max(1, Math.round(layer.height * scale));
+        const image = this.shapeRasterizer.rasterize(layer.id, content, width, height, scale);
+        return { image, width, height, contentKey: shapeContentKey(content), pixelScale: scale };
+      }
+      case 'group': {
+        const width = Math.max(1, Math.round(layer.width * scale));
+        const height = Math.max(1, Math.round(layer.height * scale));
+        const image = this.compositeGroup(layer, content, width, height, options);
+        return { image, width, height, contentKey: groupContentKey(content, options), pixelScale: scale };
+      }
+      case 'adjustment':
+        // Drawn by `drawAdjustment`, never as content.
+        throw new Error('Adjustment layers have no content source');
+    }
+  }
+
+  /** Composites a group's children into its own transparent buffer covering the group box. */
+  private compositeGroup(layer: Layer, content: GroupContent, width: number, height: number, options: CompositeOptions): HTMLCanvasElement {
+    let buffer = this.groupBuffers.get(layer.id);
+    if (!buffer) {
+      buffer = document.createElement('canvas');
+      this.groupBuffers.set(layer.id, buffer);
     }
+    if (buffer.width !== width) buffer.width = width;
+    if (buffer.height !== height) buffer.height = height;
+    const ctx = buffer.getContext('2d')!;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    const scaleX = width / layer.width;
+    const scaleY = height / layer.height;
+    ctx.setTransform(scaleX, 0, 0, scaleY, -layer.x * scaleX, -layer.y * scaleY);
+    this.drawLayers(ctx, content.children, options);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    return buffer;
   }
+
+  /** Redraws a thumbnail only when its key (effect or mask state, plus source size) changed. */
+  private updateThumbnail(
+    thumbnails: Map<string, Thumbnail>,
+    layerId: string,
+    key: string,
+    width: number,
+    height: number,
+    paint: (ctx: CanvasRenderingContext2D, width: number, height: number) => void
+  ): void {
+    const existing = thumbnails.get(layerId);
+    if (existing?.key === key) return;
+    const canvas = existing?.canvas ?? document.createElement('canvas');
+    const ratio = window.devicePixelRatio || 1;
+    const fit = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+    canvas.width = Math.max(1, Math.round(width * fit * ratio));
+    canvas.height = Math.max(1, Math.round(height * fit * ratio));
+    canvas.style.width = `${canvas.width / ratio}px`;
+    canvas.style.height = `${canvas.height / ratio}px`;
+    const ctx = canvas.getContext('2d')!;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    paint(ctx, canvas.width, canvas.height);
+    thumbnails.set(layerId, { key, canvas });
+  }
+
+  private resample(source: CanvasImageSource, width: number, height: number): HTMLCanvasElement {
+    if (!this.resampleCanvas) {
+      this.resampleCanvas = document.createElement('canvas');
+    }
+    const canvas = this.resampleCanvas;
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.clearRect(0, 0, width, height);
+    ctx.drawImage(source, 0, 0, width, height);
+    return canvas;
+  }
+}
+
+function isDrawable(layer: Layer): boolean {
+  if (!layer.visible) return false;
+  return layer.content.type !== 'group' || (layer.width > 0 && layer.height > 0);
+}
+
+/** Fingerprint of everything a group's buffer depends on, for its effect cache key. */
+function groupContentKey(content: GroupContent, options: CompositeOptions): string {
+  return layersContentKey(content.children, options);
+}
+
+/** Fingerprint of what compositing `layers` at the animation frame and time of `options` produces. */
+function layersContentKey(layers: Layer[], options: CompositeOptions): string {
+  return layers.map((child) => {
+    const childContent = child.content;
+    let key: string;
+    switch (childContent.type) {
+      case 'image':
+        key = `${childContent.name}:${childContent.naturalWidth}x${childContent.naturalHeight}`;
+        break;
+      case 'text':
+        key = textContentKey(childContent);
+        break;
+      case 'shape':
+        key = shapeContentKey(childContent);
+        break;
+      case 'group':
+        key = `[${groupContentKey(childContent, options)}]`;
+        break;
+      case 'adjustment':
+        key = 'adjustment';
+        break;
+    }
+    return [
+      child.id, child.visible, child.opacity, child.blendMode, child.clipToBelow, child.x, child.y, child.width, child.height,
+      child.rotation, child.flipX, child.flipY, generateCacheKey(child.id, drivenEffects(child.effects, options.time ?? 0, options.loop ?? 1), '', options.frame),
+      child.mask ? maskKey(child.mask) : '', key
+    ].join(',');
+  }).join(';');
 }
@@ -0,0 +1,259 @@
+import type { BlendMode } from '../model/Layer';
+import { GPU_BLEND_MODES } from '../model/BlendModes';
+
+const VERTEX_SHADER = `#version 300 es
+in vec2 a_position;
+in vec2 a_texCoord;
+out vec2 v_texCoord;
+void main() {
+  gl_Position = vec4(a_position, 0.0, 1.0);
+  v_texCoord = a_texCoord;
+}
+`;
+
+/**
+ * GLSL for the PLAN §12 blend equations, shared with the effect renderer's
+ * per-effect blending: `blendMode(backdrop, top)` for straight colors.
+ * u_mode indexes GPU_BLEND_MODES; keep the two in the same order.
+ */
+export const BLEND_MODE_GLSL = `
+uniform int u_mode;
+
+const float EPS = 1e-6;
+
+float luma(vec3 c) {
+  return dot(c, vec3(0.2126, 0.7152, 0.0722));
+}
+
+vec3 rgb2hsv(vec3 c) {
+  float maxc = max(c.r, max(c.g, c.b));
+  float minc = min(c.r, min(c.g, c.b));
+  float delta = maxc - minc;
+  float h = 0.0;
+  if (delta > 0.0) {
+    if (maxc == c.r) h = (c.g - c.b) / delta;
+    else if (maxc == c.g) h = 2.0 + (c.b - c.r) / delta;
+    else h = 4.0 + (c.r - c.g) / delta;
+    h = fract(h / 6.0);
+  }
+  float s = maxc > 0.0 ? delta / maxc : 0.0;
+  return vec3(h, s, maxc);
+}
+
+vec3 hsv2rgb(vec3 c) {
+  float h = c.x, s = c.y, v = c.z;
+  if (s <= 0.0) return vec3(v);
+  float h6 = fract(h) * 6.0;
+  float i = floor(h6);
+  float f = h6 - i;
+  float p = v * (1.0 - s);
+  float q = v * (1.0 - s * f);
+  float t = v * (1.0 - s * (1.0 - f));
+  int k = int(i) % 6;
+  if (k == 0) return vec3(v, t, p);
+  if (k == 1) return vec3(q, v, p);
+  if (k == 2) return vec3(p, v, t);
+  if (k == 3) return vec3(p, q, v);
+  if (k == 4) return vec3(t, p, v);
+  return vec3(v, p, q);
+}
+
+float colorBurn(float b, float t) {
+  return t <= EPS ? 0.0 : 1.0 - clamp((1.0 - b) / (t + EPS), 0.0, 1.0);
+}
+
+float colorDodge(float b, float t) {
+  return t >= 1.0 - EPS ? 1.0 : clamp(b / (1.0 - t + EPS), 0.0, 1.0);
+}
+
+float vividLight(float b, float t) {
+  return t <= 0.5 ? colorBurn(b, 2.0 * t) : colorDodge(b, 2.0 * (t - 0.5));
+}
+
+float blendChannel(float b, float t) {
+  switch (u_mode) {
+    case 1: return min(b, t);
+    case 2: return b * t;
+    case 3: return colorBurn(b, t);
+    case 4: return clamp(b + t - 1.0, 0.0, 1.0);
+    case 6: return max(b, t);
+    case 7: return 1.0 - (1.0 - b) * (1.0 - t);
+    case 8: return colorDodge(b, t);
+    case 9: return clamp(b + t, 0.0, 1.0);
+    case 11: return b <= 0.5 ? 2.0 * b * t : 1.0 - 2.0 * (1.0 - b) * (1.0 - t);
+    case 12: return clamp((1.0 - 2.0 * t) * b * b + 2.0 * t * b, 0.0, 1.0);
+    case 13: return t <= 0.5 ? 2.0 * b * t : 1.0 - 2.0 * (1.0 - b) * (1.0 - t);
+    case 14: return vividLight(b, t);
+    case 15: return clamp(b + 2.0 * t - 1.0, 0.0, 1.0);
+    case 16: return t <= 0.5 ? min(b, 2.0 * t) : max(b, 2.0 * (t - 0.5));
+    case 17: return vividLight(b, t) < 0.5 ? 0.0 : 1.0;
+    case 18: return abs(b - t);
+    case 19: return b + t - 2.0 * b * t;
+    case 20: return clamp(b - t, 0.0, 1.0);
+    case 21: return clamp(b / (t + EPS), 0.0, 1.0);
+    default: return t;
+  }
+}
+
+// PLAN §12: B is the backdrop color, T the layer color.
+vec3 blendMode(vec3 b, vec3 t) {
+  switch (u_mode) {
+    case 5: return luma(t) < luma(b) ? t : b;
+    case 10: return luma(t) > luma(b) ? t : b;
+    case 22: { vec3 hb = rgb2hsv(b); vec3 ht = rgb2hsv(t); return hsv2rgb(vec3(ht.x, hb.y, hb.z)); }
+    case 23: { vec3 hb = rgb2hsv(b); vec3 ht = rgb2hsv(t); return hsv2rgb(vec3(hb.x, ht.y, hb.z)); }
+    case 24: { vec3 hb = rgb2hsv(b); vec3 ht = rgb2hsv(t); return hsv2rgb(vec3(ht.x, ht.y, hb.z)); }
+    case 25: { vec3 hb = rgb2hsv(b); vec3 ht = rgb2hsv(t); return hsv2rgb(vec3(hb.x, hb.y, ht.z)); }
+    default: return vec3(blendChannel(b.r, t.r), blendChannel(b.g, t.g), blendChannel(b.b, t.b));
+  }
+}
+`;
+
+const BLEND_FRAGMENT = `#version 300 es
+precision highp float;
+in vec2 v_texCoord;
+uniform sampler2D u_backdrop;
+uniform sampler2D u_top;
+uniform float u_opacity;
+out vec4 fragColor;
+${BLEND_MODE_GLSL}
+
+// PLAN §11, with the layer's pixel alpha folded into its opacity.
+void main() {
+  vec4 backdrop = texture(u_backdrop, v_texCoord);
+  vec4 top = texture(u_top, v_texCoord);
+  float alpha = u_opacity * top.a;
+  if (alpha <= 0.0) {
+    fragColor = backdrop;
+    return;
+  }
+  vec3 blended = blendMode(backdrop.rgb, top.rgb);
+  float outAlpha = alpha + backdrop.a * (1.0 - alpha);
+  vec3 numerator = backdrop.rgb * backdrop.a * (1.0 - alpha) + blended * alpha;
+  vec3 color = outAlpha > EPS ? numerator / outAlpha : vec3(0.0);
+  fragColor = vec4(clamp(color, 0.0, 1.0), outAlpha);
+}
+`;
+
+function compileShader(gl: WebGL2RenderingContext, type: number, source: string): WebGLShader {
+  const shader = gl.createShader(type);
+  if (!shader) throw new Error('Failed to create shader');
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error(`Shader compile error: ${log}`);
+  }
+  return shader;
+}
+
+/**
+ * WebGL 2 layer blending: composites a layer onto the pixels already in a
+ * 2D canvas using the exact PLAN §12 blend equations and §11 alpha update,
+ * which Canvas 2D `globalCompositeOperation` cannot express.
+ */
+export class GpuBlender {
+  private readonly canvas = new OffscreenCanvas(1, 1);
+  private readonly gl: WebGL2RenderingContext;
+  private readonly program: WebGLProgram;
+  private readonly textures: [WebGLTexture, WebGLTexture];
+  private readonly uniforms: { opacity: WebGLUniformLocation | null; mode: WebGLUniformLocation | null };
+
+  /** Null when WebGL 2 is unavailable, leaving callers on Canvas 2D. */
+  static create(): GpuBlender | null {
+    try {
+      return new GpuBlender();
+    } catch {
+      return null;
+    }
+  }
+
+  private constructor() {
+    const gl = this.canvas.getContext('webgl2', { premultipliedAlpha: false, preserveDrawingBuffer: true });
+    if (!gl) throw new Error('WebGL 2 not supported');
+    this.gl = gl;
+
+    const vs = compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
+    const fs = compileShader(gl, gl.FRAGMENT_SHADER, BLEND_FRAGMENT);
+    const program = gl.createProgram()!;
+    gl.attachShader(program, vs);
+    gl.attachShader(program, fs);
+    gl.linkProgram(program);
+    gl.deleteShader(vs);
+    gl.deleteShader(fs);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      const log = gl.getProgramInfoLog(program);
+      gl.deleteProgram(program);
+      throw new Error(`Program link error: ${log}`);
+    }
+    this.program = program;
+    gl.useProgram(program);
+    gl.uniform1i(gl.getUniformLocation(program, 'u_backdrop'), 0);
+    gl.uniform1i(gl.getUniformLocation(program, 'u_top'), 1);
+    this.uniforms = {
+      opacity: gl.getUniformLocation(program, 'u_opacity'),
+      mode: gl.getUniformLocation(program, 'u_mode')
+    };
+
+    const bindAttribute = (name: string, data: number[]) => {
+      const buffer = gl.createBuffer();
+      gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+      gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(data), gl.STATIC_DRAW);
+      const location = gl.getAttribLocation(program, name);
+      gl.enableVertexAttribArray(location);
+      gl.vertexAttribPointer(location, 2, gl.FLOAT, false, 0, 0);
+    };
+    bindAttribute('a_position', [-1, -1, 1, -1, -1, 1, 1, 1]);
+    bindAttribute('a_texCoord', [0, 0, 1, 0, 0, 1, 1, 1]);
+
+    this.textures = [gl.createTexture()!, gl.createTexture()!];
+    for (const texture of this.textures) {
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    }
+  }
+
+  supports(mode: BlendMode): boolean {
+    return GPU_BLEND_MODES.includes(mode);
+  }
+
+  /**
+   * Blends `top` (same pixel size as the target, untransformed) onto
+   * `ctx`'s canvas and writes the result back in place.
+   */
+  blend(ctx: CanvasRenderingContext2D, top: HTMLCanvasElement, opacity: number, mode: BlendMode): void {
+    const { gl } = this;
+    const { width, height } = ctx.canvas;
+    if (this.canvas.width !== width) this.canvas.width = width;
+    if (this.canvas.height !== height) this.canvas.height = height;
+
+    // Straight (unpremultiplied) colors, flipped to GL's bottom-up rows.
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, false);
+    const sources: TexImageSource[] = [ctx.canvas, top];
+    this.textures.forEach((texture, unit) => {
+      gl.activeTexture(gl.TEXTURE0 + unit);
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, gl.RGBA, gl.UNSIGNED_BYTE, sources[unit]);
+    });
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.viewport(0, 0, width, height);
+    gl.useProgram(this.program);
+    gl.uniform1f(this.uniforms.opacity, opacity);
+    gl.uniform1i(this.uniforms.mode, GPU_BLEND_MODES.indexOf(mode));
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.globalAlpha = 1;
+    ctx.globalCompositeOperation = 'copy';
+    ctx.drawImage(this.canvas, 0, 0);
+    ctx.restore();
+  }
+}
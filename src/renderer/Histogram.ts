@@ -0,0 +1,39 @@
+/** 256-bin counts of a layer's pixels, for the Curves editor backdrop. */
+export interface Histogram {
+  red: Uint32Array;
+  green: Uint32Array;
+  blue: Uint32Array;
+  luma: Uint32Array;
+}
+
+/** Longest side sampled; enough for a backdrop and cheap to read back. */
+const SAMPLE_SIZE = 256;
+
+let scratch: HTMLCanvasElement | null = null;
+
+/** Bins a downsampled copy of `image`, skipping fully transparent pixels. */
+export function computeHistogram(image: CanvasImageSource, width: number, height: number): Histogram {
+  const fit = Math.min(1, SAMPLE_SIZE / Math.max(width, height, 1));
+  if (!scratch) scratch = document.createElement('canvas');
+  scratch.width = Math.max(1, Math.round(width * fit));
+  scratch.height = Math.max(1, Math.round(height * fit));
+  const ctx = scratch.getContext('2d', { willReadFrequently: true })!;
+  ctx.clearRect(0, 0, scratch.width, scratch.height);
+  ctx.drawImage(image, 0, 0, scratch.width, scratch.height);
+  const { data } = ctx.getImageData(0, 0, scratch.width, scratch.height);
+
+  const histogram: Histogram = {
+    red: new Uint32Array(256),
+    green: new Uint32Array(256),
+    blue: new Uint32Array(256),
+    luma: new Uint32Array(256)
+  };
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    histogram.red[data[i]]++;
+    histogram.green[data[i + 1]]++;
+    histogram.blue[data[i + 2]]++;
+    histogram.luma[Math.round(0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2])]++;
+  }
+  return histogram;
+}
@@ -0,0 +1,137 @@
+import type { GradientMask, LayerMask, ShapeMask } from '../model/Layer';
+
+export function maskKey(mask: LayerMask): string {
+  switch (mask.type) {
+    case 'raster':
+      return `raster:${mask.version}:${mask.canvas.width}x${mask.canvas.height}:${mask.enabled}:${mask.inverted}`;
+    case 'gradient':
+      return JSON.stringify([mask.type, mask.kind, mask.angle, mask.start, mask.end, mask.enabled, mask.inverted]);
+    case 'shape':
+      return JSON.stringify([mask.type, mask.shape, mask.inset, mask.feather, mask.enabled, mask.inverted]);
+  }
+}
+
+function drawGradient(ctx: CanvasRenderingContext2D, mask: GradientMask, width: number, height: number): void {
+  const start = Math.min(mask.start, mask.end);
+  const end = Math.max(mask.start, mask.end, start + 0.001);
+  let gradient: CanvasGradient;
+  if (mask.kind === 'radial') {
+    const radius = Math.hypot(width, height) / 2;
+    gradient = ctx.createRadialGradient(width / 2, height / 2, 0, width / 2, height / 2, radius);
+  } else {
+    // Same axis as linear shape fills: spans the box's extent along `angle`.
+    const rad = (mask.angle * Math.PI) / 180;
+    const half = (Math.abs(Math.cos(rad)) * width + Math.abs(Math.sin(rad)) * height) / 2;
+    const dx = Math.cos(rad) * half;
+    const dy = Math.sin(rad) * half;
+    gradient = ctx.createLinearGradient(width / 2 - dx, height / 2 - dy, width / 2 + dx, height / 2 + dy);
+  }
+  gradient.addColorStop(Math.max(0, Math.min(1, start)), 'rgba(255,255,255,1)');
+  gradient.addColorStop(Math.max(0, Math.min(1, end)), 'rgba(255,255,255,0)');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+}
+
+function drawShape(ctx: CanvasRenderingContext2D, mask: ShapeMask, width: number, height: number, pixelsPerUnit: number): void {
+  const insetX = Math.max(0, Math.min(0.5, mask.inset)) * width;
+  const insetY = Math.max(0, Math.min(0.5, mask.inset)) * height;
+  const w = Math.max(0, width - insetX * 2);
+  const h = Math.max(0, height - insetY * 2);
+  const blur = (mask.feather * pixelsPerUnit) / 2;
+  if (blur > 0) ctx.filter = `blur(${blur}px)`;
+  ctx.fillStyle = '#ffffff';
+  ctx.beginPath();
+  if (mask.shape === 'ellipse') ctx.ellipse(width / 2, height / 2, w / 2, h / 2, 0, 0, Math.PI * 2);
+  else ctx.rect(insetX, insetY, w, h);
+  ctx.fill();
+  ctx.filter = 'none';
+}
+
+/**
+ * Draws the mask's coverage (alpha = visible, color white) over a
+ * `width`×`height` content box. `pixelsPerUnit` converts document-pixel
+ * parameters such as feather into box pixels.
+ */
+export function drawMaskCoverage(ctx: CanvasRenderingContext2D, mask: LayerMask, width: number, height: number, pixelsPerUnit: number): void {
+  switch (mask.type) {
+    case 'raster':
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(mask.canvas, 0, 0, width, height);
+      break;
+    case 'gradient':
+      drawGradient(ctx, mask, width, height);
+      break;
+    case 'shape':
+      drawShape(ctx, mask, width, height, pixelsPerUnit);
+      break;
+  }
+}
+
+/** Grayscale view of a mask (white = visible) for the Layers panel. */
+export function drawMaskPreview(ctx: CanvasRenderingContext2D, mask: LayerMask, width: number, height: number, pixelsPerUnit: number): void {
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, width, height);
+  drawMaskCoverage(ctx, mask, width, height, pixelsPerUnit);
+  if (mask.inverted) {
+    ctx.globalCompositeOperation = 'difference';
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    ctx.globalCompositeOperation = 'source-over';
+  }
+}
+
+interface Coverage {
+  key: string;
+  canvas: HTMLCanvasElement;
+}
+
+/**
+ * Multiplies layer masks into post-effect layer images. Generated
+ * (gradient/shape) coverage is cached per layer until the mask or box
+ * size changes; painted masks are used directly.
+ */
+export class MaskRasterizer {
+  private readonly coverage = new Map<string, Coverage>();
+  private readonly outputs = new Map<string, HTMLCanvasElement>();
+
+  apply(layerId: string, image: CanvasImageSource, width: number, height: number, mask: LayerMask, pixelsPerUnit: number): HTMLCanvasElement {
+    let output = this.outputs.get(layerId);
+    if (!output) {
+      output = document.createElement('canvas');
+      this.outputs.set(layerId, output);
+    }
+    output.width = width;
+    output.height = height;
+    const ctx = output.getContext('2d')!;
+    ctx.clearRect(0, 0, width, height);
+    ctx.drawImage(image, 0, 0, width, height);
+    ctx.globalCompositeOperation = mask.inverted ? 'destination-out' : 'destination-in';
+    ctx.drawImage(this.coverageFor(layerId, mask, width, height, pixelsPerUnit), 0, 0, width, height);
+    ctx.globalCompositeOperation = 'source-over';
+    return output;
+  }
+
+  prune(activeLayerIds: Set<string>): void {
+    for (const id of this.outputs.keys()) {
+      if (!activeLayerIds.has(id)) this.outputs.delete(id);
+    }
+    for (const id of this.coverage.keys()) {
+      if (!activeLayerIds.has(id)) this.coverage.delete(id);
+    }
+  }
+
+  private coverageFor(layerId: string, mask: LayerMask, width: number, height: number, pixelsPerUnit: number): CanvasImageSource {
+    if (mask.type === 'raster') return mask.canvas;
+    const key = `${maskKey(mask)}@${width}x${height}@${pixelsPerUnit}`;
+    const cached = this.coverage.get(layerId);
+    if (cached?.key === key) return cached.canvas;
+    const canvas = cached?.canvas ?? document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.clearRect(0, 0, width, height);
+    drawMaskCoverage(ctx, mask, width, height, pixelsPerUnit);
+    this.coverage.set(layerId, { key, canvas });
+    return canvas;
+  }
+}
@@ -1,37 +1,111 @@
 import type { DocumentModel } from '../model/Document';
+import type { Layer } from '../model/Layer';
+import { layerCenter, resizeHandlePoints, selectionBounds } from '../model/LayerTransform';
+import type { Rect } from '../model/LayerTransform';
 import { Compositor } from './Compositor';
+import type { Histogram } from './Histogram';
+
+/** Distance of the rotation handle above the selection's top edge. */
+export const ROTATE_HANDLE_OFFSET = 24;
+
+const HANDLE_SIZE = 8;
 
 export class Renderer {
   private compositor = new Compositor();
 
   constructor(private readonly ctx: CanvasRenderingContext2D) {}
 
-  render(doc: DocumentModel, activeTool = 'Move'): void {
+  /** `frame` is the animation frame on show, for effects that vary per frame. */
+  render(doc: DocumentModel, activeTool = 'Move', marquee: Rect | null = null, frame = 0): void {
     const { canvas } = this.ctx;
-    this.compositor.draw(this.ctx, doc);
+    this.compositor.draw(this.ctx, doc, { frame });
+
+    if (activeTool === 'Move') {
+      const selected = doc.selectedLayers;
+      if (selected.length === 1) {
+        this.drawLayerOutline(selected[0], true, selected[0].content.type !== 'group');
+      } else if (selected.length > 1) {
+        for (const layer of selected) this.drawLayerOutline(layer, false, false);
+        const bounds = selectionBounds(selected);
+        if (bounds) {
+          this.ctx.strokeStyle = '#4a9eff';
+          this.ctx.lineWidth = 1;
+          this.ctx.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height);
+          this.drawHandles({ ...bounds, rotation: 0 });
+        }
+      }
+    }
 
-    if (activeTool === 'Move' && doc.activeLayer) {
-      const layer = doc.activeLayer;
-      const handle = 8;
+    if (marquee) {
       this.ctx.save();
+      this.ctx.fillStyle = 'rgba(74, 158, 255, 0.12)';
       this.ctx.strokeStyle = '#4a9eff';
-      this.ctx.setLineDash([5, 3]);
       this.ctx.lineWidth = 1;
-      this.ctx.strokeRect(layer.x, layer.y, layer.width, layer.height);
-      this.ctx.setLineDash([]);
-      this.ctx.fillStyle = '#4a9eff';
-      const points = [
-        [layer.x, layer.y],
-        [layer.x + layer.width, layer.y],
-        [layer.x, layer.y + layer.height],
-        [layer.x + layer.width, layer.y + layer.height]
-      ];
-      for (const [x, y] of points) {
-        this.ctx.fillRect(x - handle / 2, y - handle / 2, handle, handle);
-      }
+      this.ctx.fillRect(marquee.x, marquee.y, marquee.width, marquee.height);
+      this.ctx.strokeRect(marquee.x, marquee.y, marquee.width, marquee.height);
       this.ctx.restore();
     }
 
     canvas.dataset.zoom = '1.00';
   }
+
+  invalidateEffectCache(layerId?: string): void {
+    this.compositor.invalidateEffectCache(layerId);
+  }
+
+  thumbnail(layerId: string): HTMLCanvasElement | null {
+    return this.compositor.thumbnail(layerId);
+  }
+
+  /** True when layers blend on the GPU, which renders the extended PLAN §12 modes exactly. */
+  get gpuBlending(): boolean {
+    return this.compositor.gpuBlending;
+  }
+
+  maskThumbnail(layerId: string): HTMLCanvasElement | null {
+    return this.compositor.maskThumbnail(layerId);
+  }
+
+  histogram(layerId: string): Histogram | null {
+    return this.compositor.histogram(layerId);
+  }
+
+  /** Dashed rotated outline; the sole selected layer also gets its handles. */
+  private drawLayerOutline(layer: Layer, withHandles: boolean, canRotate: boolean): void {
+    const center = layerCenter(layer);
+    this.ctx.save();
+    this.ctx.translate(center.x, center.y);
+    this.ctx.rotate((layer.rotation * Math.PI) / 180);
+    this.ctx.translate(-center.x, -center.y);
+    this.ctx.strokeStyle = '#4a9eff';
+    this.ctx.setLineDash([5, 3]);
+    this.ctx.lineWidth = 1;
+    this.ctx.strokeRect(layer.x, layer.y, layer.width, layer.height);
+    this.ctx.setLineDash([]);
+    if (canRotate) {
+      this.ctx.beginPath();
+      this.ctx.moveTo(center.x, layer.y);
+      this.ctx.lineTo(center.x, layer.y - ROTATE_HANDLE_OFFSET);
+      this.ctx.stroke();
+      this.ctx.fillStyle = '#4a9eff';
+      this.ctx.beginPath();
+      this.ctx.arc(center.x, layer.y - ROTATE_HANDLE_OFFSET, HANDLE_SIZE / 2, 0, Math.PI * 2);
+      this.ctx.fill();
+    }
+    this.ctx.restore();
+    if (withHandles) this.drawHandles(layer);
+  }
+
+  private drawHandles(box: Pick<Layer, 'x' | 'y' | 'width' | 'height' | 'rotation'>): void {
+    const center = layerCenter(box);
+    this.ctx.save();
+    this.ctx.translate(center.x, center.y);
+    this.ctx.rotate((box.rotation * Math.PI) / 180);
+    this.ctx.translate(-center.x, -center.y);
+    this.ctx.fillStyle = '#4a9eff';
+    for (const [, x, y] of resizeHandlePoints(box)) {
+      this.ctx.fillRect(x - HANDLE_SIZE / 2, y - HANDLE_SIZE / 2, HANDLE_SIZE, HANDLE_SIZE);
+    }
+    this.ctx.restore();
+  }
 }
@@ -0,0 +1,118 @@
+import type { ShapeContent, ShapeFill } from '../model/Layer';
+
+export function shapeContentKey(content: ShapeContent): string {
+  return JSON.stringify([content.shape, content.points, content.fill, content.stroke, content.strokeWidth, content.cornerRadius]);
+}
+
+export function regularPolygonPoints(sides: number): Array<[number, number]> {
+  const count = Math.max(3, Math.round(sides));
+  const points: Array<[number, number]> = [];
+  for (let i = 0; i < count; i++) {
+    const angle = -Math.PI / 2 + (i / count) * Math.PI * 2;
+    points.push([0.5 + Math.cos(angle) * 0.5, 0.5 + Math.sin(angle) * 0.5]);
+  }
+  return points;
+}
+
+function fillStyle(ctx: CanvasRenderingContext2D, fill: ShapeFill, width: number, height: number): string | CanvasGradient | null {
+  switch (fill.type) {
+    case 'none':
+      return null;
+    case 'solid':
+      return fill.color;
+    case 'linear': {
+      const rad = (fill.angle * Math.PI) / 180;
+      const half = (Math.abs(Math.cos(rad)) * width + Math.abs(Math.sin(rad)) * height) / 2;
+      const cx = width / 2;
+      const cy = height / 2;
+      const dx = Math.cos(rad) * half;
+      const dy = Math.sin(rad) * half;
+      const gradient = ctx.createLinearGradient(cx - dx, cy - dy, cx + dx, cy + dy);
+      gradient.addColorStop(0, fill.from);
+      gradient.addColorStop(1, fill.to);
+      return gradient;
+    }
+    case 'radial': {
+      const gradient = ctx.createRadialGradient(width / 2, height / 2, 0, width / 2, height / 2, Math.hypot(width, height) / 2);
+      gradient.addColorStop(0, fill.from);
+      gradient.addColorStop(1, fill.to);
+      return gradient;
+    }
+  }
+}
+
+/**
+ * Builds the shape outline inside a `width`×`height` pixel box. Geometry is
+ * resolved against the box on every draw, so resizing a shape layer changes
+ * its geometry while stroke width and corner radius stay in pixels.
+ */
+function tracePath(ctx: CanvasRenderingContext2D, content: ShapeContent, width: number, height: number, scale: number): void {
+  const inset = (content.strokeWidth * scale) / 2;
+  const w = Math.max(0, width - inset * 2);
+  const h = Math.max(0, height - inset * 2);
+  ctx.beginPath();
+  switch (content.shape) {
+    case 'rectangle': {
+      const radius = Math.min(content.cornerRadius * scale, w / 2, h / 2);
+      ctx.roundRect(inset, inset, w, h, Math.max(0, radius));
+      break;
+    }
+    case 'ellipse':
+      ctx.ellipse(width / 2, height / 2, w / 2, h / 2, 0, 0, Math.PI * 2);
+      break;
+    case 'line':
+    case 'polygon': {
+      content.points.forEach(([px, py], index) => {
+        const x = inset + px * w;
+        const y = inset + py * h;
+        if (index === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      });
+      if (content.shape === 'polygon') ctx.closePath();
+      break;
+    }
+  }
+}
+
+/**
+ * Rasterizes vector shape content at an explicit pixel size. Keeps one
+ * canvas per layer, re-drawn only when the geometry, style or size changes.
+ */
+export class ShapeRasterizer {
+  private readonly cache = new Map<string, { key: string; canvas: HTMLCanvasElement }>();
+
+  rasterize(layerId: string, content: ShapeContent, width: number, height: number, scale: number): HTMLCanvasElement {
+    const key = `${shapeContentKey(content)}@${width}x${height}x${scale}`;
+    const cached = this.cache.get(layerId);
+    if (cached && cached.key === key) return cached.canvas;
+
+    const canvas = cached?.canvas ?? document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.clearRect(0, 0, width, height);
+
+    tracePath(ctx, content, width, height, scale);
+    const fill = content.shape === 'line' ? null : fillStyle(ctx, content.fill, width, height);
+    if (fill) {
+      ctx.fillStyle = fill;
+      ctx.fill();
+    }
+    if (content.strokeWidth > 0) {
+      ctx.strokeStyle = content.stroke;
+      ctx.lineWidth = content.strokeWidth * scale;
+      ctx.lineJoin = 'round';
+      ctx.lineCap = 'round';
+      ctx.stroke();
+    }
+
+    this.cache.set(layerId, { key, canvas });
+    return canvas;
+  }
+
+  prune(activeLayerIds: Set<string>): void {
+    for (const id of this.cache.keys()) {
+      if (!activeLayerIds.has(id)) this.cache.delete(id);
+    }
+  }
+}
@@ -0,0 +1,120 @@
+import type { TextContent } from '../model/Layer';
+
+export interface TextLayout {
+  lines: string[];
+  /** Natural block size in document pixels. */
+  width: number;
+  height: number;
+}
+
+let measureCtx: CanvasRenderingContext2D | null = null;
+
+function getMeasureContext(): CanvasRenderingContext2D {
+  if (!measureCtx) {
+    measureCtx = document.createElement('canvas').getContext('2d');
+    if (!measureCtx) throw new Error('Canvas context unavailable');
+  }
+  return measureCtx;
+}
+
+export function cssFont(content: TextContent): string {
+  const family = content.fontFamily
+    .split(',')
+    .map((name) => {
+      const trimmed = name.trim();
+      return /\s/.test(trimmed) && !/^['"]/.test(trimmed) ? `"${trimmed}"` : trimmed;
+    })
+    .join(', ');
+  return `${content.fontWeight} ${content.fontSize}px ${family}`;
+}
+
+function applyTextStyle(ctx: CanvasRenderingContext2D, content: TextContent): void {
+  ctx.font = cssFont(content);
+  ctx.letterSpacing = `${content.letterSpacing}px`;
+  ctx.textBaseline = 'top';
+}
+
+function lineWidth(ctx: CanvasRenderingContext2D, line: string): number {
+  return ctx.measureText(line).width;
+}
+
+export function layoutText(content: TextContent): TextLayout {
+  const ctx = getMeasureContext();
+  applyTextStyle(ctx, content);
+
+  const lines: string[] = [];
+  for (const paragraph of content.text.split('\n')) {
+    if (content.wrapWidth <= 0) {
+      lines.push(paragraph);
+      continue;
+    }
+    let current = '';
+    for (const word of paragraph.split(/(\s+)/)) {
+      const candidate = current + word;
+      if (current && lineWidth(ctx, candidate.trimEnd()) > content.wrapWidth) {
+        lines.push(current.trimEnd());
+        current = word.trimStart();
+      } else {
+        current = candidate;
+      }
+    }
+    lines.push(current.trimEnd());
+  }
+
+  const measured = Math.max(0, ...lines.map((line) => lineWidth(ctx, line)));
+  const width = content.wrapWidth > 0 ? content.wrapWidth : measured;
+  const height = lines.length * content.fontSize * content.lineHeight;
+  return { lines, width: Math.max(1, Math.ceil(width)), height: Math.max(1, Math.ceil(height)) };
+}
+
+export function textContentKey(content: TextContent): string {
+  return JSON.stringify([
+    content.text, content.fontFamily, content.fontWeight, content.fontSize, content.color,
+    content.align, content.lineHeight, content.letterSpacing, content.wrapWidth
+  ]);
+}
+
+/**
+ * Rasterizes text content at an explicit pixel size so type stays crisp at
+ * any layer size. Keeps one canvas per layer, re-drawn only when the
+ * content or target size changes.
+ */
+export class TextRasterizer {
+  private readonly cache = new Map<string, { key: string; canvas: HTMLCanvasElement }>();
+
+  rasterize(layerId: string, content: TextContent, width: number, height: number): HTMLCanvasElement {
+    const key = `${textContentKey(content)}@${width}x${height}`;
+    const cached = this.cache.get(layerId);
+    if (cached && cached.key === key) return cached.canvas;
+
+    const canvas = cached?.canvas ?? document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.clearRect(0, 0, width, height);
+
+    const layout = layoutText(content);
+    ctx.save();
+    ctx.scale(width / layout.width, height / layout.height);
+    applyTextStyle(ctx, content);
+    ctx.fillStyle = content.color;
+    ctx.textAlign = content.align;
+    const anchorX = content.align === 'left' ? 0 : content.align === 'center' ? layout.width / 2 : layout.width;
+    const advance = content.fontSize * content.lineHeight;
+    // Center each glyph run vertically inside its line box.
+    const leading = (advance - content.fontSize) / 2;
+    layout.lines.forEach((line, index) => {
+      ctx.fillText(line, anchorX, index * advance + leading);
+    });
+    ctx.restore();
+
+    this.cache.set(layerId, { key, canvas });
+    return canvas;
+  }
+
+  prune(activeLayerIds: Set<string>): void {
+    for (const id of this.cache.keys()) {
+      if (!activeLayerIds.has(id)) this.cache.delete(id);
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import type { Layer, LayerMask, RasterMask } from '../model/Layer';
+import { toLayerFrame } from '../model/LayerTransform';
+import type { Point } from '../model/LayerTransform';
+
+export type MaskKind = LayerMask['type'];
+
+/** Painted masks never exceed this many pixels per side. */
+const MAX_MASK_SIZE = 2048;
+
+/** Brush dabs per brush radius along a stroke. */
+const DAB_SPACING = 0.25;
+
+export function createMask(kind: MaskKind, layer: Layer): LayerMask {
+  switch (kind) {
+    case 'raster': {
+      const scale = Math.min(1, MAX_MASK_SIZE / Math.max(layer.width, layer.height, 1));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(layer.width * scale));
+      canvas.height = Math.max(1, Math.round(layer.height * scale));
+      fillMaskCanvas(canvas, true);
+      return { type: 'raster', enabled: true, inverted: false, canvas, version: 0 };
+    }
+    case 'gradient':
+      return { type: 'gradient', enabled: true, inverted: false, kind: 'linear', angle: 0, start: 0.4, end: 1 };
+    case 'shape':
+      return { type: 'shape', enabled: true, inverted: false, shape: 'ellipse', inset: 0.05, feather: 40 };
+  }
+}
+
+/** Copy-on-write step before painting, so history keeps the previous pixels. */
+export function copyRasterMask(mask: RasterMask): RasterMask {
+  const canvas = document.createElement('canvas');
+  canvas.width = mask.canvas.width;
+  canvas.height = mask.canvas.height;
+  canvas.getContext('2d')!.drawImage(mask.canvas, 0, 0);
+  return { ...mask, canvas, version: mask.version + 1 };
+}
+
+/** Fills the whole mask: `visible` reveals the layer everywhere, otherwise hides it. */
+export function fillMaskCanvas(canvas: HTMLCanvasElement, visible: boolean): void {
+  const ctx = canvas.getContext('2d')!;
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  if (!visible) return;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+}
+
+/** Maps a document point to mask pixels, undoing rotation and flips. */
+export function maskPoint(layer: Layer, mask: RasterMask, point: Point): Point {
+  const local = toLayerFrame(layer, point.x, point.y);
+  let u = (local.x - layer.x) / layer.width;
+  let v = (local.y - layer.y) / layer.height;
+  if (layer.flipX) u = 1 - u;
+  if (layer.flipY) v = 1 - v;
+  return { x: u * mask.canvas.width, y: v * mask.canvas.height };
+}
+
+export interface MaskBrush {
+  /** Diameter in document pixels. */
+  size: number;
+  /** Reveal paints white (visible); hide erases coverage. */
+  reveal: boolean;
+}
+
+/**
+ * Paints soft round dabs from `from` to `to` (mask pixels), spaced along
+ * the segment so fast drags leave a continuous stroke.
+ */
+export function paintMaskStroke(layer: Layer, mask: RasterMask, from: Point, to: Point, brush: MaskBrush): void {
+  const ctx = mask.canvas.getContext('2d')!;
+  const radius = Math.max(0.5, (brush.size / 2) * (mask.canvas.width / Math.max(1, layer.width)));
+  const distance = Math.hypot(to.x - from.x, to.y - from.y);
+  const steps = Math.max(1, Math.ceil(distance / (radius * DAB_SPACING)));
+  ctx.globalCompositeOperation = brush.reveal ? 'source-over' : 'destination-out';
+  for (let i = 1; i <= steps; i++) {
+    const x = from.x + ((to.x - from.x) * i) / steps;
+    const y = from.y + ((to.y - from.y) * i) / steps;
+    const dab = ctx.createRadialGradient(x, y, 0, x, y, radius);
+    dab.addColorStop(0, 'rgba(255,255,255,1)');
+    dab.addColorStop(0.5, 'rgba(255,255,255,1)');
+    dab.addColorStop(1, 'rgba(255,255,255,0)');
+    ctx.fillStyle = dab;
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.fill();
+  }
+  ctx.globalCompositeOperation = 'source-over';
+  mask.version++;
+}
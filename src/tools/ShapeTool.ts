@@ -0,0 +1,51 @@
+import type { ShapeContent, ShapeKind } from '../model/Layer';
+import { regularPolygonPoints } from '../renderer/ShapeRasterizer';
+
+export const SHAPE_KINDS: ShapeKind[] = ['rectangle', 'ellipse', 'line', 'polygon'];
+
+/** Box used when the Shape tool is clicked without dragging. */
+export const DEFAULT_SHAPE_SIZE = { width: 200, height: 120 };
+
+/** Drags shorter than this along an axis snap a line to horizontal/vertical. */
+const LINE_SNAP = 10;
+const LINE_MIN_THICKNESS = 20;
+
+export function createShapeContent(shape: ShapeKind): ShapeContent {
+  return {
+    type: 'shape',
+    shape,
+    points: shape === 'polygon' ? regularPolygonPoints(6) : shape === 'line' ? [[0, 0.5], [1, 0.5]] : [],
+    fill: shape === 'line' ? { type: 'none' } : { type: 'solid', color: '#4a9eff' },
+    stroke: '#ffffff',
+    strokeWidth: shape === 'line' ? 4 : 0,
+    cornerRadius: 0
+  };
+}
+
+/**
+ * Maps a creation drag from `start` by (`dx`, `dy`) to a layer box. Lines
+ * keep a minimum thickness so nearly axis-aligned ones stay hittable.
+ */
+export function shapeDragBox(shape: ShapeKind, start: { x: number; y: number }, dx: number, dy: number): { x: number; y: number; width: number; height: number } {
+  let x = dx < 0 ? start.x + dx : start.x;
+  let y = dy < 0 ? start.y + dy : start.y;
+  let width = Math.max(1, Math.abs(dx));
+  let height = Math.max(1, Math.abs(dy));
+  if (shape === 'line') {
+    if (height < LINE_MIN_THICKNESS) {
+      y = start.y - LINE_MIN_THICKNESS / 2;
+      height = LINE_MIN_THICKNESS;
+    }
+    if (width < LINE_MIN_THICKNESS) {
+      x = start.x - LINE_MIN_THICKNESS / 2;
+      width = LINE_MIN_THICKNESS;
+    }
+  }
+  return { x, y, width, height };
+}
+
+export function lineEndpoints(dx: number, dy: number): Array<[number, number]> {
+  if (Math.abs(dy) < LINE_SNAP) return [[0, 0.5], [1, 0.5]];
+  if (Math.abs(dx) < LINE_SNAP) return [[0.5, 0], [0.5, 1]];
+  return (dx > 0) === (dy > 0) ? [[0, 0], [1, 1]] : [[0, 1], [1, 0]];
+}
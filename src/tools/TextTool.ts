@@ -0,0 +1,95 @@
+import type { Layer, TextContent } from '../model/Layer';
+import { cssFont, layoutText } from '../renderer/TextRasterizer';
+
+export function createTextContent(text = 'Text'): TextContent {
+  return {
+    type: 'text',
+    text,
+    fontFamily: 'Helvetica Neue, Arial, sans-serif',
+    fontWeight: 700,
+    fontSize: 64,
+    color: '#ffffff',
+    align: 'left',
+    lineHeight: 1.2,
+    letterSpacing: 0,
+    wrapWidth: 0
+  };
+}
+
+export interface TextToolCallbacks {
+  onInput: (layerId: string, text: string) => void;
+  onFinish: (layerId: string) => void;
+}
+
+/**
+ * On-canvas text editing. A transparent textarea is laid over the layer
+ * inside the zoomed canvas wrap so the caret and selection line up with the
+ * rendered text, while the canvas keeps drawing the live result underneath.
+ */
+export class TextTool {
+  private editor: HTMLTextAreaElement | null = null;
+  private layerId: string | null = null;
+
+  constructor(private readonly host: HTMLElement, private readonly callbacks: TextToolCallbacks) {}
+
+  get editingLayerId(): string | null {
+    return this.layerId;
+  }
+
+  begin(layer: Layer): void {
+    if (layer.content.type !== 'text') return;
+    this.finish();
+
+    const editor = document.createElement('textarea');
+    editor.className = 'text-editor';
+    editor.id = 'text-editor';
+    editor.spellcheck = false;
+    editor.value = layer.content.text;
+    editor.oninput = () => {
+      if (this.layerId) this.callbacks.onInput(this.layerId, editor.value);
+    };
+    editor.onblur = () => this.finish();
+    editor.onkeydown = (event) => {
+      event.stopPropagation();
+      if (event.key === 'Escape') editor.blur();
+    };
+    editor.onmousedown = (event) => event.stopPropagation();
+
+    this.editor = editor;
+    this.layerId = layer.id;
+    this.sync(layer);
+    this.host.append(editor);
+    editor.focus();
+    editor.select();
+  }
+
+  /** Re-positions the editor after the layer box or text style changed. */
+  sync(layer: Layer | null): void {
+    if (!this.editor || !layer || layer.id !== this.layerId || layer.content.type !== 'text') return;
+    const content = layer.content;
+    const layout = layoutText(content);
+    const scaleY = layer.height / layout.height;
+    const style = this.editor.style;
+    style.left = `${layer.x}px`;
+    style.top = `${layer.y}px`;
+    style.width = `${layer.width}px`;
+    style.height = `${layer.height}px`;
+    style.font = cssFont({ ...content, fontSize: content.fontSize * scaleY });
+    style.lineHeight = `${content.fontSize * content.lineHeight * scaleY}px`;
+    style.letterSpacing = `${content.letterSpacing * scaleY}px`;
+    style.textAlign = content.align;
+    style.whiteSpace = content.wrapWidth > 0 ? 'pre-wrap' : 'pre';
+    style.transform = `rotate(${layer.rotation}deg) scale(${layer.flipX ? -1 : 1}, ${layer.flipY ? -1 : 1})`;
+  }
+
+  finish(): void {
+    const editor = this.editor;
+    const layerId = this.layerId;
+    if (!editor || !layerId) return;
+    this.editor = null;
+    this.layerId = null;
+    editor.onblur = null;
+    editor.remove();
+    this.callbacks.onFinish(layerId);
+  }
+}
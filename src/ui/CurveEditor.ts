@@ -0,0 +1,198 @@
+import type { CurveChannel, CurvePoint, CurveValue } from '../effects/Effect';
+import { cloneParamValue } from '../effects/Effect';
+import { evaluateCurve } from '../effects/curves';
+import type { Histogram } from '../renderer/Histogram';
+
+export interface CurveEditorCallbacks {
+  onChange: (value: CurveValue) => void;
+}
+
+/** Editor size in CSS pixels. */
+const SIZE = 180;
+/** Pointer distance, in CSS pixels, that grabs an existing point. */
+const HIT_RADIUS = 7;
+/** Closest two points may get along x. */
+const MIN_GAP = 0.01;
+
+const CHANNELS: { id: CurveChannel; label: string; color: string }[] = [
+  { id: 'master', label: 'RGB', color: '#e6e6e6' },
+  { id: 'red', label: 'R', color: '#ff6b6b' },
+  { id: 'green', label: 'G', color: '#6bdc7a' },
+  { id: 'blue', label: 'B', color: '#6ba7ff' }
+];
+
+/**
+ * Spline curve editor over a histogram backdrop. Click to add a point, drag
+ * to move it, double-click an inner point to remove it.
+ */
+export class CurveEditor {
+  readonly element = document.createElement('div');
+  private readonly canvas = document.createElement('canvas');
+  private readonly tabs = new Map<CurveChannel, HTMLButtonElement>();
+  private value: CurveValue;
+  private channel: CurveChannel = 'master';
+  private dragIndex: number | null = null;
+
+  constructor(value: CurveValue, private readonly histogram: Histogram | null, private readonly callbacks: CurveEditorCallbacks) {
+    this.value = cloneParamValue(value);
+    this.element.className = 'curve-editor';
+
+    const toolbar = document.createElement('div');
+    toolbar.className = 'curve-toolbar';
+    for (const channel of CHANNELS) {
+      const tab = document.createElement('button');
+      tab.className = 'curve-channel-btn';
+      tab.dataset.channel = channel.id;
+      tab.textContent = channel.label;
+      tab.style.color = channel.color;
+      tab.onclick = () => this.selectChannel(channel.id);
+      this.tabs.set(channel.id, tab);
+      toolbar.append(tab);
+    }
+    const reset = document.createElement('button');
+    reset.className = 'curve-reset-btn';
+    reset.textContent = 'Reset';
+    reset.title = 'Reset this channel to a straight line';
+    reset.onclick = () => {
+      this.value[this.channel] = [[0, 0], [1, 1]];
+      this.emit();
+    };
+    toolbar.append(reset);
+
+    const ratio = window.devicePixelRatio || 1;
+    this.canvas.className = 'curve-canvas';
+    this.canvas.width = Math.round(SIZE * ratio);
+    this.canvas.height = Math.round(SIZE * ratio);
+    this.canvas.style.width = `${SIZE}px`;
+    this.canvas.style.height = `${SIZE}px`;
+    this.canvas.onpointerdown = (e) => this.onPointerDown(e);
+    this.canvas.onpointermove = (e) => this.onPointerMove(e);
+    this.canvas.onpointerup = () => { this.dragIndex = null; };
+    this.canvas.onpointercancel = () => { this.dragIndex = null; };
+    this.canvas.ondblclick = (e) => this.onDoubleClick(e);
+
+    this.element.append(toolbar, this.canvas);
+    this.selectChannel('master');
+  }
+
+  private get points(): CurvePoint[] {
+    return this.value[this.channel];
+  }
+
+  private selectChannel(channel: CurveChannel): void {
+    this.channel = channel;
+    for (const [id, tab] of this.tabs) tab.classList.toggle('active', id === channel);
+    this.draw();
+  }
+
+  /** Pointer position in curve space, y up. */
+  private toCurve(e: MouseEvent): CurvePoint {
+    const rect = this.canvas.getBoundingClientRect();
+    const x = (e.clientX - rect.left) / rect.width;
+    const y = 1 - (e.clientY - rect.top) / rect.height;
+    return [Math.min(1, Math.max(0, x)), Math.min(1, Math.max(0, y))];
+  }
+
+  private hitTest(e: MouseEvent): number | null {
+    const rect = this.canvas.getBoundingClientRect();
+    let best: number | null = null;
+    let bestDistance = HIT_RADIUS;
+    this.points.forEach(([x, y], index) => {
+      const distance = Math.hypot(rect.left + x * rect.width - e.clientX, rect.top + (1 - y) * rect.height - e.clientY);
+      if (distance <= bestDistance) {
+        best = index;
+        bestDistance = distance;
+      }
+    });
+    return best;
+  }
+
+  private onPointerDown(e: PointerEvent): void {
+    let index = this.hitTest(e);
+    if (index === null) {
+      const point = this.toCurve(e);
+      const points = this.points;
+      index = points.findIndex(([x]) => x > point[0]);
+      if (index <= 0) return; // Outside the endpoints; drag those instead.
+      if (point[0] - points[index - 1][0] < MIN_GAP || points[index][0] - point[0] < MIN_GAP) return;
+      points.splice(index, 0, point);
+      this.emit();
+    }
+    this.dragIndex = index;
+    this.canvas.setPointerCapture(e.pointerId);
+  }
+
+  private onPointerMove(e: PointerEvent): void {
+    if (this.dragIndex === null) return;
+    const points = this.points;
+    const i = this.dragIndex;
+    const [x, y] = this.toCurve(e);
+    const lo = i > 0 ? points[i - 1][0] + MIN_GAP : 0;
+    const hi = i < points.length - 1 ? points[i + 1][0] - MIN_GAP : 1;
+    points[i] = [Math.min(hi, Math.max(lo, x)), y];
+    this.emit();
+  }
+
+  private onDoubleClick(e: MouseEvent): void {
+    const index = this.hitTest(e);
+    if (index === null || index === 0 || index === this.points.length - 1) return;
+    this.points.splice(index, 1);
+    this.dragIndex = null;
+    this.emit();
+  }
+
+  private emit(): void {
+    this.draw();
+    this.callbacks.onChange(cloneParamValue(this.value));
+  }
+
+  private draw(): void {
+    const ctx = this.canvas.getContext('2d')!;
+    const { width, height } = this.canvas;
+    const channel = CHANNELS.find((c) => c.id === this.channel)!;
+    ctx.fillStyle = '#1b1b1f';
+    ctx.fillRect(0, 0, width, height);
+
+    if (this.histogram) {
+      const bins = this.channel === 'master' ? this.histogram.luma : this.histogram[this.channel];
+      // Square-root scaling keeps sparse tones visible next to a dominant one.
+      const peak = Math.sqrt(Math.max(1, ...bins));
+      ctx.fillStyle = this.channel === 'master' ? 'rgba(255,255,255,0.14)' : `${channel.color}33`;
+      const binWidth = width / bins.length;
+      bins.forEach((count, i) => {
+        const h = (Math.sqrt(count) / peak) * height;
+        ctx.fillRect(i * binWidth, height - h, Math.ceil(binWidth), h);
+      });
+    }
+
+    ctx.strokeStyle = 'rgba(255,255,255,0.08)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let i = 1; i < 4; i++) {
+      ctx.moveTo((i * width) / 4, 0);
+      ctx.lineTo((i * width) / 4, height);
+      ctx.moveTo(0, (i * height) / 4);
+      ctx.lineTo(width, (i * height) / 4);
+    }
+    ctx.moveTo(0, height);
+    ctx.lineTo(width, 0);
+    ctx.stroke();
+
+    const ratio = width / SIZE;
+    ctx.strokeStyle = channel.color;
+    ctx.lineWidth = 1.5 * ratio;
+    ctx.beginPath();
+    for (let px = 0; px <= width; px++) {
+      const y = (1 - evaluateCurve(this.points, px / width)) * height;
+      if (px === 0) ctx.moveTo(px, y);
+      else ctx.lineTo(px, y);
+    }
+    ctx.stroke();
+
+    ctx.fillStyle = channel.color;
+    const half = 3 * ratio;
+    for (const [x, y] of this.points) {
+      ctx.fillRect(x * width - half, (1 - y) * height - half, half * 2, half * 2);
+    }
+  }
+}
@@ -1,20 +1,77 @@
-import type { LayerEffect, EffectParam } from '../effects/Effect';
+import type { LayerEffect, EffectDefinition, EffectLuminanceMask, EffectMask, EffectParam } from '../effects/Effect';
 import { effectRegistry } from '../effects/EffectRegistry';
-import { createLayerEffect } from '../effects/Effect';
+import { createEffectAsset, createLayerEffect } from '../effects/Effect';
+import { GPU_BLEND_MODES } from '../model/BlendModes';
+import type { BlendMode } from '../model/Layer';
+import { DRIVER_LIMITS, DRIVER_WAVES } from '../model/Animation';
+import type { DriverWave, ParamDriver } from '../model/Animation';
+import type { Histogram } from '../renderer/Histogram';
+import { CurveEditor } from './CurveEditor';
+
+/** Drag payload of an effect card: its index in the active layer's stack. */
+export const EFFECT_DRAG_TYPE = 'application/x-flyermaker-effect';
+
+const EFFECT_MASK_KINDS: Array<{ kind: EffectMask['type'] | ''; label: string }> = [
+  { kind: '', label: 'No mask' },
+  { kind: 'luminance', label: 'Luminance' },
+  { kind: 'raster', label: 'Painted' }
+];
+
+const DRIVER_FIELDS: Array<{ key: keyof typeof DRIVER_LIMITS; label: string; step: number }> = [
+  { key: 'rate', label: 'Hz', step: 0.05 },
+  { key: 'amount', label: 'Amt', step: 0.05 },
+  { key: 'phase', label: 'Phase', step: 0.05 }
+];
+
+const LUMINANCE_FIELDS: Array<{ key: 'min' | 'max' | 'feather'; label: string }> = [
+  { key: 'min', label: 'Min' },
+  { key: 'max', label: 'Max' },
+  { key: 'feather', label: 'Feather' }
+];
+
+export type EffectBlendPatch = Partial<Pick<LayerEffect, 'mix' | 'blendMode'>>;
+export type EffectMaskPatch = Partial<Omit<EffectLuminanceMask, 'type'>>;
+export type ParamDriverPatch = Partial<ParamDriver>;
 
 export interface EffectsPanelCallbacks {
   onAddEffect: (effect: LayerEffect) => void;
   onRemoveEffect: (index: number) => void;
+  /** Puts a copy of the effect on the effect clipboard, for Layer → Paste Effects. */
+  onCopyEffect: (index: number) => void;
+  /** Inserts a copy of the effect right below it. */
+  onDuplicateEffect: (index: number) => void;
   onToggleEffect: (index: number) => void;
   onUpdateParam: (index: number, paramKey: string, value: EffectParam['value']) => void;
   onMoveEffect: (fromIndex: number, toIndex: number) => void;
+  onChangeEffectBlend: (index: number, patch: EffectBlendPatch) => void;
+  /** Adds, replaces or (with null) removes the effect's mask. */
+  onSetEffectMask: (index: number, kind: EffectMask['type'] | null) => void;
+  /** Painted masks take only `enabled` and `inverted`. */
+  onChangeEffectMask: (index: number, patch: EffectMaskPatch) => void;
+  /** Points the Mask tool at the effect's painted mask, or back at the layer's with null. */
+  onPaintEffectMask: (index: number | null) => void;
+  /** Drives a numeric param with `wave`, or (with null) stops driving it. */
+  onSetParamDriver: (index: number, paramKey: string, wave: DriverWave | null) => void;
+  onChangeParamDriver: (index: number, paramKey: string, patch: ParamDriverPatch) => void;
+  /** Starts or pauses timeline playback, which drivers follow. */
+  onTogglePlay: () => void;
 }
 
 export class EffectsPanel {
+  private histogram: Histogram | null = null;
+  private playing = false;
+
   constructor(private readonly root: HTMLElement, private readonly callbacks: EffectsPanelCallbacks) {}
 
-  render(effects: LayerEffect[], hasActiveLayer: boolean): void {
+  /**
+   * `histogram` (of the active layer's content) backs the curve editors;
+   * `paintingIndex` is the effect whose painted mask the Mask tool edits;
+   * `playing` labels the drivers' play/pause buttons.
+   */
+  render(effects: LayerEffect[], hasActiveLayer: boolean, histogram: Histogram | null = null, paintingIndex: number | null = null, playing = false): void {
     this.root.innerHTML = '';
+    this.histogram = histogram;
+    this.playing = playing;
 
     if (!hasActiveLayer) {
       const empty = document.createElement('div');
@@ -57,10 +114,17 @@ export class EffectsPanel {
     effects.forEach((effect, index) => {
       const def = effectRegistry.get(effect.definitionId);
       const card = document.createElement('div');
-      card.className = `effect-card ${effect.enabled ? '' : 'effect-disabled'}`;
+      card.className = `effect-card ${effect.enabled ? '' : 'effect-disabled'} ${def ? '' : 'effect-missing'}`;
 
       const header = document.createElement('div');
       header.className = 'effect-header';
+      // Only the header drags, so sliders and inputs in the card keep working.
+      header.draggable = true;
+      header.title = 'Alt-drag onto a layer to copy this effect';
+      header.ondragstart = (e) => {
+        e.dataTransfer?.setData(EFFECT_DRAG_TYPE, `${index}`);
+        if (e.dataTransfer) e.dataTransfer.effectAllowed = 'copy';
+      };
 
       const toggle = document.createElement('input');
       toggle.type = 'checkbox';
@@ -73,7 +137,9 @@ export class EffectsPanel {
 
       const title = document.createElement('span');
       title.className = 'effect-title';
-      title.textContent = def?.name ?? effect.definitionId;
+      // Effects loaded from a project whose definition isn't registered stay
+      // in the stack as inert placeholders.
+      title.textContent = def?.name ?? `${effect.definitionId} (unavailable)`;
 
       const actions = document.createElement('div');
       actions.className = 'effect-actions';
@@ -95,6 +161,18 @@ export class EffectsPanel {
         actions.append(downBtn);
       }
 
+      const copyBtn = document.createElement('button');
+      copyBtn.className = 'effect-action-btn effect-copy-btn';
+      copyBtn.textContent = '\u2398';
+      copyBtn.title = 'Copy effect';
+      copyBtn.onclick = (e) => { e.stopPropagation(); this.callbacks.onCopyEffect(index); };
+      const duplicateBtn = document.createElement('button');
+      duplicateBtn.className = 'effect-action-btn effect-duplicate-btn';
+      duplicateBtn.textContent = '\u29C9';
+      duplicateBtn.title = 'Duplicate effect';
+      duplicateBtn.onclick = (e) => { e.stopPropagation(); this.callbacks.onDuplicateEffect(index); };
+      if (def) actions.append(copyBtn, duplicateBtn);
+
       const removeBtn = document.createElement('button');
       removeBtn.className = 'effect-action-btn effect-remove-btn';
       removeBtn.textContent = '\u2715';
@@ -102,14 +180,15 @@ export class EffectsPanel {
       removeBtn.onclick = (e) => { e.stopPropagation(); this.callbacks.onRemoveEffect(index); };
       actions.append(removeBtn);
 
-      header.append(toggle, title, actions);
+      header.append(toggle, title, actions, this.createBlendRow(index, effect));
+      if (effect.mask) header.append(this.createMaskRow(index, effect.mask, paintingIndex === index));
       card.append(header);
 
       const paramsContainer = document.createElement('div');
       paramsContainer.className = 'effect-params';
 
       for (const [key, param] of Object.entries(effect.params)) {
-        const control = this.createParamControl(index, key, param);
+        const control = this.createParamControl(index, key, param, def, effect.drivers[key]);
         paramsContainer.append(control);
       }
 
@@ -118,7 +197,150 @@ export class EffectsPanel {
     });
   }
 
-  private createParamControl(effectIndex: number, key: string, param: EffectParam): HTMLElement {
+  /** Mix, blend mode and mask kind, laid out like a layer row's controls. */
+  private createBlendRow(index: number, effect: LayerEffect): HTMLElement {
+    const row = document.createElement('div');
+    row.className = 'effect-blend-row';
+
+    const blend = document.createElement('select');
+    blend.className = 'blend-select effect-blend';
+    blend.title = 'Blend of the effect over its input';
+    for (const mode of GPU_BLEND_MODES) {
+      const opt = document.createElement('option');
+      opt.value = mode;
+      opt.textContent = mode;
+      blend.append(opt);
+    }
+    blend.value = effect.blendMode;
+    blend.onchange = () => this.callbacks.onChangeEffectBlend(index, { blendMode: blend.value as BlendMode });
+
+    const mix = document.createElement('input');
+    mix.className = 'opacity-input effect-mix';
+    mix.title = 'Effect mix';
+    mix.value = `${Math.round(effect.mix * 100)}%`;
+    mix.onchange = () => {
+      const value = Math.min(100, Math.max(0, Number(mix.value.replace('%', '')) || 0));
+      this.callbacks.onChangeEffectBlend(index, { mix: value / 100 });
+    };
+
+    const mask = document.createElement('select');
+    mask.className = 'blend-select effect-mask-select';
+    mask.title = 'Limit where the effect applies';
+    for (const { kind, label } of EFFECT_MASK_KINDS) {
+      const opt = document.createElement('option');
+      opt.value = kind;
+      opt.textContent = label;
+      mask.append(opt);
+    }
+    mask.value = effect.mask?.type ?? '';
+    mask.onchange = () => this.callbacks.onSetEffectMask(index, (mask.value || null) as EffectMask['type'] | null);
+
+    row.append(blend, mix, mask);
+    return row;
+  }
+
+  private createMaskRow(index: number, mask: EffectMask, painting: boolean): HTMLElement {
+    const row = document.createElement('div');
+    row.className = 'effect-mask-row';
+
+    const flag = (key: 'enabled' | 'inverted', text: string) => {
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.className = `effect-param-checkbox effect-mask-${key}`;
+      checkbox.checked = mask[key];
+      checkbox.onchange = () => this.callbacks.onChangeEffectMask(index, { [key]: checkbox.checked });
+      const label = document.createElement('label');
+      label.className = 'effect-mask-flag';
+      label.append(checkbox, text);
+      return label;
+    };
+    row.append(flag('enabled', 'On'), flag('inverted', 'Invert'));
+
+    if (mask.type === 'luminance') {
+      for (const { key, label } of LUMINANCE_FIELDS) {
+        const input = document.createElement('input');
+        input.type = 'number';
+        input.className = `effect-param-number effect-mask-${key}`;
+        input.title = `Luminance ${label.toLowerCase()}`;
+        input.min = '0';
+        input.max = '1';
+        input.step = '0.05';
+        input.value = `${mask[key]}`;
+        input.onchange = () => {
+          const value = parseFloat(input.value);
+          if (Number.isNaN(value)) {
+            input.value = `${mask[key]}`;
+            return;
+          }
+          this.callbacks.onChangeEffectMask(index, { [key]: Math.min(1, Math.max(0, value)) });
+        };
+        const field = document.createElement('label');
+        field.className = 'effect-mask-field';
+        field.append(label, input);
+        row.append(field);
+      }
+    } else {
+      const paint = document.createElement('button');
+      paint.className = `effect-mask-paint ${painting ? 'active' : ''}`;
+      paint.textContent = painting ? 'Painting' : 'Paint';
+      paint.title = painting ? 'Paint the layer mask again' : 'Paint this mask with the Mask tool';
+      paint.onclick = () => this.callbacks.onPaintEffectMask(painting ? null : index);
+      row.append(paint);
+    }
+    return row;
+  }
+
+  /** Wave, rate, amount and phase of a param's driver, plus the shared play/pause. */
+  private createDriverRow(index: number, key: string, driver: ParamDriver): HTMLElement {
+    const row = document.createElement('div');
+    row.className = 'effect-driver-row';
+
+    const wave = document.createElement('select');
+    wave.className = 'blend-select effect-driver-wave';
+    wave.title = 'Driver waveform';
+    for (const option of DRIVER_WAVES) {
+      const opt = document.createElement('option');
+      opt.value = option;
+      opt.textContent = option;
+      wave.append(opt);
+    }
+    wave.value = driver.wave;
+    wave.onchange = () => this.callbacks.onChangeParamDriver(index, key, { wave: wave.value as DriverWave });
+    row.append(wave);
+
+    for (const { key: field, label, step } of DRIVER_FIELDS) {
+      const { min, max } = DRIVER_LIMITS[field];
+      const input = document.createElement('input');
+      input.type = 'number';
+      input.className = `effect-param-number effect-driver-${field}`;
+      input.min = `${min}`;
+      input.max = `${max}`;
+      input.step = `${step}`;
+      input.value = `${driver[field]}`;
+      input.onchange = () => {
+        const value = parseFloat(input.value);
+        if (Number.isNaN(value)) {
+          input.value = `${driver[field]}`;
+          return;
+        }
+        this.callbacks.onChangeParamDriver(index, key, { [field]: Math.min(max, Math.max(min, value)) });
+      };
+      const wrap = document.createElement('label');
+      wrap.className = 'effect-mask-field';
+      wrap.append(label, input);
+      row.append(wrap);
+    }
+
+    const play = document.createElement('button');
+    play.className = `effect-driver-play ${this.playing ? 'active' : ''}`;
+    play.textContent = this.playing ? 'Pause' : 'Play';
+    play.title = 'Play the timeline to preview drivers';
+    play.onclick = () => this.callbacks.onTogglePlay();
+    row.append(play);
+    return row;
+  }
+
+  private createParamControl(effectIndex: number, key: string, param: EffectParam, def: EffectDefinition | undefined, driver: ParamDriver | undefined): HTMLElement {
     const row = document.createElement('div');
     row.className = 'effect-param-row';
 
@@ -166,8 +388,18 @@ export class EffectsPanel {
           this.callbacks.onUpdateParam(effectIndex, key, clamped);
         };
 
-        wrapper.append(slider, numInput);
+        const driverBtn = document.createElement('button');
+        driverBtn.className = `effect-action-btn effect-driver-btn ${driver ? 'active' : ''}`;
+        driverBtn.textContent = '\u223F';
+        driverBtn.title = driver ? 'Stop driving this param' : 'Drive this param with an LFO, noise or ramp';
+        driverBtn.onclick = () => this.callbacks.onSetParamDriver(effectIndex, key, driver ? null : 'sine');
+
+        wrapper.append(slider, numInput, driverBtn);
         row.append(label, wrapper);
+        if (driver) {
+          row.classList.add('effect-param-driven');
+          row.append(this.createDriverRow(effectIndex, key, driver));
+        }
         break;
       }
       case 'color': {
@@ -215,6 +447,61 @@ export class EffectsPanel {
         row.append(label, sel);
         break;
       }
+      case 'curve': {
+        const editor = new CurveEditor(param.value, this.histogram, {
+          onChange: (value) => this.callbacks.onUpdateParam(effectIndex, key, value)
+        });
+        row.classList.add('effect-param-curve');
+        row.append(label, editor.element);
+        break;
+      }
+      case 'file': {
+        const wrapper = document.createElement('div');
+        wrapper.className = 'effect-param-file';
+
+        const name = document.createElement('span');
+        name.className = 'effect-param-file-name';
+        name.textContent = param.value?.name ?? 'None';
+        name.title = name.textContent;
+
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = param.accept;
+        input.hidden = true;
+
+        const loadBtn = document.createElement('button');
+        loadBtn.className = 'effect-param-file-btn';
+        loadBtn.textContent = 'Load\u2026';
+        loadBtn.onclick = () => input.click();
+
+        const error = document.createElement('div');
+        error.className = 'effect-param-error';
+        error.hidden = true;
+
+        input.onchange = async () => {
+          const file = input.files?.[0];
+          input.value = '';
+          if (!file) return;
+          const asset = createEffectAsset(file.name, await file.text());
+          try {
+            def?.validateAsset?.(key, asset);
+          } catch (err) {
+            error.textContent = `${file.name}: ${err instanceof Error ? err.message : 'unreadable file'}`;
+            error.hidden = false;
+            return;
+          }
+          error.hidden = true;
+          // The panel isn't rebuilt on param updates, so label the new file here.
+          name.textContent = asset.name;
+          name.title = asset.name;
+          this.callbacks.onUpdateParam(effectIndex, key, asset);
+        };
+
+        wrapper.append(name, loadBtn, input);
+        row.classList.add('effect-param-file-row');
+        row.append(label, wrapper, error);
+        break;
+      }
     }
 
     return row;
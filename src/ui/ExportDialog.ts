@@ -0,0 +1,152 @@
+import { ANIMATED_FORMATS } from '../io/Exporter';
+import type { ExportFormat, ExportOptions } from '../io/Exporter';
+
+const FORMAT_OPTIONS: Array<[ExportFormat, string]> = [
+  ['png', 'PNG'],
+  ['jpeg', 'JPEG'],
+  ['webp', 'WebP'],
+  ['gif', 'Animated GIF'],
+  ['webp-animated', 'Animated WebP'],
+  ['png-sequence', 'PNG sequence (.zip)']
+];
+/** Formats whose encoder takes no quality setting. */
+const LOSSLESS_FORMATS: ExportFormat[] = ['png', 'gif', 'png-sequence'];
+const SCALE_OPTIONS = [1, 2, 3];
+
+export interface ExportDialogCallbacks {
+  onExport: (options: ExportOptions) => Promise<void>;
+}
+
+export class ExportDialog {
+  private backdrop: HTMLElement | null = null;
+  private options: ExportOptions = { format: 'png', quality: 0.92, scale: 1 };
+
+  constructor(private readonly root: HTMLElement, private readonly callbacks: ExportDialogCallbacks) {}
+
+  get isOpen(): boolean {
+    return this.backdrop !== null;
+  }
+
+  /** `frames` is the length of the document's timeline, shown for animated formats. */
+  open(documentWidth: number, documentHeight: number, frames: number): void {
+    this.close();
+
+    const backdrop = document.createElement('div');
+    backdrop.className = 'modal-backdrop';
+    backdrop.onclick = (event) => {
+      if (event.target === backdrop) this.close();
+    };
+
+    const dialog = document.createElement('div');
+    dialog.className = 'modal';
+    dialog.id = 'export-dialog';
+
+    const title = document.createElement('div');
+    title.className = 'modal-title';
+    title.textContent = 'Export';
+
+    const format = document.createElement('select');
+    format.id = 'export-format';
+    format.className = 'opt-select';
+    for (const [value, label] of FORMAT_OPTIONS) {
+      const opt = document.createElement('option');
+      opt.value = value;
+      opt.textContent = label;
+      format.append(opt);
+    }
+    format.value = this.options.format;
+
+    const quality = document.createElement('input');
+    quality.id = 'export-quality';
+    quality.type = 'range';
+    quality.min = '0.1';
+    quality.max = '1';
+    quality.step = '0.01';
+    quality.value = `${this.options.quality}`;
+    const qualityValue = document.createElement('span');
+    qualityValue.className = 'modal-value';
+
+    const scale = document.createElement('select');
+    scale.id = 'export-scale';
+    scale.className = 'opt-select';
+    for (const factor of SCALE_OPTIONS) {
+      const opt = document.createElement('option');
+      opt.value = `${factor}`;
+      opt.textContent = `${factor}x`;
+      scale.append(opt);
+    }
+    scale.value = `${this.options.scale}`;
+
+    const size = document.createElement('div');
+    size.id = 'export-size';
+    size.className = 'modal-hint';
+
+    const sync = () => {
+      this.options = {
+        format: format.value as ExportFormat,
+        quality: Number(quality.value),
+        scale: Number(scale.value)
+      };
+      quality.disabled = LOSSLESS_FORMATS.includes(this.options.format);
+      qualityValue.textContent = `${Math.round(this.options.quality * 100)}%`;
+      const frameText = ANIMATED_FORMATS.includes(this.options.format) ? ` · ${frames} frames` : '';
+      size.textContent = `${Math.round(documentWidth * this.options.scale)} × ${Math.round(documentHeight * this.options.scale)} px${frameText}`;
+    };
+    format.onchange = sync;
+    quality.oninput = sync;
+    scale.onchange = sync;
+    sync();
+
+    const qualityWrap = document.createElement('div');
+    qualityWrap.className = 'modal-inline';
+    qualityWrap.append(quality, qualityValue);
+
+    const actions = document.createElement('div');
+    actions.className = 'modal-actions';
+    const cancel = document.createElement('button');
+    cancel.className = 'opt-btn';
+    cancel.textContent = 'Cancel';
+    cancel.onclick = () => this.close();
+    const confirm = document.createElement('button');
+    confirm.id = 'export-confirm';
+    confirm.className = 'opt-btn modal-primary';
+    confirm.textContent = 'Export';
+    confirm.onclick = async () => {
+      confirm.disabled = true;
+      try {
+        await this.callbacks.onExport({ ...this.options });
+        this.close();
+      } finally {
+        confirm.disabled = false;
+      }
+    };
+    actions.append(cancel, confirm);
+
+    dialog.append(
+      title,
+      this.field('Format', format),
+      this.field('Quality', qualityWrap),
+      this.field('Scale', scale),
+      size,
+      actions
+    );
+    backdrop.append(dialog);
+    this.root.append(backdrop);
+    this.backdrop = backdrop;
+  }
+
+  close(): void {
+    this.backdrop?.remove();
+    this.backdrop = null;
+  }
+
+  private field(labelText: string, control: HTMLElement): HTMLElement {
+    const row = document.createElement('label');
+    row.className = 'modal-field';
+    const label = document.createElement('span');
+    label.className = 'opt-label';
+    label.textContent = labelText;
+    row.append(label, control);
+    return row;
+  }
+}
@@ -1,29 +1,103 @@
 import type { BlendMode, Layer } from '../model/Layer';
+import { CANVAS_BLEND_MODES } from '../model/BlendModes';
+import { EFFECT_DRAG_TYPE } from './EffectsPanel';
 
-const BLEND_OPTIONS: BlendMode[] = [
-  'source-over', 'multiply', 'screen', 'overlay', 'darken', 'lighten', 'color-dodge', 'color-burn',
-  'hard-light', 'soft-light', 'difference', 'exclusion', 'hue', 'saturation', 'color', 'luminosity'
-];
+function layerMeta(layer: Layer): string {
+  const { content } = layer;
+  switch (content.type) {
+    case 'image':
+      return `${content.naturalWidth}×${content.naturalHeight}`;
+    case 'text':
+      return `Text · ${content.fontSize}px`;
+    case 'shape':
+      return content.shape.charAt(0).toUpperCase() + content.shape.slice(1);
+    case 'group':
+      return `Group · ${content.children.length} ${content.children.length === 1 ? 'layer' : 'layers'}`;
+    case 'adjustment':
+      return `Adjustment · ${layer.effects.length} ${layer.effects.length === 1 ? 'effect' : 'effects'}`;
+  }
+}
 
 export interface LayersPanelCallbacks {
-  onSelectLayer: (id: string) => void;
+  /** `additive` is true for Shift/Cmd-clicks, which toggle the layer in the selection. */
+  onSelectLayer: (id: string, additive: boolean) => void;
   onDeleteLayer: (id: string) => void;
   onToggleVisibility: (id: string) => void;
   onChangeOpacity: (id: string, opacity: number) => void;
   onChangeBlendMode: (id: string, blendMode: BlendMode) => void;
+  /**
+   * Drag-and-drop: moves `id` into `parentId` (null for top level) so it
+   * lands in stack slot `index` of that container, counted before removal.
+   */
+  onMoveLayer: (id: string, parentId: string | null, index: number) => void;
+  onRenameLayer: (id: string, name: string) => void;
+  onToggleLock: (id: string) => void;
+  onToggleMask: (id: string) => void;
+  /** Alt-click: clips the layer to the one below, or releases it. */
+  onToggleClip: (id: string) => void;
+  /** Alt-drop of an effect card: appends a copy of the active layer's effect `effectIndex` to `id`. */
+  onDropEffect: (id: string, effectIndex: number) => void;
+}
+
+/** Cached previews from the renderer; the same canvases are re-attached on every render rather than redrawn. */
+export interface LayerPreviews {
+  thumbnail: (id: string) => HTMLCanvasElement | null;
+  maskThumbnail: (id: string) => HTMLCanvasElement | null;
 }
 
+type DropPosition = 'above' | 'below' | 'inside';
+
+const DRAG_TYPE = 'application/x-flyermaker-layer';
+
+/** Extra left padding marking a clipped layer. */
+const CLIP_INDENT = 14;
+
 export class LayersPanel {
+  /** Group ids whose children are hidden; view state only, not part of the document. */
+  private readonly collapsed = new Set<string>();
+  private layers: Layer[] = [];
+  private activeLayerId: string | null = null;
+  private selectedIds: ReadonlySet<string> = new Set();
+  private previews: LayerPreviews = { thumbnail: () => null, maskThumbnail: () => null };
+  /** Modes the active compositor renders; the app widens this when GPU blending is on. */
+  blendModes: BlendMode[] = CANVAS_BLEND_MODES;
+
   constructor(private readonly root: HTMLElement, private readonly callbacks: LayersPanelCallbacks) {}
 
-  render(layers: Layer[], activeLayerId: string | null): void {
+  render(layers: Layer[], activeLayerId: string | null, selectedIds: ReadonlySet<string>, previews = this.previews): void {
+    this.layers = layers;
+    this.activeLayerId = activeLayerId;
+    this.selectedIds = selectedIds;
+    this.previews = previews;
     this.root.innerHTML = '';
+    this.renderRows(layers, null, 0);
+  }
 
+  /** Appends rows top-first, recursing into expanded groups. */
+  private renderRows(layers: Layer[], parentId: string | null, depth: number): void {
+    const { activeLayerId, selectedIds } = this;
     [...layers]
       .reverse()
       .forEach((layer) => {
+        const index = layers.indexOf(layer);
+        const isGroup = layer.content.type === 'group';
         const row = document.createElement('div');
-        row.className = `layer-item ${activeLayerId === layer.id ? 'selected' : ''}`;
+        row.className = `layer-item ${selectedIds.has(layer.id) ? 'selected' : ''} ${activeLayerId === layer.id ? 'active' : ''}`;
+        row.dataset.layerId = layer.id;
+        // The bottom layer of a container has nothing to clip to, so it draws unclipped.
+        const clipped = layer.clipToBelow && index > 0;
+        row.style.paddingLeft = `${8 + depth * 14 + (clipped ? CLIP_INDENT : 0)}px`;
+        if (isGroup) row.classList.add('layer-group');
+        if (clipped) {
+          const marker = document.createElement('span');
+          marker.className = 'layer-clip-marker';
+          marker.textContent = '↳';
+          marker.title = 'Clipped to the layer below (Alt-click to release)';
+          marker.style.left = `${8 + depth * 14}px`;
+          row.classList.add('layer-clipped');
+          row.append(marker);
+        }
+        if (layer.mask) row.classList.add('layer-masked');
 
         const visibility = document.createElement('button');
         visibility.className = 'layer-vis';
@@ -34,18 +108,44 @@ export class LayersPanel {
           this.callbacks.onToggleVisibility(layer.id);
         };
 
+        const preview = document.createElement('div');
+        preview.className = 'layer-thumb';
+        const thumb = this.previews.thumbnail(layer.id);
+        if (thumb) preview.append(thumb);
+        if (layer.content.type === 'adjustment') {
+          preview.classList.add('layer-thumb-adjustment');
+          preview.textContent = '◐';
+        }
+
+        let maskPreview: HTMLElement | null = null;
+        if (layer.mask) {
+          const { enabled } = layer.mask;
+          maskPreview = document.createElement('div');
+          maskPreview.className = `layer-thumb layer-mask-thumb ${enabled ? '' : 'disabled'}`;
+          maskPreview.title = enabled ? 'Click to disable mask' : 'Click to enable mask';
+          const maskThumb = this.previews.maskThumbnail(layer.id);
+          if (maskThumb) maskPreview.append(maskThumb);
+          maskPreview.onclick = (event) => {
+            event.stopPropagation();
+            this.callbacks.onToggleMask(layer.id);
+          };
+        }
+
         const info = document.createElement('div');
         info.className = 'layer-info';
 
         const name = document.createElement('div');
         name.className = 'layer-name';
         name.textContent = layer.name;
+        name.title = 'Double-click to rename';
+        name.ondblclick = (event) => {
+          event.stopPropagation();
+          this.beginRename(name, layer);
+        };
 
         const meta = document.createElement('div');
         meta.className = 'layer-meta';
-        meta.textContent = layer.content.type === 'image'
-          ? `${layer.content.naturalWidth}×${layer.content.naturalHeight}`
-          : layer.content.type;
+        meta.textContent = layerMeta(layer);
 
         const controls = document.createElement('div');
         controls.className = 'layer-controls';
@@ -53,10 +153,12 @@ export class LayersPanel {
         const blend = document.createElement('select');
         blend.className = 'blend-select layer-blend';
         blend.title = 'Layer blend mode';
-        for (const mode of BLEND_OPTIONS) {
+        // A mode saved while the GPU path was active stays listed, rendered approximately.
+        const modes = this.blendModes.includes(layer.blendMode) ? this.blendModes : [...this.blendModes, layer.blendMode];
+        for (const mode of modes) {
           const opt = document.createElement('option');
           opt.value = mode;
-          opt.textContent = mode;
+          opt.textContent = this.blendModes.includes(mode) ? mode : `${mode} (approx.)`;
           blend.append(opt);
         }
         blend.value = layer.blendMode;
@@ -81,7 +183,7 @@ export class LayersPanel {
         info.append(name, meta, controls);
 
         const remove = document.createElement('button');
-        remove.className = 'layer-lock';
+        remove.className = 'layer-delete';
         remove.textContent = '✕';
         remove.title = 'Delete layer';
         remove.onclick = (event) => {
@@ -89,9 +191,126 @@ export class LayersPanel {
           this.callbacks.onDeleteLayer(layer.id);
         };
 
-        row.onclick = () => this.callbacks.onSelectLayer(layer.id);
-        row.append(visibility, info, remove);
+        const lock = document.createElement('button');
+        lock.className = `layer-lock ${layer.locked ? 'locked' : ''}`;
+        lock.textContent = layer.locked ? '🔒' : '🔓';
+        lock.title = layer.locked ? 'Unlock layer' : 'Lock layer position';
+        lock.onclick = (event) => {
+          event.stopPropagation();
+          this.callbacks.onToggleLock(layer.id);
+        };
+
+        const actions = document.createElement('div');
+        actions.className = 'layer-actions';
+        actions.append(remove, lock);
+
+        row.onclick = (event) => {
+          if (event.altKey) this.callbacks.onToggleClip(layer.id);
+          else this.callbacks.onSelectLayer(layer.id, event.shiftKey || event.metaKey || event.ctrlKey);
+        };
+        this.bindDrag(row, layer, parentId, index);
+
+        if (isGroup) {
+          const caret = document.createElement('button');
+          caret.className = 'layer-caret';
+          const collapsed = this.collapsed.has(layer.id);
+          caret.textContent = collapsed ? '▸' : '▾';
+          caret.title = collapsed ? 'Expand group' : 'Collapse group';
+          caret.onclick = (event) => {
+            event.stopPropagation();
+            if (collapsed) this.collapsed.delete(layer.id);
+            else this.collapsed.add(layer.id);
+            this.render(this.layers, activeLayerId, selectedIds);
+          };
+          row.append(caret);
+        }
+        row.append(visibility, preview);
+        if (maskPreview) row.append(maskPreview);
+        row.append(info, actions);
         this.root.append(row);
+
+        if (layer.content.type === 'group' && !this.collapsed.has(layer.id)) {
+          this.renderRows(layer.content.children, layer.id, depth + 1);
+        }
       });
   }
+
+  /** Swaps the name label for an input; Enter or blur commits, Escape cancels. */
+  private beginRename(label: HTMLElement, layer: Layer): void {
+    const input = document.createElement('input');
+    input.className = 'opt-input layer-rename';
+    input.value = layer.name;
+    let done = false;
+    const finish = (commit: boolean) => {
+      if (done) return;
+      done = true;
+      const next = input.value.trim();
+      if (commit && next && next !== layer.name) this.callbacks.onRenameLayer(layer.id, next);
+      else input.replaceWith(label);
+    };
+    input.onclick = (event) => event.stopPropagation();
+    input.onmousedown = (event) => event.stopPropagation();
+    input.onkeydown = (event) => {
+      event.stopPropagation();
+      if (event.key === 'Enter') finish(true);
+      if (event.key === 'Escape') finish(false);
+    };
+    input.onblur = () => finish(true);
+    label.replaceWith(input);
+    input.focus();
+    input.select();
+  }
+
+  /**
+   * Rows are drop targets: the upper or lower part of a row inserts above or
+   * below it in the same container, and the middle of a group row drops
+   * into the group. An indicator line shows where the layer will land.
+   * Effect cards Alt-dragged from the Effects panel drop onto the whole row.
+   */
+  private bindDrag(row: HTMLElement, layer: Layer, parentId: string | null, index: number): void {
+    const isGroup = layer.content.type === 'group';
+    const positionAt = (event: DragEvent): DropPosition => {
+      const rect = row.getBoundingClientRect();
+      const t = (event.clientY - rect.top) / rect.height;
+      if (isGroup) return t < 0.25 ? 'above' : t > 0.75 ? 'below' : 'inside';
+      return t < 0.5 ? 'above' : 'below';
+    };
+    const clearIndicator = () => row.classList.remove('drop-above', 'drop-below', 'drop-inside', 'drop-effect');
+
+    row.draggable = true;
+    row.ondragstart = (event) => {
+      event.dataTransfer?.setData(DRAG_TYPE, layer.id);
+      if (event.dataTransfer) event.dataTransfer.effectAllowed = 'move';
+    };
+    row.ondragover = (event) => {
+      if (event.dataTransfer?.types.includes(EFFECT_DRAG_TYPE)) {
+        clearIndicator();
+        if (!event.altKey) return;
+        event.preventDefault();
+        event.dataTransfer.dropEffect = 'copy';
+        row.classList.add('drop-effect');
+        return;
+      }
+      if (!event.dataTransfer?.types.includes(DRAG_TYPE)) return;
+      event.preventDefault();
+      clearIndicator();
+      row.classList.add(`drop-${positionAt(event)}`);
+    };
+    row.ondragleave = clearIndicator;
+    row.ondrop = (event) => {
+      event.preventDefault();
+      clearIndicator();
+      const effectIndex = event.dataTransfer?.getData(EFFECT_DRAG_TYPE);
+      if (effectIndex) {
+        if (event.altKey) this.callbacks.onDropEffect(layer.id, Number(effectIndex));
+        return;
+      }
+      const dragged = event.dataTransfer?.getData(DRAG_TYPE);
+      if (!dragged || dragged === layer.id) return;
+      // Rows list the stack top-first, so "above" means one slot higher.
+      const position = positionAt(event);
+      if (position === 'inside') this.callbacks.onMoveLayer(dragged, layer.id, Number.POSITIVE_INFINITY);
+      else this.callbacks.onMoveLayer(dragged, parentId, position === 'above' ? index + 1 : index);
+    };
+  }
 }
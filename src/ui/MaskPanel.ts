@@ -0,0 +1,132 @@
+import type { GradientMask, LayerMask, ShapeMask } from '../model/Layer';
+import type { MaskKind } from '../tools/MaskTool';
+
+const MASK_KINDS: Array<{ kind: MaskKind; label: string }> = [
+  { kind: 'raster', label: 'Paint' },
+  { kind: 'gradient', label: 'Gradient' },
+  { kind: 'shape', label: 'Shape' }
+];
+
+export type MaskPatch = Partial<Omit<GradientMask, 'type'>> | Partial<Omit<ShapeMask, 'type'>> | Partial<Pick<LayerMask, 'enabled' | 'inverted'>>;
+
+export interface MaskPanelCallbacks {
+  onAddMask: (kind: MaskKind) => void;
+  onChange: (patch: MaskPatch) => void;
+  /** Painted masks only: resets every pixel to visible or hidden. */
+  onFill: (visible: boolean) => void;
+  onRemoveMask: () => void;
+}
+
+export class MaskPanel {
+  constructor(private readonly root: HTMLElement, private readonly callbacks: MaskPanelCallbacks) {}
+
+  /** `hasLayer` false hides the panel; a null mask shows the "add" buttons. */
+  render(mask: LayerMask | null, hasLayer: boolean): void {
+    const panel = this.root.closest<HTMLElement>('.panel');
+    if (panel) panel.hidden = !hasLayer;
+    this.root.innerHTML = '';
+    if (!hasLayer) return;
+
+    if (!mask) {
+      const actions = document.createElement('div');
+      actions.className = 'transform-actions transform-actions-wide';
+      for (const { kind, label } of MASK_KINDS) {
+        actions.append(this.button(`mask-add-${kind}`, label, `Add a ${label.toLowerCase()} mask`, () => this.callbacks.onAddMask(kind)));
+      }
+      this.root.append(actions);
+      return;
+    }
+
+    const toggles = document.createElement('div');
+    toggles.className = 'transform-actions transform-actions-wide';
+    const enabled = this.button('mask-enabled', 'Enabled', 'Toggle the mask', () => this.callbacks.onChange({ enabled: !mask.enabled }));
+    enabled.classList.toggle('active', mask.enabled);
+    const inverted = this.button('mask-invert', 'Invert', 'Swap hidden and visible areas', () => this.callbacks.onChange({ inverted: !mask.inverted }));
+    inverted.classList.toggle('active', mask.inverted);
+    toggles.append(enabled, inverted, this.button('mask-remove', 'Remove', 'Delete the mask', () => this.callbacks.onRemoveMask()));
+    this.root.append(toggles);
+
+    switch (mask.type) {
+      case 'raster': {
+        const fills = document.createElement('div');
+        fills.className = 'transform-actions transform-actions-wide';
+        fills.append(
+          this.button('mask-fill-white', 'Reveal all', 'Fill the mask with white', () => this.callbacks.onFill(true)),
+          this.button('mask-fill-black', 'Hide all', 'Fill the mask with black', () => this.callbacks.onFill(false))
+        );
+        this.root.append(fills);
+        break;
+      }
+      case 'gradient':
+        this.root.append(
+          this.field('Kind', this.select('mask-gradient-kind', ['linear', 'radial'], mask.kind, (kind) => ({ kind: kind as GradientMask['kind'] })))
+        );
+        if (mask.kind === 'linear') {
+          this.root.append(this.field('Angle', this.number('mask-gradient-angle', mask.angle, -360, 360, 1, (angle) => ({ angle }))));
+        }
+        this.root.append(
+          this.field('Start %', this.number('mask-gradient-start', Math.round(mask.start * 100), 0, 100, 1, (start) => ({ start: start / 100 }))),
+          this.field('End %', this.number('mask-gradient-end', Math.round(mask.end * 100), 0, 100, 1, (end) => ({ end: end / 100 })))
+        );
+        break;
+      case 'shape':
+        this.root.append(
+          this.field('Shape', this.select('mask-shape', ['rectangle', 'ellipse'], mask.shape, (shape) => ({ shape: shape as ShapeMask['shape'] }))),
+          this.field('Inset %', this.number('mask-shape-inset', Math.round(mask.inset * 100), 0, 50, 1, (inset) => ({ inset: inset / 100 }))),
+          this.field('Feather', this.number('mask-shape-feather', mask.feather, 0, 1000, 1, (feather) => ({ feather })))
+        );
+        break;
+    }
+  }
+
+  private button(id: string, text: string, title: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.id = id;
+    button.className = 'opt-btn';
+    button.textContent = text;
+    button.title = title;
+    button.onclick = onClick;
+    return button;
+  }
+
+  private field(labelText: string, control: HTMLElement): HTMLElement {
+    const label = document.createElement('label');
+    label.append(labelText, control);
+    return label;
+  }
+
+  private select(id: string, options: string[], value: string, patch: (value: string) => MaskPatch): HTMLSelectElement {
+    const select = document.createElement('select');
+    select.id = id;
+    select.className = 'opt-select';
+    for (const option of options) {
+      const opt = document.createElement('option');
+      opt.value = option;
+      opt.textContent = option;
+      select.append(opt);
+    }
+    select.value = value;
+    select.onchange = () => this.callbacks.onChange(patch(select.value));
+    return select;
+  }
+
+  private number(id: string, value: number, min: number, max: number, step: number, patch: (value: number) => MaskPatch): HTMLInputElement {
+    const input = document.createElement('input');
+    input.type = 'number';
+    input.id = id;
+    input.className = 'opt-select';
+    input.min = `${min}`;
+    input.max = `${max}`;
+    input.step = `${step}`;
+    input.value = `${value}`;
+    input.onchange = () => {
+      const parsed = Number(input.value);
+      if (!Number.isFinite(parsed)) {
+        input.value = `${value}`;
+        return;
+      }
+      this.callbacks.onChange(patch(Math.min(max, Math.max(min, parsed))));
+    };
+    return input;
+  }
+}
@@ -0,0 +1,118 @@
+import type { EffectPreset } from '../io/PresetFile';
+
+export interface PresetsPanelCallbacks {
+  /** Saves the active layer's effect stack as a new preset. */
+  onSave: (name: string) => void;
+  /** Overwrites the preset with the active layer's effect stack. */
+  onUpdate: (id: string) => void;
+  /** Replaces the effect stack of the active layer, or of every selected layer. */
+  onApply: (id: string, toSelection: boolean) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+}
+
+export interface PresetsPanelState {
+  hasActiveLayer: boolean;
+  selectionCount: number;
+  /** Result of the last import or library operation; errors span lines. */
+  message: string | null;
+}
+
+export class PresetsPanel {
+  private selectedId: string | null = null;
+
+  constructor(private readonly root: HTMLElement, private readonly callbacks: PresetsPanelCallbacks) {}
+
+  render(presets: EffectPreset[], state: PresetsPanelState): void {
+    this.root.innerHTML = '';
+    if (!presets.some((preset) => preset.id === this.selectedId)) this.selectedId = presets[0]?.id ?? null;
+    const selected = this.selectedId;
+
+    const select = document.createElement('select');
+    select.id = 'preset-select';
+    select.className = 'opt-select';
+    if (presets.length === 0) {
+      const empty = document.createElement('option');
+      empty.textContent = 'No presets yet';
+      empty.value = '';
+      select.append(empty);
+      select.disabled = true;
+    }
+    for (const preset of presets) {
+      const opt = document.createElement('option');
+      opt.value = preset.id;
+      opt.textContent = `${preset.name} (${preset.effects.length})`;
+      select.append(opt);
+    }
+    if (selected) select.value = selected;
+    select.onchange = () => { this.selectedId = select.value; };
+    const field = document.createElement('label');
+    field.className = 'text-field-wide';
+    field.append('Preset', select);
+    this.root.append(field);
+
+    const withSelected = (action: (id: string) => void) => () => {
+      if (this.selectedId) action(this.selectedId);
+    };
+
+    const apply = document.createElement('div');
+    apply.className = 'transform-actions transform-actions-wide';
+    apply.append(
+      this.button('preset-apply', 'Apply', 'Replace the active layer\'s effects with this preset', !selected || !state.hasActiveLayer,
+        withSelected((id) => this.callbacks.onApply(id, false))),
+      this.button('preset-apply-selection', 'Apply to selection', 'Replace the effects of every selected layer with this preset',
+        !selected || state.selectionCount === 0, withSelected((id) => this.callbacks.onApply(id, true)))
+    );
+
+    const manage = document.createElement('div');
+    manage.className = 'transform-actions transform-actions-wide';
+    manage.append(
+      this.button('preset-save', 'Save new', 'Save the active layer\'s effects as a new preset', !state.hasActiveLayer, () => {
+        const name = window.prompt('Preset name')?.trim();
+        if (name) this.callbacks.onSave(name);
+      }),
+      this.button('preset-update', 'Update', 'Overwrite this preset with the active layer\'s effects', !selected || !state.hasActiveLayer,
+        withSelected((id) => this.callbacks.onUpdate(id))),
+      this.button('preset-delete', 'Delete', 'Remove this preset from the library', !selected, withSelected((id) => this.callbacks.onDelete(id)))
+    );
+
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.id = 'preset-import-input';
+    input.accept = '.json,application/json';
+    input.hidden = true;
+    input.onchange = () => {
+      const file = input.files?.[0];
+      input.value = '';
+      if (file) this.callbacks.onImport(file);
+    };
+    const share = document.createElement('div');
+    share.className = 'transform-actions transform-actions-wide';
+    share.append(
+      this.button('preset-import', 'Import…', 'Add presets from a JSON file', false, () => input.click()),
+      this.button('preset-export', 'Export', 'Download every preset as JSON', presets.length === 0, () => this.callbacks.onExport()),
+      input
+    );
+
+    this.root.append(apply, manage, share);
+
+    if (state.message) {
+      const message = document.createElement('div');
+      message.className = 'preset-message';
+      message.textContent = state.message;
+      this.root.append(message);
+    }
+  }
+
+  private button(id: string, text: string, title: string, disabled: boolean, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.id = id;
+    button.className = 'opt-btn';
+    button.textContent = text;
+    button.title = title;
+    button.disabled = disabled;
+    button.onclick = onClick;
+    return button;
+  }
+}
@@ -0,0 +1,109 @@
+import type { ShapeContent, ShapeFill } from '../model/Layer';
+import { regularPolygonPoints } from '../renderer/ShapeRasterizer';
+
+const FILL_TYPES: Array<ShapeFill['type']> = ['none', 'solid', 'linear', 'radial'];
+
+export type ShapePatch = Partial<Omit<ShapeContent, 'type' | 'shape'>>;
+
+export interface ShapePanelCallbacks {
+  onChange: (patch: ShapePatch) => void;
+}
+
+export class ShapePanel {
+  constructor(private readonly root: HTMLElement, private readonly callbacks: ShapePanelCallbacks) {}
+
+  render(content: ShapeContent | null): void {
+    const panel = this.root.closest<HTMLElement>('.panel');
+    if (panel) panel.hidden = !content;
+    this.root.innerHTML = '';
+    if (!content) return;
+
+    const { fill } = content;
+    if (content.shape !== 'line') {
+      const fillType = document.createElement('select');
+      fillType.id = 'shape-fill-type';
+      fillType.className = 'opt-select';
+      for (const type of FILL_TYPES) {
+        const opt = document.createElement('option');
+        opt.value = type;
+        opt.textContent = type;
+        fillType.append(opt);
+      }
+      fillType.value = fill.type;
+      fillType.onchange = () => this.callbacks.onChange({ fill: convertFill(fill, fillType.value as ShapeFill['type']) });
+      this.root.append(this.field('Fill', fillType));
+
+      if (fill.type === 'solid') {
+        this.root.append(this.field('Color', this.color('shape-fill-color', fill.color, (color) => ({ fill: { ...fill, color } }))));
+      } else if (fill.type === 'linear' || fill.type === 'radial') {
+        this.root.append(
+          this.field('From', this.color('shape-fill-from', fill.from, (from) => ({ fill: { ...fill, from } }))),
+          this.field('To', this.color('shape-fill-to', fill.to, (to) => ({ fill: { ...fill, to } })))
+        );
+        if (fill.type === 'linear') {
+          this.root.append(this.field('Angle', this.number('shape-fill-angle', fill.angle, -360, 1, (angle) => ({ fill: { ...fill, angle } }))));
+        }
+      }
+    }
+
+    this.root.append(
+      this.field('Stroke', this.color('shape-stroke', content.stroke, (stroke) => ({ stroke }))),
+      this.field('Stroke W', this.number('shape-stroke-width', content.strokeWidth, 0, 1, (strokeWidth) => ({ strokeWidth })))
+    );
+    if (content.shape === 'rectangle') {
+      this.root.append(this.field('Radius', this.number('shape-corner-radius', content.cornerRadius, 0, 1, (cornerRadius) => ({ cornerRadius }))));
+    }
+    if (content.shape === 'polygon') {
+      this.root.append(this.field('Sides', this.number('shape-sides', content.points.length, 3, 1, (sides) => ({ points: regularPolygonPoints(sides) }))));
+    }
+  }
+
+  private field(labelText: string, control: HTMLElement): HTMLElement {
+    const label = document.createElement('label');
+    label.append(labelText, control);
+    return label;
+  }
+
+  private color(id: string, value: string, patch: (value: string) => ShapePatch): HTMLInputElement {
+    const input = document.createElement('input');
+    input.type = 'color';
+    input.id = id;
+    input.className = 'effect-param-color';
+    input.value = value;
+    input.onchange = () => this.callbacks.onChange(patch(input.value));
+    return input;
+  }
+
+  private number(id: string, value: number, min: number, step: number, patch: (value: number) => ShapePatch): HTMLInputElement {
+    const input = document.createElement('input');
+    input.type = 'number';
+    input.id = id;
+    input.className = 'opt-select';
+    input.min = `${min}`;
+    input.step = `${step}`;
+    input.value = `${value}`;
+    input.onchange = () => {
+      const parsed = Number(input.value);
+      if (!Number.isFinite(parsed)) {
+        input.value = `${value}`;
+        return;
+      }
+      this.callbacks.onChange(patch(Math.max(min, parsed)));
+    };
+    return input;
+  }
+}
+
+function convertFill(fill: ShapeFill, type: ShapeFill['type']): ShapeFill {
+  const primary = fill.type === 'solid' ? fill.color : fill.type === 'none' ? '#4a9eff' : fill.from;
+  const secondary = fill.type === 'linear' || fill.type === 'radial' ? fill.to : '#1b1b1f';
+  switch (type) {
+    case 'none':
+      return { type: 'none' };
+    case 'solid':
+      return { type: 'solid', color: primary };
+    case 'linear':
+    case 'radial':
+      return { type, from: primary, to: secondary, angle: fill.type === 'linear' ? fill.angle : 90 };
+  }
+}
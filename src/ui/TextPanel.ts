@@ -0,0 +1,102 @@
+import type { TextAlign, TextContent } from '../model/Layer';
+
+const FONT_FAMILIES = [
+  'Helvetica Neue, Arial, sans-serif',
+  'Georgia, serif',
+  'Times New Roman, serif',
+  'Courier New, monospace',
+  'Impact, sans-serif',
+  'Trebuchet MS, sans-serif',
+  'Verdana, sans-serif',
+  'system-ui, sans-serif'
+];
+const FONT_WEIGHTS = [300, 400, 500, 600, 700, 800, 900];
+const ALIGNMENTS: TextAlign[] = ['left', 'center', 'right'];
+
+export type TextPatch = Partial<Omit<TextContent, 'type'>>;
+
+export interface TextPanelCallbacks {
+  onChange: (patch: TextPatch) => void;
+}
+
+export class TextPanel {
+  constructor(private readonly root: HTMLElement, private readonly callbacks: TextPanelCallbacks) {}
+
+  render(content: TextContent | null): void {
+    const panel = this.root.closest<HTMLElement>('.panel');
+    if (panel) panel.hidden = !content;
+    this.root.innerHTML = '';
+    if (!content) return;
+
+    const family = this.select('text-font', FONT_FAMILIES.map((f) => [f, f.split(',')[0]]), content.fontFamily, (value) => ({ fontFamily: value }));
+    if (!FONT_FAMILIES.includes(content.fontFamily)) {
+      const opt = document.createElement('option');
+      opt.value = content.fontFamily;
+      opt.textContent = content.fontFamily.split(',')[0];
+      family.prepend(opt);
+      family.value = content.fontFamily;
+    }
+
+    const weight = this.select('text-weight', FONT_WEIGHTS.map((w) => [`${w}`, `${w}`]), `${content.fontWeight}`, (value) => ({ fontWeight: Number(value) }));
+    const align = this.select('text-align', ALIGNMENTS.map((a) => [a, a]), content.align, (value) => ({ align: value as TextAlign }));
+
+    const color = document.createElement('input');
+    color.type = 'color';
+    color.id = 'text-color';
+    color.className = 'effect-param-color';
+    color.value = content.color;
+    color.onchange = () => this.callbacks.onChange({ color: color.value });
+
+    this.root.append(
+      this.field('Font', family, true),
+      this.field('Weight', weight),
+      this.field('Size', this.number('text-size', content.fontSize, 1, 1, (v) => ({ fontSize: v }))),
+      this.field('Color', color),
+      this.field('Align', align),
+      this.field('Line', this.number('text-line-height', content.lineHeight, 0.5, 0.05, (v) => ({ lineHeight: v }))),
+      this.field('Tracking', this.number('text-letter-spacing', content.letterSpacing, -50, 0.5, (v) => ({ letterSpacing: v }))),
+      this.field('Wrap W', this.number('text-wrap-width', content.wrapWidth, 0, 1, (v) => ({ wrapWidth: v })))
+    );
+  }
+
+  private field(labelText: string, control: HTMLElement, wide = false): HTMLElement {
+    const label = document.createElement('label');
+    if (wide) label.className = 'text-field-wide';
+    label.append(labelText, control);
+    return label;
+  }
+
+  private select(id: string, options: Array<[string, string]>, value: string, patch: (value: string) => TextPatch): HTMLSelectElement {
+    const select = document.createElement('select');
+    select.id = id;
+    select.className = 'opt-select';
+    for (const [optionValue, text] of options) {
+      const opt = document.createElement('option');
+      opt.value = optionValue;
+      opt.textContent = text;
+      select.append(opt);
+    }
+    select.value = value;
+    select.onchange = () => this.callbacks.onChange(patch(select.value));
+    return select;
+  }
+
+  private number(id: string, value: number, min: number, step: number, patch: (value: number) => TextPatch): HTMLInputElement {
+    const input = document.createElement('input');
+    input.type = 'number';
+    input.id = id;
+    input.className = 'opt-select';
+    input.min = `${min}`;
+    input.step = `${step}`;
+    input.value = `${value}`;
+    input.onchange = () => {
+      const parsed = Number(input.value);
+      if (!Number.isFinite(parsed)) {
+        input.value = `${value}`;
+        return;
+      }
+      this.callbacks.onChange(patch(Math.max(min, parsed)));
+    };
+    return input;
+  }
+}
@@ -0,0 +1,186 @@
+import { EASINGS, frameCount, keyframeAt, timeFrame } from '../model/Animation';
+import type { AnimationSettings, Easing, KeyframeTrack } from '../model/Animation';
+
+/** One keyframeable value of the active layer: a transform property or a numeric effect param. */
+export interface TimelineTrack {
+  /** `layer:<property>` or `effect:<index>:<param key>`. */
+  id: string;
+  label: string;
+  keyframes: KeyframeTrack | undefined;
+}
+
+export interface TimelineState {
+  settings: AnimationSettings;
+  /** Playhead position in seconds. */
+  time: number;
+  playing: boolean;
+  /** Empty without an active layer. */
+  tracks: TimelineTrack[];
+}
+
+export interface TimelinePanelCallbacks {
+  onTogglePlay: () => void;
+  onSeek: (time: number) => void;
+  onChangeSettings: (patch: Partial<AnimationSettings>) => void;
+  /** Keys the track's current value at the playhead, or removes the keyframe already there. */
+  onToggleKeyframe: (trackId: string) => void;
+  /** Easing of the track's keyframe at the playhead. */
+  onSetEasing: (trackId: string, easing: Easing) => void;
+}
+
+interface TimelineControls {
+  play: HTMLButtonElement;
+  scrubber: HTMLInputElement;
+  label: HTMLElement;
+  duration: HTMLInputElement;
+  fps: HTMLInputElement;
+}
+
+export class TimelinePanel {
+  /** Built once and updated in place, so dragging the scrubber survives re-renders. */
+  private controls: TimelineControls | null = null;
+  private readonly tracks = document.createElement('div');
+  private settings: AnimationSettings | null = null;
+
+  constructor(private readonly root: HTMLElement, private readonly callbacks: TimelinePanelCallbacks) {
+    this.tracks.className = 'timeline-tracks';
+  }
+
+  render(state: TimelineState): void {
+    const { settings, time } = state;
+    this.settings = settings;
+    const controls = this.controls ?? this.buildControls();
+
+    controls.play.textContent = state.playing ? 'Pause' : 'Play';
+    controls.play.title = state.playing ? 'Pause playback' : 'Play the timeline in a loop';
+    controls.scrubber.max = `${settings.duration}`;
+    controls.scrubber.step = `${1 / settings.fps}`;
+    controls.scrubber.value = `${time}`;
+    controls.label.textContent = `${time.toFixed(2)}s · frame ${timeFrame(settings, time) + 1}/${frameCount(settings)}`;
+    controls.duration.value = `${settings.duration}`;
+    controls.fps.value = `${settings.fps}`;
+
+    this.tracks.innerHTML = '';
+    if (state.tracks.length === 0) {
+      const empty = document.createElement('div');
+      empty.className = 'effects-empty';
+      empty.textContent = 'Select a layer to animate it';
+      this.tracks.append(empty);
+    }
+    for (const track of state.tracks) this.tracks.append(this.trackRow(track, state));
+  }
+
+  private buildControls(): TimelineControls {
+    const row = document.createElement('div');
+    row.className = 'timeline-controls';
+
+    const play = document.createElement('button');
+    play.id = 'timeline-play';
+    play.className = 'opt-btn';
+    play.onclick = () => this.callbacks.onTogglePlay();
+
+    const scrubber = document.createElement('input');
+    scrubber.id = 'timeline-time';
+    scrubber.className = 'timeline-scrubber';
+    scrubber.type = 'range';
+    scrubber.min = '0';
+    scrubber.oninput = () => this.callbacks.onSeek(parseFloat(scrubber.value));
+
+    const label = document.createElement('span');
+    label.id = 'timeline-label';
+    label.className = 'timeline-label';
+
+    const duration = this.numberInput('timeline-duration', 'duration', 0.1, 60, 0.1);
+    const fps = this.numberInput('timeline-fps', 'fps', 1, 60, 1);
+
+    row.append(play, scrubber, label, this.field('Length (s)', duration), this.field('FPS', fps));
+    this.root.innerHTML = '';
+    this.root.append(row, this.tracks);
+    this.controls = { play, scrubber, label, duration, fps };
+    return this.controls;
+  }
+
+  private trackRow(track: TimelineTrack, state: TimelineState): HTMLElement {
+    const { duration } = state.settings;
+    const current = keyframeAt(track.keyframes, state.time);
+    const row = document.createElement('div');
+    row.className = 'timeline-track';
+    row.dataset.track = track.id;
+
+    const name = document.createElement('span');
+    name.className = 'timeline-track-label';
+    name.textContent = track.label;
+    name.title = track.label;
+
+    const key = document.createElement('button');
+    key.className = `timeline-key ${current ? 'active' : ''}`;
+    key.textContent = current ? '◆' : '◇';
+    key.title = current ? 'Remove the keyframe at the playhead' : 'Add a keyframe at the playhead';
+    key.onclick = () => this.callbacks.onToggleKeyframe(track.id);
+
+    const easing = document.createElement('select');
+    easing.className = 'blend-select timeline-easing';
+    easing.title = 'Easing towards the next keyframe';
+    for (const option of EASINGS) {
+      const opt = document.createElement('option');
+      opt.value = option;
+      opt.textContent = option;
+      easing.append(opt);
+    }
+    easing.value = current?.easing ?? 'linear';
+    easing.disabled = !current;
+    easing.onchange = () => this.callbacks.onSetEasing(track.id, easing.value as Easing);
+
+    const lane = document.createElement('div');
+    lane.className = 'timeline-lane';
+    lane.onclick = (event) => {
+      const bounds = lane.getBoundingClientRect();
+      this.callbacks.onSeek(((event.clientX - bounds.left) / Math.max(1, bounds.width)) * duration);
+    };
+    for (const frame of track.keyframes ?? []) {
+      const marker = document.createElement('span');
+      marker.className = `timeline-marker ${frame === current ? 'active' : ''}`;
+      marker.style.left = `${(frame.time / duration) * 100}%`;
+      marker.title = `${frame.time.toFixed(2)}s: ${+frame.value.toFixed(3)}`;
+      marker.onclick = (event) => {
+        event.stopPropagation();
+        this.callbacks.onSeek(frame.time);
+      };
+      lane.append(marker);
+    }
+    const playhead = document.createElement('span');
+    playhead.className = 'timeline-playhead';
+    playhead.style.left = `${(state.time / duration) * 100}%`;
+    lane.append(playhead);
+
+    row.append(name, key, easing, lane);
+    return row;
+  }
+
+  private numberInput(id: string, key: keyof AnimationSettings, min: number, max: number, step: number): HTMLInputElement {
+    const input = document.createElement('input');
+    input.id = id;
+    input.type = 'number';
+    input.className = 'opt-input timeline-number';
+    input.min = `${min}`;
+    input.max = `${max}`;
+    input.step = `${step}`;
+    input.onchange = () => {
+      const next = parseFloat(input.value);
+      if (Number.isNaN(next)) {
+        input.value = `${this.settings?.[key] ?? ''}`;
+        return;
+      }
+      const clamped = Math.min(max, Math.max(min, next));
+      this.callbacks.onChangeSettings({ [key]: key === 'fps' ? Math.round(clamped) : clamped });
+    };
+    return input;
+  }
+
+  private field(text: string, input: HTMLInputElement): HTMLElement {
+    const field = document.createElement('label');
+    field.className = 'timeline-field';
+    field.append(text, input);
+    return field;
+  }
+}
@@ -0,0 +1,52 @@
+import { expect, test } from '@playwright/test';
+import type { Page } from '@playwright/test';
+import { addLevels, drawRectangle, pixelAt } from './helpers';
+
+async function addAdjustmentLayer(page: Page): Promise<void> {
+  await page.click('.menu-item[data-menu="layer"]');
+  await page.click('[data-menu-action="new-adjustment"]');
+}
+
+test('an adjustment layer grades the layers below it, respecting its opacity and visibility', async ({ page }) => {
+  await page.goto('/');
+  await drawRectangle(page, 100, 100, 300, 200);
+  expect((await pixelAt(page, 200, 150))[2]).toBeGreaterThan(240);
+
+  await addAdjustmentLayer(page);
+  await expect(page.locator('.layer-item')).toHaveCount(2);
+  await expect(page.locator('.layer-item').first().locator('.layer-thumb-adjustment')).toBeVisible();
+  await addLevels(page, 0.5);
+  const [, , graded, alpha] = await pixelAt(page, 200, 150);
+  expect(graded).toBeGreaterThan(120);
+  expect(graded).toBeLessThan(135);
+  expect(alpha).toBe(255);
+  // Empty canvas below stays empty.
+  expect((await pixelAt(page, 500, 400))[3]).toBe(0);
+
+  const opacity = page.locator('.layer-item').first().locator('.layer-opacity');
+  await opacity.fill('50%');
+  await opacity.dispatchEvent('change');
+  const [, , half] = await pixelAt(page, 200, 150);
+  expect(half).toBeGreaterThan(180);
+  expect(half).toBeLessThan(200);
+
+  await page.locator('.layer-item').first().locator('.layer-vis').click();
+  expect((await pixelAt(page, 200, 150))[2]).toBeGreaterThan(240);
+});
+
+test('layers above an adjustment layer are not graded and canvas clicks pass through it', async ({ page }) => {
+  await page.goto('/');
+  await drawRectangle(page, 100, 100, 300, 200);
+  await addAdjustmentLayer(page);
+  await addLevels(page, 0.5);
+
+  await drawRectangle(page, 400, 300, 500, 380);
+  expect((await pixelAt(page, 450, 340))[2]).toBeGreaterThan(240);
+  expect((await pixelAt(page, 200, 150))[2]).toBeLessThan(135);
+
+  const box = await page.locator('#main-canvas').boundingBox();
+  if (!box) throw new Error('Main canvas bounding box unavailable');
+  await page.click('.tool-btn[data-tool="Move"]');
+  await page.mouse.click(box.x + 200, box.y + 150);
+  await expect(page.locator('.layer-item.active .layer-meta')).toHaveText('Rectangle');
+});
@@ -0,0 +1,87 @@
+import { expect, test } from '@playwright/test';
+import type { Page } from '@playwright/test';
+import { readFile } from 'node:fs/promises';
+import { drawRectangle } from './helpers';
+
+async function setX(page: Page, x: number): Promise<void> {
+  await page.fill('#transform-x', `${x}`);
+  await page.dispatchEvent('#transform-x', 'change');
+}
+
+async function seek(page: Page, time: number): Promise<void> {
+  await page.locator('#timeline-time').fill(`${time}`);
+}
+
+async function exportAs(page: Page, format: string): Promise<{ name: string; bytes: Buffer }> {
+  await page.click('.menu-item[data-menu="file"]');
+  await page.click('[data-menu-action="export"]');
+  await page.selectOption('#export-format', format);
+  await expect(page.locator('#export-size')).toHaveText('800 × 600 px · 45 frames');
+  const downloadPromise = page.waitForEvent('download');
+  await page.click('#export-confirm');
+  const download = await downloadPromise;
+  return { name: download.suggestedFilename(), bytes: await readFile(await download.path()) };
+}
+
+/** A rectangle whose X is keyed at 100 on the first frame and 300 at two seconds. */
+async function setUp(page: Page): Promise<void> {
+  await page.goto('/');
+  await drawRectangle(page);
+
+  await setX(page, 100);
+  const xKey = page.locator('.timeline-track[data-track="layer:x"] .timeline-key');
+  await xKey.click();
+  await expect(xKey).toHaveText('◆');
+  await seek(page, 2);
+  await expect(xKey).toHaveText('◇');
+  // Editing an animated value keys it at the playhead.
+  await setX(page, 300);
+  await expect(page.locator('.timeline-track[data-track="layer:x"] .timeline-marker')).toHaveCount(2);
+}
+
+test('keyframed transforms interpolate with their easing as the playhead scrubs', async ({ page }) => {
+  await setUp(page);
+
+  await seek(page, 1);
+  await expect(page.locator('#timeline-label')).toHaveText('1.00s · frame 16/45');
+  await expect(page.locator('#transform-x')).toHaveValue('200');
+
+  await seek(page, 0);
+  await page.locator('.timeline-track[data-track="layer:x"] .timeline-easing').selectOption('hold');
+  await seek(page, 1);
+  await expect(page.locator('#transform-x')).toHaveValue('100');
+  await seek(page, 2);
+  await expect(page.locator('#transform-x')).toHaveValue('300');
+
+  await page.click('#undo-action');
+  await seek(page, 1);
+  await expect(page.locator('#transform-x')).toHaveValue('200');
+
+  await page.click('#timeline-play');
+  await expect(page.locator('#timeline-play')).toHaveText('Pause');
+  await page.click('#timeline-play');
+  await expect(page.locator('#timeline-play')).toHaveText('Play');
+});
+
+test('animations export frame by frame to GIF, animated WebP and a PNG sequence', async ({ page }) => {
+  await setUp(page);
+
+  const gif = await exportAs(page, 'gif');
+  expect(gif.name).toBe('flyer.gif');
+  expect(gif.bytes.subarray(0, 6).toString('latin1')).toBe('GIF89a');
+
+  const webp = await exportAs(page, 'webp-animated');
+  expect(webp.name).toBe('flyer.webp');
+  expect(webp.bytes.subarray(8, 16).toString('latin1')).toBe('WEBPVP8X');
+  expect(webp.bytes.includes(Buffer.from('ANMF'))).toBe(true);
+
+  const zip = await exportAs(page, 'png-sequence');
+  expect(zip.name).toBe('flyer.zip');
+  expect(zip.bytes.subarray(0, 4).toString('latin1')).toBe('PK\u0003\u0004');
+  // End-of-central-directory record: one entry per frame.
+  expect(zip.bytes.readUInt16LE(zip.bytes.length - 12)).toBe(45);
+  expect(zip.bytes.includes(Buffer.from('frame-0045.png'))).toBe(true);
+
+  // Exporting leaves the playhead where it was.
+  await expect(page.locator('#transform-x')).toHaveValue('300');
+});
@@ -0,0 +1,21 @@
+import { expect, test } from '@playwright/test';
+import { drawRectangle, pixelAt } from './helpers';
+
+test('extended blend modes composite on the GPU path', async ({ page }) => {
+  await page.goto('/');
+  await drawRectangle(page);
+  await drawRectangle(page, 200, 150, 400, 250);
+
+  const topBlend = page.locator('.layer-item').first().locator('.layer-blend');
+  const options = await topBlend.locator('option').allTextContents();
+  test.skip(!options.includes('subtract'), 'WebGL 2 unavailable: Canvas 2D fallback lists native modes only');
+  expect(options).toContain('linear-dodge');
+  expect(options).toContain('lighter-color');
+
+  await topBlend.selectOption('subtract');
+  // Identical fills subtract to black inside the overlap; the base alone is untouched.
+  const overlap = await pixelAt(page, 250, 175);
+  expect(overlap.slice(0, 3).every((channel) => channel <= 2)).toBe(true);
+  expect(overlap[3]).toBe(255);
+  expect((await pixelAt(page, 150, 125))[2]).toBeGreaterThan(240);
+});
@@ -0,0 +1,37 @@
+import { expect, test } from '@playwright/test';
+import { addLevels, drawRectangle, pixelAt } from './helpers';
+
+test('dragging the curve editor re-maps tones and undoes as one step', async ({ page }) => {
+  await page.goto('/');
+  await drawRectangle(page);
+  expect((await pixelAt(page, 200, 150))[2]).toBeGreaterThan(240);
+
+  await page.selectOption('.effects-add-select', 'curves');
+  const editor = page.locator('.curve-canvas');
+  await expect(editor).toBeVisible();
+  await expect(page.locator('.curve-channel-btn.active')).toHaveText('RGB');
+
+  // Pull the white point down to black: every tone maps to 0.
+  const box = await editor.boundingBox();
+  if (!box) throw new Error('Curve editor bounding box unavailable');
+  await page.mouse.move(box.x + box.width - 2, box.y + 2);
+  await page.mouse.down();
+  await page.mouse.move(box.x + box.width - 2, box.y + box.height - 2, { steps: 4 });
+  await page.mouse.up();
+  const dark = await pixelAt(page, 200, 150);
+  expect(Math.max(...dark.slice(0, 3))).toBeLessThan(8);
+  expect(dark[3]).toBe(255);
+
+  await page.click('#undo-action');
+  expect((await pixelAt(page, 200, 150))[2]).toBeGreaterThan(240);
+  await expect(page.locator('.effect-card')).toHaveCount(1);
+});
+
+test('levels output range compresses the layer', async ({ page }) => {
+  await page.goto('/');
+  await drawRectangle(page);
+  await addLevels(page, 0.5);
+  const [, , blue] = await pixelAt(page, 200, 150);
+  expect(blue).toBeGreaterThan(120);
+  expect(blue).toBeLessThan(135);
+});
@@ -0,0 +1,69 @@
+import { expect, test } from '@playwright/test';
+import type { Page } from '@playwright/test';
+import { drawRectangle } from './helpers';
+
+async function layerMenu(page: Page, action: string): Promise<void> {
+  await page.click('.menu-item[data-menu="layer"]');
+  await page.click(`[data-menu-action="${action}"]`);
+}
+
+/** Two rectangles; the bottom one (second row) carries Bloom and Grain and is left active. */
+async function setUp(page: Page): Promise<void> {
+  await page.goto('/');
+  await drawRectangle(page, 100, 100, 200, 160);
+  await drawRectangle(page, 300, 250, 400, 330);
+  await page.locator('.layer-item').nth(1).click();
+  await page.selectOption('.effects-add-select', 'bloom');
+  await page.selectOption('.effects-add-select', 'grain');
+}
+
+test('copying a layer\'s effects pastes them onto another layer, replacing or appending', async ({ page }) => {
+  await setUp(page);
+  await layerMenu(page, 'copy-effects');
+
+  await page.locator('.layer-item').nth(0).click();
+  await page.selectOption('.effects-add-select', 'vignette');
+  await layerMenu(page, 'paste-effects-append');
+  await expect(page.locator('.effect-title')).toHaveText(['Vignette', 'Bloom', 'Grain / Noise']);
+  await page.click('#undo-action');
+  await expect(page.locator('.effect-title')).toHaveText(['Vignette']);
+
+  await layerMenu(page, 'paste-effects-replace');
+  await expect(page.locator('.effect-title')).toHaveText(['Bloom', 'Grain / Noise']);
+
+  // The pasted stack is a copy: editing it leaves the source alone.
+  const threshold = page.locator('.effect-param-row', { hasText: 'Threshold' }).locator('.effect-param-number');
+  await threshold.fill('0.2');
+  await threshold.dispatchEvent('change');
+  await page.locator('.layer-item').nth(1).click();
+  await expect(page.locator('.effect-param-row', { hasText: 'Threshold' }).locator('.effect-param-number')).toHaveValue('0.6');
+});
+
+test('single effect cards copy, duplicate and Alt-drag onto other layers', async ({ page }) => {
+  await setUp(page);
+  await page.locator('.effect-card').nth(1).locator('.effect-copy-btn').click();
+  await page.locator('.effect-card').nth(0).locator('.effect-duplicate-btn').click();
+  await expect(page.locator('.effect-title')).toHaveText(['Bloom', 'Bloom', 'Grain / Noise']);
+  await page.click('#undo-action');
+  await expect(page.locator('.effect-title')).toHaveText(['Bloom', 'Grain / Noise']);
+
+  const dropFirstCard = (altKey: boolean) => page.evaluate((alt) => {
+    const dataTransfer = new DataTransfer();
+    const header = document.querySelector('.effect-card .effect-header')!;
+    header.dispatchEvent(new DragEvent('dragstart', { bubbles: true, dataTransfer }));
+    const row = document.querySelectorAll('.layer-item')[0];
+    row.dispatchEvent(new DragEvent('dragover', { bubbles: true, cancelable: true, dataTransfer, altKey: alt }));
+    row.dispatchEvent(new DragEvent('drop', { bubbles: true, cancelable: true, dataTransfer, altKey: alt }));
+  }, altKey);
+
+  await dropFirstCard(false);
+  await dropFirstCard(true);
+  await page.locator('.layer-item').nth(0).click();
+  await expect(page.locator('.effect-title')).toHaveText(['Bloom']);
+
+  await layerMenu(page, 'paste-effects-append');
+  await expect(page.locator('.effect-title')).toHaveText(['Bloom', 'Grain / Noise']);
+  await page.click('#undo-action');
+  await page.click('#undo-action');
+  await expect(page.locator('.effect-card')).toHaveCount(0);
+});
@@ -0,0 +1,50 @@
+import { expect, test } from '@playwright/test';
+import { DRIVER_WAVES, evaluateDriver, loopCycles } from '../../src/model/Animation';
+import { addLevels, blueAt, drawRectangle } from './helpers';
+
+test('a driver modulates an effect param over the timeline without changing its value', async ({ page }) => {
+  await page.goto('/');
+  await drawRectangle(page);
+  await addLevels(page, 0.5);
+  const outWhite = page.locator('.effect-param-row', { hasText: 'Output White' });
+
+  // The default 0.5 Hz rounds to two cycles over the 3s loop, so a sine over
+  // the whole range peaks at 0.375s and bottoms out at 1.125s.
+  await outWhite.locator('.effect-driver-btn').click();
+  await expect(outWhite.locator('.effect-driver-wave')).toHaveValue('sine');
+  const amount = outWhite.locator('.effect-driver-amount');
+  await amount.fill('1');
+  await amount.dispatchEvent('change');
+  const mid = await blueAt(page, 200, 150);
+  expect(mid).toBeGreaterThan(120);
+  expect(mid).toBeLessThan(135);
+
+  await page.locator('#timeline-time').fill('0.4');
+  expect(await blueAt(page, 200, 150)).toBeGreaterThan(240);
+  await page.locator('#timeline-time').fill('1.13');
+  expect(await blueAt(page, 200, 150)).toBeLessThan(15);
+  await expect(outWhite.locator('.effect-param-number')).toHaveValue('0.5');
+
+  await outWhite.locator('.effect-driver-play').click();
+  await expect(page.locator('.effect-driver-play')).toHaveText('Pause');
+  await expect(page.locator('#timeline-play')).toHaveText('Pause');
+  await page.locator('.effect-driver-play').click();
+  await expect(page.locator('#timeline-play')).toHaveText('Play');
+
+  await page.click('#undo-action');
+  await page.click('#undo-action');
+  await expect(outWhite.locator('.effect-driver-row')).toHaveCount(0);
+  const undriven = await blueAt(page, 200, 150);
+  expect(undriven).toBeGreaterThan(120);
+  expect(undriven).toBeLessThan(135);
+});
+
+test('drivers run whole cycles per timeline loop so playback wraps without a jump', () => {
+  expect(loopCycles({ wave: 'sine', rate: 0.7, amount: 1, phase: 0 }, 3)).toBe(2);
+  expect(loopCycles({ wave: 'sine', rate: 0.01, amount: 1, phase: 0 }, 3)).toBe(1);
+  for (const wave of DRIVER_WAVES) {
+    const driver = { wave, rate: 0.7, amount: 1, phase: 0.3 };
+    // Frame 45 of a 3s, 15 fps loop would be frame 0 again.
+    expect(evaluateDriver(driver, 3, 3), wave).toBeCloseTo(evaluateDriver(driver, 0, 3), 6);
+  }
+});
@@ -0,0 +1,65 @@
+import { expect, test } from '@playwright/test';
+import type { Page } from '@playwright/test';
+import { addLevels, blueAt, drawRectangle } from './helpers';
+
+/** A #4a9eff rectangle whose Levels effect halves its output white. */
+async function setUp(page: Page): Promise<void> {
+  await page.goto('/');
+  await drawRectangle(page);
+  await addLevels(page, 0.5);
+}
+
+test('an effect\'s mix and blend mode lay its output over its input', async ({ page }) => {
+  await setUp(page);
+  expect(await blueAt(page, 200, 150)).toBeLessThan(135);
+
+  const mix = page.locator('.effect-mix');
+  await mix.fill('50%');
+  await mix.dispatchEvent('change');
+  await expect(page.locator('.effect-mix')).toHaveValue('50%');
+  const half = await blueAt(page, 200, 150);
+  expect(half).toBeGreaterThan(180);
+  expect(half).toBeLessThan(200);
+
+  await page.click('#undo-action');
+  await expect(page.locator('.effect-mix')).toHaveValue('100%');
+  await page.selectOption('.effect-blend', 'lighten');
+  expect(await blueAt(page, 200, 150)).toBeGreaterThan(240);
+  await page.selectOption('.effect-blend', 'multiply');
+  expect(await blueAt(page, 200, 150)).toBeLessThan(135);
+});
+
+test('luminance and painted masks limit where an effect applies', async ({ page }) => {
+  await setUp(page);
+
+  // The fill's luminance (about 0.58) sits inside the default 0.5–1 band.
+  await page.selectOption('.effect-mask-select', 'luminance');
+  expect(await blueAt(page, 200, 150)).toBeLessThan(135);
+  await page.locator('.effect-mask-inverted').check();
+  expect(await blueAt(page, 200, 150)).toBeGreaterThan(240);
+  const min = page.locator('input.effect-mask-min');
+  await min.fill('0.7');
+  await min.dispatchEvent('change');
+  await page.click('#undo-action');
+  await page.click('#undo-action');
+  expect(await blueAt(page, 200, 150)).toBeLessThan(135);
+
+  await page.selectOption('.effect-mask-select', 'raster');
+  await page.click('.effect-mask-paint');
+  await expect(page.locator('.tool-btn[data-tool="Mask"]')).toHaveClass(/active/);
+  await expect(page.locator('.effect-mask-paint')).toHaveText('Painting');
+
+  const box = await page.locator('#main-canvas').boundingBox();
+  if (!box) throw new Error('Main canvas bounding box unavailable');
+  await page.mouse.move(box.x + 140, box.y + 150);
+  await page.mouse.down();
+  await page.mouse.move(box.x + 180, box.y + 150);
+  await page.mouse.up();
+  // The stroke hides the effect, not the layer: the fill shows through unleveled.
+  expect(await blueAt(page, 160, 150)).toBeGreaterThan(240);
+  expect(await blueAt(page, 280, 180)).toBeLessThan(135);
+  await expect(page.locator('.layer-mask-thumb canvas')).toHaveCount(0);
+
+  await page.click('#undo-action');
+  expect(await blueAt(page, 160, 150)).toBeLessThan(135);
+});
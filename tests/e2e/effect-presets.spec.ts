@@ -0,0 +1,99 @@
+import { expect, test } from '@playwright/test';
+import { readFile } from 'node:fs/promises';
+import { drawRectangle } from './helpers';
+
+test('a saved preset applies to other layers, persists across reloads and exports as JSON', async ({ page }) => {
+  await page.goto('/');
+  await drawRectangle(page, 100, 100, 200, 160);
+  await page.selectOption('.effects-add-select', 'bloom');
+  await page.selectOption('.effects-add-select', 'grain');
+
+  page.once('dialog', (dialog) => dialog.accept('Film look'));
+  await page.click('#preset-save');
+  await expect(page.locator('#preset-select option')).toHaveText(['Film look (2)']);
+  await expect(page.locator('.preset-message')).toHaveText('Saved "Film look"');
+
+  await drawRectangle(page, 300, 250, 400, 330);
+  await expect(page.locator('.effect-card')).toHaveCount(0);
+  await page.click('#preset-apply');
+  await expect(page.locator('.effect-title')).toHaveText(['Bloom', 'Grain / Noise']);
+  await page.click('#undo-action');
+  await expect(page.locator('.effect-card')).toHaveCount(0);
+
+  const downloadPromise = page.waitForEvent('download');
+  await page.click('#preset-export');
+  const download = await downloadPromise;
+  expect(download.suggestedFilename()).toBe('effect-presets.json');
+  const exported = JSON.parse(await readFile(await download.path(), 'utf8'));
+  expect(exported.format).toBe('flyermaker-effect-presets');
+  expect(exported.presets[0].name).toBe('Film look');
+  expect(exported.presets[0].effects.map((effect: { definitionId: string }) => effect.definitionId)).toEqual(['bloom', 'grain']);
+  expect(exported.presets[0].effects[0].params.threshold).toBe(0.6);
+
+  await page.reload();
+  await expect(page.locator('#preset-select option')).toHaveText(['Film look (2)']);
+  await page.click('#preset-delete');
+  await expect(page.locator('#preset-select option')).toHaveText(['No presets yet']);
+  await page.reload();
+  await expect(page.locator('#preset-select option')).toHaveText(['No presets yet']);
+});
+
+test('preset imports are validated against the effect registry', async ({ page }) => {
+  await page.goto('/');
+  const file = (presets: unknown[]) => ({
+    name: 'presets.json',
+    mimeType: 'application/json',
+    buffer: Buffer.from(JSON.stringify({ format: 'flyermaker-effect-presets', version: 1, presets }))
+  });
+
+  await page.setInputFiles('#preset-import-input', file([
+    { name: 'Broken', effects: [{ definitionId: 'sparkles', enabled: true, params: {} }, { definitionId: 'bloom', enabled: true, params: { threshold: 1.5 } }] }
+  ]));
+  const message = page.locator('.preset-message');
+  await expect(message).toContainText('Could not import presets.json');
+  await expect(message).toContainText('Preset "Broken", effect 1: unknown effect "sparkles"');
+  await expect(message).toContainText('Preset "Broken", effect 2 (Bloom), Threshold: 1.5 is outside the range 0 to 1');
+  await expect(page.locator('#preset-select option')).toHaveText(['No presets yet']);
+
+  await page.setInputFiles('#preset-import-input', file([
+    { name: 'Soft', effects: [{ definitionId: 'bloom', enabled: false, params: { radius: 12 } }] },
+    { name: 'Plain', effects: [] }
+  ]));
+  await expect(message).toHaveText('Imported 2 presets');
+  await expect(page.locator('#preset-select option')).toHaveText(['Plain (0)', 'Soft (1)']);
+
+  await drawRectangle(page, 100, 100, 200, 160);
+  await drawRectangle(page, 300, 250, 400, 330);
+  await page.locator('.layer-item').nth(1).click({ modifiers: ['Shift'] });
+  await page.selectOption('#preset-select', { label: 'Soft (1)' });
+  await page.click('#preset-apply-selection');
+  for (const index of [0, 1]) {
+    await page.locator('.layer-item').nth(index).click();
+    await expect(page.locator('.effect-card.effect-disabled .effect-title')).toHaveText('Bloom');
+    await expect(page.locator('.effect-param-row', { hasText: 'Radius' }).locator('.effect-param-number')).toHaveValue('12');
+  }
+});
+
+test('stored presets that no longer validate are reported on load', async ({ page }) => {
+  await page.goto('/');
+  await expect(page.locator('#preset-select option')).toHaveText(['No presets yet']);
+  await page.evaluate(() => new Promise<void>((resolve, reject) => {
+    const request = indexedDB.open('flyermaker');
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const transaction = request.result.transaction('effect-presets', 'readwrite');
+      transaction.objectStore('effect-presets').put({ id: 'stale', name: 'Stale', effects: [{ definitionId: 'sparkles', enabled: true, params: {} }] });
+      transaction.oncomplete = () => {
+        request.result.close();
+        resolve();
+      };
+      transaction.onerror = () => reject(transaction.error);
+    };
+  }));
+
+  await page.reload();
+  const message = page.locator('.preset-message');
+  await expect(message).toContainText('Some stored presets could not be loaded');
+  await expect(message).toContainText('Preset "Stale", effect 1: unknown effect "sparkles"');
+  await expect(page.locator('#preset-select option')).toHaveText(['No presets yet']);
+});
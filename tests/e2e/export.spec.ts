@@ -0,0 +1,72 @@
+import { expect, test } from '@playwright/test';
+import { readFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+
+test('export dialog renders the document at the chosen scale and format', async ({ page }) => {
+  await page.goto('/');
+
+  await page.click('.menu-item[data-menu="file"]');
+  await page.click('[data-menu-action="export"]');
+  await expect(page.locator('#export-dialog')).toBeVisible();
+  await expect(page.locator('#export-quality')).toBeDisabled();
+  await expect(page.locator('#export-size')).toHaveText('800 × 600 px');
+
+  await page.selectOption('#export-format', 'jpeg');
+  await page.selectOption('#export-scale', '2');
+  await expect(page.locator('#export-quality')).toBeEnabled();
+  await expect(page.locator('#export-size')).toHaveText('1600 × 1200 px');
+
+  const downloadPromise = page.waitForEvent('download');
+  await page.click('#export-confirm');
+  const download = await downloadPromise;
+  expect(download.suggestedFilename()).toBe('flyer.jpg');
+  await expect(page.locator('#export-dialog')).toHaveCount(0);
+});
+
+test('image effects export with the same pixels the preview shows', async ({ page }) => {
+  await page.goto('/');
+  await page.setInputFiles('#file-input', fileURLToPath(new URL('./fixtures/swatch.png', import.meta.url)));
+  await expect(page.locator('.layer-item')).toHaveCount(1);
+  // Stretched well past its natural size, so a source-resolution mismatch would change the blur's reach.
+  await page.fill('#transform-w', '256');
+  await page.dispatchEvent('#transform-w', 'change');
+  await page.fill('#transform-h', '192');
+  await page.dispatchEvent('#transform-h', 'change');
+  await page.fill('#transform-x', '100');
+  await page.dispatchEvent('#transform-x', 'change');
+  await page.fill('#transform-y', '100');
+  await page.dispatchEvent('#transform-y', 'change');
+  await page.selectOption('.effects-add-select', 'gaussian-blur');
+  await expect(page.locator('.effect-card')).toHaveCount(1);
+
+  const points = [90, 110, 130, 160, 190, 228, 260, 300, 340, 360].map((x): [number, number] => [x, 196]);
+  // At 2x the blur re-runs on a twice-as-large source with its radius doubled.
+  for (const exportScale of [1, 2]) {
+    await page.click('.menu-item[data-menu="file"]');
+    await page.click('[data-menu-action="export"]');
+    await page.selectOption('#export-scale', `${exportScale}`);
+    const downloadPromise = page.waitForEvent('download');
+    await page.click('#export-confirm');
+    const exported = await readFile(await (await downloadPromise).path());
+
+    const diffs = await page.evaluate(async ([png, samples, factor]) => {
+      const image = new Image();
+      image.src = `data:image/png;base64,${png}`;
+      await image.decode();
+      const flat = document.createElement('canvas');
+      flat.width = image.width;
+      flat.height = image.height;
+      const flatCtx = flat.getContext('2d')!;
+      flatCtx.drawImage(image, 0, 0);
+      const preview = document.querySelector<HTMLCanvasElement>('#main-canvas')!;
+      const scale = preview.width / 800;
+      const previewCtx = preview.getContext('2d')!;
+      return samples.map(([x, y]) => {
+        const a = flatCtx.getImageData(x * factor, y * factor, 1, 1).data;
+        const b = previewCtx.getImageData(Math.round(x * scale), Math.round(y * scale), 1, 1).data;
+        return Math.max(...[0, 1, 2, 3].map((channel) => Math.abs(a[channel] - b[channel])));
+      });
+    }, [exported.toString('base64'), points, exportScale] as [string, [number, number][], number]);
+    for (const diff of diffs) expect(diff, `${exportScale}x`).toBeLessThanOrEqual(8);
+  }
+});
@@ -0,0 +1,303 @@
+import { expect, test } from '@playwright/test';
+import type { Page } from '@playwright/test';
+import type { BlendMode } from '../../src/model/Layer';
+import { GPU_BLEND_MODES } from '../../src/model/BlendModes';
+import type { FloatImage } from '../../src/reference/FloatImage';
+import { createImage, fromRGBA8, toRGBA8 } from '../../src/reference/FloatImage';
+import { compositeLayers } from '../../src/reference/compositing';
+import { gaussianBlur } from '../../src/reference/gaussian';
+import type { GrainMode } from '../../src/reference/stages';
+import { bloom, grain, halation, haze, iridescence, prism, softness, tone } from '../../src/reference/stages';
+
+// Golden-image checks: the CPU reference renderer in src/reference runs
+// here in Node and the shaders run in the page, on the same 8-bit input.
+
+/** Differences are in 8-bit steps over the RGB channels. */
+interface Tolerance {
+  maxAbs: number;
+  meanAbs: number;
+  /** Share of samples allowed past `maxAbs`, for modes with hard thresholds. */
+  outliers?: number;
+}
+
+type ParamValues = Record<string, number | string>;
+
+interface GoldenCase {
+  effect: string;
+  params: ParamValues;
+  reference(image: FloatImage): FloatImage;
+  tolerance: Tolerance;
+  /** Why the shader is known to diverge from the appendix. */
+  fixme?: string;
+}
+
+function paint(width: number, height: number, color: (x: number, y: number) => [number, number, number]): FloatImage {
+  const image = createImage(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) image.data.set(color(x, y), (y * width + x) * 3);
+  }
+  // Both renderers start from the same quantized pixels.
+  return fromRGBA8(toRGBA8(image), width, height);
+}
+
+/** Gradients, a neutral ramp and two clipped highlights for the glow masks. */
+const card = paint(64, 48, (x, y) => {
+  if (Math.hypot(x - 16, y - 14) < 5) return [1, 1, 1];
+  if (x >= 40 && x < 48 && y >= 26 && y < 34) return [1, 0.9, 0.4];
+  if (y >= 40) return [x / 63, x / 63, x / 63];
+  return [x / 63, y / 47, 0.5 + 0.5 * Math.sin(x * 0.2 + y * 0.1)];
+});
+
+const overlay = paint(64, 48, (x, y) => {
+  if (y < 4) return [x < 32 ? 0 : 1, x < 32 ? 0 : 1, x < 32 ? 0 : 1];
+  return [0.5 + 0.5 * Math.sin(x * 0.3), 0.5 + 0.5 * Math.cos(y * 0.25), ((x + y) % 16) / 15];
+});
+
+const flatGray = paint(128, 96, () => [0.5, 0.5, 0.5]);
+
+const GOLDEN_CASES: Record<string, GoldenCase> = {
+  'gaussian blur': {
+    effect: 'gaussian-blur',
+    params: { sigma: 3 },
+    reference: (image) => gaussianBlur(image, 3),
+    tolerance: { maxAbs: 2, meanAbs: 0.5 }
+  },
+  'softness diffusion': {
+    effect: 'softness-diffusion',
+    params: { radius: 4, mix: 0.6 },
+    reference: (image) => softness(image, { radius: 4, mix: 0.6 }),
+    tolerance: { maxAbs: 2, meanAbs: 0.5 }
+  },
+  bloom: {
+    effect: 'bloom',
+    params: { threshold: 0.6, radius: 4, strength: 0.8 },
+    reference: (image) => bloom(image, { threshold: 0.6, radius: 4, strength: 0.8 }),
+    // The shader stores the mask and each blur pass in RGBA8 textures.
+    tolerance: { maxAbs: 4, meanAbs: 1 },
+    fixme: 'The shader bright-passes with smoothstep(threshold, threshold + 0.1, luma), not the linear §6 mask'
+  },
+  halation: {
+    effect: 'halation',
+    params: { threshold: 0.55, radius: 5, strength: 0.65 },
+    reference: (image) => halation(image, { threshold: 0.55, radius: 5, strength: 0.65 }),
+    tolerance: { maxAbs: 4, meanAbs: 1 }
+  },
+  haze: {
+    effect: 'haze',
+    params: { strength: 0.5, radius: 6 },
+    reference: (image) => haze(image, { strength: 0.5, radius: 6 }),
+    tolerance: { maxAbs: 2, meanAbs: 0.5 }
+  },
+  // §7.3 needs both strength and radius: with no blur the image is unchanged.
+  'haze at radius 0': {
+    effect: 'haze',
+    params: { strength: 0.5, radius: 0 },
+    reference: (image) => haze(image, { strength: 0.5, radius: 0 }),
+    tolerance: { maxAbs: 1, meanAbs: 0.1 }
+  },
+  prism: {
+    effect: 'prism',
+    params: { shift: 3, mix: 0.8, threshold: 0.5 },
+    reference: (image) => prism(image, { shift: 3, mix: 0.8, threshold: 0.5 }),
+    tolerance: { maxAbs: 1, meanAbs: 0.2 }
+  },
+  tone: {
+    effect: 'tone',
+    params: { temperature: 0.4, tint: -0.2, saturation: 1.2, vibrance: 1.3, highlightRolloff: 0.5, brightness: 1.05, contrast: 1.1, fade: 0.15 },
+    reference: (image) => tone(image, {
+      temperature: 0.4, tint: -0.2, saturation: 1.2, vibrance: 1.3, highlightRolloff: 0.5, brightness: 1.05, contrast: 1.1, fade: 0.15
+    }),
+    tolerance: { maxAbs: 1, meanAbs: 0.2 }
+  },
+  iridescence: {
+    effect: 'iridescence',
+    params: { amount: 0.45, hueShift: 0.08, edgeBias: 0.65, satBoost: 1.2, softness: 1, lumaCenter: 0.62, lumaRange: 0.3, seed: 101 },
+    reference: (image) => iridescence(image, {
+      amount: 0.45, hueShift: 0.08, edgeBias: 0.65, satBoost: 1.2, softness: 1, lumaCenter: 0.62, lumaRange: 0.3, seed: 101
+    }),
+    tolerance: { maxAbs: 6, meanAbs: 1.5 },
+    fixme: 'The shader approximates §8.2 in one pass: no P98 edge normalization and no blurred weight or blend masks'
+  }
+};
+
+/** Per-mode slack; the rest get `DEFAULT_BLEND_TOLERANCE`. */
+const BLEND_TOLERANCES: Partial<Record<BlendMode, Tolerance>> = {
+  'hard-mix': { maxAbs: 2, meanAbs: 2, outliers: 0.01 },
+  'darker-color': { maxAbs: 2, meanAbs: 1, outliers: 0.01 },
+  'lighter-color': { maxAbs: 2, meanAbs: 1, outliers: 0.01 }
+};
+
+const DEFAULT_BLEND_TOLERANCE: Tolerance = { maxAbs: 2, meanAbs: 0.5 };
+
+/** Runs one registered effect through `EffectRenderer` and reads the pixels back. */
+async function renderEffect(page: Page, image: FloatImage, effect: string, params: ParamValues): Promise<number[]> {
+  return page.evaluate(async ({ rgba, width, height, effect, params }) => {
+    const load = (path: string) => import(path);
+    const { EffectRenderer } = await load('/src/effects/EffectRenderer.ts');
+    const { effectRegistry } = await load('/src/effects/EffectRegistry.ts');
+    const { createLayerEffect } = await load('/src/effects/Effect.ts');
+    const definition = effectRegistry.get(effect);
+    if (!definition) throw new Error(`Effect "${effect}" is not registered`);
+    const layerEffect = createLayerEffect(definition);
+    for (const [key, value] of Object.entries(params)) layerEffect.params[key].value = value;
+
+    const source = document.createElement('canvas');
+    source.width = width;
+    source.height = height;
+    source.getContext('2d')!.putImageData(new ImageData(new Uint8ClampedArray(rgba), width, height), 0, 0);
+    const result: HTMLCanvasElement = new EffectRenderer().process(source, width, height, [layerEffect], `golden|${effect}`);
+    return [...result.getContext('2d')!.getImageData(0, 0, width, height).data];
+  }, { rgba: [...toRGBA8(image)], width: image.width, height: image.height, effect, params });
+}
+
+function difference(actual: ArrayLike<number>, expected: ArrayLike<number>, limit: number): { max: number; mean: number; over: number } {
+  let max = 0;
+  let total = 0;
+  let over = 0;
+  let samples = 0;
+  for (let i = 0; i < expected.length; i++) {
+    if (i % 4 === 3) continue;
+    const delta = Math.abs(actual[i] - expected[i]);
+    max = Math.max(max, delta);
+    total += delta;
+    if (delta > limit) over++;
+    samples++;
+  }
+  return { max, mean: total / samples, over: over / samples };
+}
+
+function expectWithin(actual: ArrayLike<number>, expected: ArrayLike<number>, tolerance: Tolerance, label: string): void {
+  const diff = difference(actual, expected, tolerance.maxAbs);
+  if (tolerance.outliers === undefined) {
+    expect.soft(diff.max, `${label}: max difference`).toBeLessThanOrEqual(tolerance.maxAbs);
+  } else {
+    expect.soft(diff.over, `${label}: share past ${tolerance.maxAbs}`).toBeLessThanOrEqual(tolerance.outliers);
+  }
+  expect.soft(diff.mean, `${label}: mean difference`).toBeLessThanOrEqual(tolerance.meanAbs);
+}
+
+/** Mean and spread of `rgba - 128`, plus how often a pixel's channels agree. */
+function noiseStats(rgba: ArrayLike<number>): { mean: number; std: number; mono: number } {
+  let sum = 0;
+  let squares = 0;
+  let mono = 0;
+  const pixels = rgba.length / 4;
+  for (let i = 0; i < rgba.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const n = rgba[i + c] - 128;
+      sum += n;
+      squares += n * n;
+    }
+    if (rgba[i] === rgba[i + 1] && rgba[i + 1] === rgba[i + 2]) mono++;
+  }
+  const mean = sum / (pixels * 3);
+  return { mean, std: Math.sqrt(squares / (pixels * 3) - mean * mean), mono: mono / pixels };
+}
+
+/** Correlation of each red sample with its right-hand neighbour. */
+function neighbourCorrelation(rgba: ArrayLike<number>, width: number): number {
+  let sxy = 0;
+  let sxx = 0;
+  for (let i = 0; i + 4 < rgba.length; i += 4) {
+    if ((i / 4) % width === width - 1) continue;
+    const a = rgba[i] - 128;
+    const b = rgba[i + 4] - 128;
+    sxy += a * b;
+    sxx += a * a;
+  }
+  return sxx > 0 ? sxy / sxx : 0;
+}
+
+/** Pixels differing from the top-left pixel of their `size`-pixel block. */
+function blockBreaks(rgba: ArrayLike<number>, width: number, size: number): number {
+  let breaks = 0;
+  for (let i = 0; i < rgba.length; i += 4) {
+    const x = (i / 4) % width;
+    const y = Math.floor(i / 4 / width);
+    const anchor = ((y - (y % size)) * width + (x - (x % size))) * 4;
+    if (rgba[i] !== rgba[anchor]) breaks++;
+  }
+  return breaks;
+}
+
+test.beforeEach(async ({ page }) => {
+  await page.goto('/');
+});
+
+for (const [name, golden] of Object.entries(GOLDEN_CASES)) {
+  test(`${name} matches the reference renderer`, async ({ page }) => {
+    test.fixme(golden.fixme !== undefined, golden.fixme);
+    const actual = await renderEffect(page, card, golden.effect, golden.params);
+    expectWithin(actual, toRGBA8(golden.reference(card)), golden.tolerance, name);
+  });
+}
+
+const GRAIN_AMOUNT = 0.1;
+
+for (const [mode, size] of [['fine-mono', 1], ['color-speckle', 1], ['coarse-film', 4]] as [GrainMode, number][]) {
+  test(`${mode} grain matches the reference noise statistics`, async ({ page }) => {
+    // Shader and reference draw from different generators, so only the
+    // distribution and structure of the noise can be compared.
+    const params = { amount: GRAIN_AMOUNT, size, seed: 7, mode };
+    const actual = noiseStats(await renderEffect(page, flatGray, 'grain', params));
+    const expected = noiseStats(toRGBA8(grain(flatGray, params)));
+
+    expect(Math.abs(actual.mean)).toBeLessThan(2);
+    expect(Math.abs(expected.mean)).toBeLessThan(2);
+    expect(actual.std).toBeGreaterThan(expected.std * 0.85);
+    expect(actual.std).toBeLessThan(expected.std * 1.15);
+    if (mode === 'color-speckle') {
+      expect(actual.mono).toBeLessThan(0.05);
+      expect(expected.mono).toBeLessThan(0.05);
+    } else {
+      expect(actual.mono).toBe(1);
+      expect(expected.mono).toBe(1);
+    }
+  });
+}
+
+test('coarse-film grain repeats one sample per block', async ({ page }) => {
+  const params = { amount: GRAIN_AMOUNT, size: 4, seed: 7, mode: 'coarse-film' as GrainMode };
+  expect(blockBreaks(await renderEffect(page, flatGray, 'grain', params), flatGray.width, 4)).toBe(0);
+  expect(blockBreaks(toRGBA8(grain(flatGray, params)), flatGray.width, 4)).toBe(0);
+});
+
+test('soft-chroma grain is blurred, zero-mean chroma noise', async ({ page }) => {
+  test.fixme(true, 'The shader skips the §10.3 blur, so its chroma noise is uncorrelated between pixels');
+  const params = { amount: GRAIN_AMOUNT, size: 1, seed: 7, mode: 'soft-chroma' as GrainMode };
+  const actual = await renderEffect(page, flatGray, 'grain', params);
+  const expected = toRGBA8(grain(flatGray, params));
+  expect(neighbourCorrelation(actual, flatGray.width)).toBeGreaterThan(neighbourCorrelation(expected, flatGray.width) * 0.5);
+  expect(Math.abs(noiseStats(actual).mean)).toBeLessThan(2);
+});
+
+test('the GPU blender matches the reference compositor for every PLAN §12 mode', async ({ page }) => {
+  const outputs = await page.evaluate(async ({ base, top, width, height, modes }) => {
+    const load = (path: string) => import(path);
+    const { GpuBlender } = await load('/src/renderer/GpuBlender.ts');
+    const blender = GpuBlender.create();
+    if (!blender) return null;
+    const canvasWith = (rgba: number[]) => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      canvas.getContext('2d')!.putImageData(new ImageData(new Uint8ClampedArray(rgba), width, height), 0, 0);
+      return canvas;
+    };
+    const layer = canvasWith(top);
+    return modes.map((mode) => {
+      const ctx = canvasWith(base).getContext('2d')!;
+      blender.blend(ctx, layer, 0.75, mode);
+      return [...ctx.getImageData(0, 0, width, height).data];
+    });
+  }, { base: [...toRGBA8(card)], top: [...toRGBA8(overlay)], width: card.width, height: card.height, modes: GPU_BLEND_MODES });
+  test.skip(outputs === null, 'WebGL 2 unavailable');
+
+  GPU_BLEND_MODES.forEach((mode, index) => {
+    const expected = compositeLayers([
+      { image: card, opacity: 1, blendMode: 'source-over' },
+      { image: overlay, opacity: 0.75, blendMode: mode }
+    ]);
+    expectWithin(outputs![index], toRGBA8(expected), BLEND_TOLERANCES[mode] ?? DEFAULT_BLEND_TOLERANCE, mode);
+  });
+});
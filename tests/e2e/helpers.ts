@@ -0,0 +1,42 @@
+import type { Page } from '@playwright/test';
+
+// Fixtures shared by the specs. Points are in document units of the
+// default 800 × 600 document, which the canvas shows from its top-left.
+
+/** RGBA of the main canvas at a document point. */
+export async function pixelAt(page: Page, x: number, y: number): Promise<number[]> {
+  return page.evaluate(([docX, docY]) => {
+    const canvas = document.querySelector<HTMLCanvasElement>('#main-canvas')!;
+    const scale = canvas.width / 800;
+    return [...canvas.getContext('2d')!.getImageData(Math.round(docX * scale), Math.round(docY * scale), 1, 1).data];
+  }, [x, y]);
+}
+
+/** Blue channel of the main canvas at a document point. */
+export async function blueAt(page: Page, x: number, y: number): Promise<number> {
+  return (await pixelAt(page, x, y))[2];
+}
+
+/** Alpha of the main canvas at a document point. */
+export async function alphaAt(page: Page, x: number, y: number): Promise<number> {
+  return (await pixelAt(page, x, y))[3];
+}
+
+/** Drags out a rectangle with the Shape tool, by default from (100, 100) to (300, 200). */
+export async function drawRectangle(page: Page, x1 = 100, y1 = 100, x2 = 300, y2 = 200): Promise<void> {
+  const box = await page.locator('#main-canvas').boundingBox();
+  if (!box) throw new Error('Main canvas bounding box unavailable');
+  await page.click('.tool-btn[data-tool="Shape"]');
+  await page.mouse.move(box.x + x1, box.y + y1);
+  await page.mouse.down();
+  await page.mouse.move(box.x + x2, box.y + y2);
+  await page.mouse.up();
+}
+
+/** Adds Levels to the active layer with its Output White set to `outputWhite`. */
+export async function addLevels(page: Page, outputWhite: number): Promise<void> {
+  await page.selectOption('.effects-add-select', 'levels');
+  const input = page.locator('.effect-param-row', { hasText: 'Output White' }).locator('.effect-param-number');
+  await input.fill(`${outputWhite}`);
+  await input.dispatchEvent('change');
+}
@@ -0,0 +1,44 @@
+import { expect, test } from '@playwright/test';
+
+test('grouping nests layers in the panel and ungroup restores them through history', async ({ page }) => {
+  await page.goto('/');
+
+  const canvas = page.locator('#main-canvas');
+  const box = await canvas.boundingBox();
+  if (!box) throw new Error('Main canvas bounding box unavailable');
+
+  await page.click('.tool-btn[data-tool="Shape"]');
+  for (const [x1, y1, x2, y2] of [[100, 100, 200, 160], [300, 250, 400, 330]]) {
+    await page.mouse.move(box.x + x1, box.y + y1);
+    await page.mouse.down();
+    await page.mouse.move(box.x + x2, box.y + y2);
+    await page.mouse.up();
+  }
+
+  await page.locator('.layer-item').nth(1).click({ modifiers: ['Shift'] });
+  await page.click('.menu-item[data-menu="layer"]');
+  await page.click('[data-menu-action="group"]');
+
+  await expect(page.locator('.layer-item')).toHaveCount(3);
+  await expect(page.locator('.layer-item.layer-group .layer-meta')).toHaveText('Group · 2 layers');
+  await expect(page.locator('#transform-x')).toHaveValue('100');
+  await expect(page.locator('#transform-w')).toHaveValue('300');
+
+  await page.click('.layer-group .layer-caret');
+  await expect(page.locator('.layer-item')).toHaveCount(1);
+
+  await page.fill('#transform-x', '150');
+  await page.dispatchEvent('#transform-x', 'change');
+  await expect(page.locator('#transform-x')).toHaveValue('150');
+
+  await page.click('.menu-item[data-menu="layer"]');
+  await page.click('[data-menu-action="ungroup"]');
+  await expect(page.locator('.layer-item')).toHaveCount(2);
+  await expect(page.locator('.layer-item.selected')).toHaveCount(2);
+
+  await page.click('#undo-action');
+  await expect(page.locator('.layer-item.layer-group')).toHaveCount(1);
+  await page.click('#undo-action');
+  await page.click('#undo-action');
+  await expect(page.locator('.layer-item.layer-group')).toHaveCount(0);
+});
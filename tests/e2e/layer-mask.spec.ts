@@ -0,0 +1,70 @@
+import { expect, test } from '@playwright/test';
+import { alphaAt, drawRectangle } from './helpers';
+
+test('gradient masks fade a layer and can be inverted, disabled and undone', async ({ page }) => {
+  await page.goto('/');
+  await drawRectangle(page);
+
+  await page.click('#mask-add-gradient');
+  await expect(page.locator('.layer-mask-thumb canvas')).toHaveCount(1);
+  expect(await alphaAt(page, 110, 150)).toBeGreaterThan(240);
+  expect(await alphaAt(page, 295, 150)).toBeLessThan(20);
+
+  await page.click('#mask-invert');
+  expect(await alphaAt(page, 110, 150)).toBeLessThan(20);
+
+  await page.click('.layer-mask-thumb');
+  await expect(page.locator('.layer-mask-thumb')).toHaveClass(/disabled/);
+  expect(await alphaAt(page, 295, 150)).toBeGreaterThan(240);
+
+  await page.click('#undo-action');
+  await page.click('#undo-action');
+  await page.click('#undo-action');
+  await expect(page.locator('.layer-mask-thumb')).toHaveCount(0);
+  await expect(page.locator('#mask-add-raster')).toBeVisible();
+});
+
+test('the mask brush hides painted areas in one undoable stroke', async ({ page }) => {
+  await page.goto('/');
+  await drawRectangle(page);
+  await page.click('#mask-add-raster');
+  expect(await alphaAt(page, 200, 150)).toBeGreaterThan(240);
+
+  const box = await page.locator('#main-canvas').boundingBox();
+  if (!box) throw new Error('Main canvas bounding box unavailable');
+  await page.click('.tool-btn[data-tool="Mask"]');
+  await page.mouse.move(box.x + 150, box.y + 150);
+  await page.mouse.down();
+  await page.mouse.move(box.x + 250, box.y + 150, { steps: 5 });
+  await page.mouse.up();
+  expect(await alphaAt(page, 200, 150)).toBeLessThan(20);
+  expect(await alphaAt(page, 200, 110)).toBeGreaterThan(240);
+
+  await page.click('#undo-action');
+  expect(await alphaAt(page, 200, 150)).toBeGreaterThan(240);
+});
+
+test('alt-clicking a layer row clips it to the layer below', async ({ page }) => {
+  await page.goto('/');
+  const box = await page.locator('#main-canvas').boundingBox();
+  if (!box) throw new Error('Main canvas bounding box unavailable');
+  await drawRectangle(page);
+  await page.mouse.move(box.x + 200, box.y + 150);
+  await page.mouse.down();
+  await page.mouse.move(box.x + 400, box.y + 250);
+  await page.mouse.up();
+  expect(await alphaAt(page, 350, 225)).toBeGreaterThan(240);
+
+  await page.locator('.layer-item').first().click({ modifiers: ['Alt'] });
+  await expect(page.locator('.layer-item').first()).toHaveClass(/layer-clipped/);
+  expect(await alphaAt(page, 350, 225)).toBe(0);
+  expect(await alphaAt(page, 250, 175)).toBeGreaterThan(240);
+
+  await page.locator('.layer-item').nth(1).locator('.layer-vis').click();
+  expect(await alphaAt(page, 250, 175)).toBe(0);
+
+  await page.click('#undo-action');
+  await page.click('#undo-action');
+  await expect(page.locator('.layer-clipped')).toHaveCount(0);
+  expect(await alphaAt(page, 350, 225)).toBeGreaterThan(240);
+});
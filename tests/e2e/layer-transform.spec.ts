@@ -0,0 +1,37 @@
+import { expect, test } from '@playwright/test';
+
+test('rotation handle and transform panel rotate and flip the active layer', async ({ page }) => {
+  await page.goto('/');
+
+  await page.click('.tool-btn[data-tool="Shape"]');
+  const canvas = page.locator('#main-canvas');
+  const box = await canvas.boundingBox();
+  if (!box) throw new Error('Main canvas bounding box unavailable');
+
+  await page.mouse.move(box.x + 100, box.y + 100);
+  await page.mouse.down();
+  await page.mouse.move(box.x + 260, box.y + 180);
+  await page.mouse.up();
+  await page.click('.tool-btn[data-tool="Move"]');
+
+  // Rotation handle sits above the top edge's midpoint; drag it round to 3 o'clock.
+  await page.mouse.move(box.x + 180, box.y + 76);
+  await page.mouse.down();
+  await page.mouse.move(box.x + 240, box.y + 140, { steps: 4 });
+  await page.mouse.move(box.x + 280, box.y + 140);
+  await page.mouse.up();
+  await expect(page.locator('#transform-r')).toHaveValue('90');
+
+  await page.click('#undo-action');
+  await expect(page.locator('#transform-r')).toHaveValue('0');
+
+  await page.fill('#transform-r', '45');
+  await page.dispatchEvent('#transform-r', 'change');
+  await expect(page.locator('#transform-r')).toHaveValue('45');
+
+  await page.click('#flip-h');
+  await expect(page.locator('#flip-h')).toHaveClass(/active/);
+  await page.click('#undo-action');
+  await expect(page.locator('#flip-h')).not.toHaveClass(/active/);
+  await expect(page.locator('#transform-r')).toHaveValue('45');
+});
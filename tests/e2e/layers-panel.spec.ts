@@ -0,0 +1,59 @@
+import { expect, test } from '@playwright/test';
+
+test('layers can be renamed, duplicated, locked and reordered with undo', async ({ page }) => {
+  await page.goto('/');
+
+  const canvas = page.locator('#main-canvas');
+  const box = await canvas.boundingBox();
+  if (!box) throw new Error('Main canvas bounding box unavailable');
+
+  await page.click('.tool-btn[data-tool="Shape"]');
+  await page.mouse.move(box.x + 100, box.y + 100);
+  await page.mouse.down();
+  await page.mouse.move(box.x + 200, box.y + 160);
+  await page.mouse.up();
+
+  await page.dblclick('.layer-name');
+  await page.fill('.layer-rename', 'Badge');
+  await page.keyboard.press('Enter');
+  await expect(page.locator('.layer-name')).toHaveText('Badge');
+
+  await page.keyboard.press('Control+J');
+  await expect(page.locator('.layer-name')).toHaveText(['Badge copy', 'Badge']);
+
+  await page.locator('.layer-item').nth(1).dragTo(page.locator('.layer-item').nth(0), { targetPosition: { x: 40, y: 4 } });
+  await expect(page.locator('.layer-name')).toHaveText(['Badge', 'Badge copy']);
+  await page.click('#undo-action');
+  await expect(page.locator('.layer-name')).toHaveText(['Badge copy', 'Badge']);
+
+  await page.locator('.layer-item').nth(0).locator('.layer-lock').click();
+  await expect(page.locator('#transform-x')).toBeDisabled();
+  await page.click('.tool-btn[data-tool="Move"]');
+  await page.mouse.move(box.x + 150, box.y + 130);
+  await page.mouse.down();
+  await page.mouse.move(box.x + 250, box.y + 230);
+  await page.mouse.up();
+  await expect(page.locator('#transform-x')).toHaveValue('100');
+});
+
+test('layer rows show a cached post-effect thumbnail', async ({ page }) => {
+  await page.goto('/');
+
+  const canvas = page.locator('#main-canvas');
+  const box = await canvas.boundingBox();
+  if (!box) throw new Error('Main canvas bounding box unavailable');
+
+  await page.click('.tool-btn[data-tool="Shape"]');
+  await page.mouse.move(box.x + 100, box.y + 100);
+  await page.mouse.down();
+  await page.mouse.move(box.x + 260, box.y + 180);
+  await page.mouse.up();
+
+  const thumb = page.locator('.layer-thumb canvas');
+  await expect(thumb).toHaveCount(1);
+  await thumb.evaluate((node) => { node.dataset.marker = 'kept'; });
+
+  await page.fill('#transform-x', '140');
+  await page.dispatchEvent('#transform-x', 'change');
+  await expect(page.locator('.layer-thumb canvas')).toHaveAttribute('data-marker', 'kept');
+});
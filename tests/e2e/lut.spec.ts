@@ -0,0 +1,106 @@
+import { expect, test } from '@playwright/test';
+import type { Page } from '@playwright/test';
+import { drawRectangle, pixelAt } from './helpers';
+
+/** Size-2 3D LUT that inverts every channel; red varies fastest. */
+const INVERT_CUBE = [
+  '# Inverts RGB',
+  'TITLE "Invert"',
+  'LUT_3D_SIZE 2',
+  ...[0, 1].flatMap((b) => [0, 1].flatMap((g) => [0, 1].map((r) => `${1 - r} ${1 - g} ${1 - b}`)))
+].join('\n');
+
+async function loadCube(page: Page, name: string, text: string): Promise<void> {
+  await page.setInputFiles('.effect-param-file input[type="file"]', {
+    name,
+    mimeType: 'text/plain',
+    buffer: Buffer.from(text)
+  });
+}
+
+test('a 3D .cube LUT grades the layer, mixes by intensity and survives a save', async ({ page }) => {
+  await page.goto('/');
+  await drawRectangle(page);
+  const before = await pixelAt(page, 200, 150);
+
+  await page.selectOption('.effects-add-select', 'lut');
+  await expect(page.locator('.effect-param-file-name')).toHaveText('None');
+  expect(await pixelAt(page, 200, 150)).toEqual(before);
+
+  await loadCube(page, 'invert.cube', INVERT_CUBE);
+  await expect(page.locator('.effect-param-file-name')).toHaveText('invert.cube');
+  const inverted = await pixelAt(page, 200, 150);
+  for (let c = 0; c < 3; c++) expect(Math.abs(inverted[c] - (255 - before[c]))).toBeLessThanOrEqual(2);
+
+  const intensity = page.locator('.effect-param-row', { hasText: 'Intensity' }).locator('.effect-param-number');
+  await intensity.fill('0.5');
+  await intensity.dispatchEvent('change');
+  const half = await pixelAt(page, 200, 150);
+  for (let c = 0; c < 3; c++) expect(Math.abs(half[c] - 127.5)).toBeLessThanOrEqual(2);
+
+  await page.click('.menu-item[data-menu="file"]');
+  const downloadPromise = page.waitForEvent('download');
+  await page.click('[data-menu-action="save-project"]');
+  const savedPath = await (await downloadPromise).path();
+
+  await page.click('.layer-item .layer-delete');
+  await page.setInputFiles('#project-input', savedPath);
+  await expect(page.locator('.effect-param-file-name')).toHaveText('invert.cube');
+  expect(await pixelAt(page, 200, 150)).toEqual(half);
+});
+
+test('undo restores the previously loaded LUT', async ({ page }) => {
+  await page.goto('/');
+  await drawRectangle(page);
+  const before = await pixelAt(page, 200, 150);
+  await page.selectOption('.effects-add-select', 'lut');
+  await loadCube(page, 'invert.cube', INVERT_CUBE);
+  expect(await pixelAt(page, 200, 150)).not.toEqual(before);
+
+  await page.click('#undo-action');
+  await expect(page.locator('.effect-param-file-name')).toHaveText('None');
+  expect(await pixelAt(page, 200, 150)).toEqual(before);
+});
+
+test('a malformed .cube is rejected with a message and leaves the effect unchanged', async ({ page }) => {
+  await page.goto('/');
+  await drawRectangle(page);
+  const before = await pixelAt(page, 200, 150);
+  await page.selectOption('.effects-add-select', 'lut');
+
+  await loadCube(page, 'short.cube', 'LUT_3D_SIZE 2\n0 0 0\n1 1 1\n');
+  await expect(page.locator('.effect-param-error')).toHaveText('short.cube: Expected 8 entries for a 3D size of 2, found 2');
+  await expect(page.locator('.effect-param-file-name')).toHaveText('None');
+  expect(await pixelAt(page, 200, 150)).toEqual(before);
+});
+
+test('the .cube parser reads 1D tables, domains and Resolve input ranges', async ({ page }) => {
+  await page.goto('/');
+  const result = await page.evaluate(async () => {
+    const load = (path: string) => import(path);
+    const { parseCubeLut } = await load('/src/effects/lut.ts');
+    const oneD = parseCubeLut('TITLE "Ramp"\r\nLUT_1D_SIZE 3\r\nDOMAIN_MIN 0 0 0\r\nDOMAIN_MAX 2 2 2\r\n0 0 0\r\n0.25 0.5 0.75 # mid\r\n1 1 1\r\n');
+    const resolve = parseCubeLut('LUT_3D_SIZE 2\nLUT_3D_INPUT_RANGE -0.5 1.5\n' + '0 0 0\n'.repeat(8));
+    const errors = ['LUT_3D_SIZE 1\n', '0 0 0\n', 'LUT_3D_SIZE 2\nFOO 1\n'].map((text) => {
+      try {
+        parseCubeLut(text);
+        return null;
+      } catch (error) {
+        return (error as Error).message;
+      }
+    });
+    return {
+      oneD: { title: oneD.title, kind: oneD.kind, size: oneD.size, domainMax: oneD.domainMax, mid: [...oneD.table.slice(4, 8)] },
+      resolve: { kind: resolve.kind, domainMin: resolve.domainMin, domainMax: resolve.domainMax },
+      errors
+    };
+  });
+
+  expect(result.oneD).toEqual({ title: 'Ramp', kind: '1d', size: 3, domainMax: [2, 2, 2], mid: [0.25, 0.5, 0.75, 1] });
+  expect(result.resolve).toEqual({ kind: '3d', domainMin: [-0.5, -0.5, -0.5], domainMax: [1.5, 1.5, 1.5] });
+  expect(result.errors).toEqual([
+    'Line 1: LUT_3D_SIZE must be an integer from 2 to 256',
+    'Missing LUT_1D_SIZE or LUT_3D_SIZE',
+    'Line 2: unknown keyword FOO'
+  ]);
+});
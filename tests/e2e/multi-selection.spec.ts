@@ -0,0 +1,36 @@
+import { expect, test } from '@playwright/test';
+
+test('marquee selects several layers which align as one undo step', async ({ page }) => {
+  await page.goto('/');
+
+  const canvas = page.locator('#main-canvas');
+  const box = await canvas.boundingBox();
+  if (!box) throw new Error('Main canvas bounding box unavailable');
+
+  await page.click('.tool-btn[data-tool="Shape"]');
+  for (const [x1, y1, x2, y2] of [[100, 100, 200, 160], [300, 250, 400, 330]]) {
+    await page.mouse.move(box.x + x1, box.y + y1);
+    await page.mouse.down();
+    await page.mouse.move(box.x + x2, box.y + y2);
+    await page.mouse.up();
+  }
+  await page.click('.tool-btn[data-tool="Move"]');
+
+  await page.mouse.move(box.x + 50, box.y + 50);
+  await page.mouse.down();
+  await page.mouse.move(box.x + 450, box.y + 400, { steps: 4 });
+  await page.mouse.up();
+  await expect(page.locator('.layer-item.selected')).toHaveCount(2);
+
+  await page.click('[data-align="left"]');
+  await expect(page.locator('#transform-x')).toHaveValue('100');
+
+  await page.click('#undo-action');
+  await expect(page.locator('#transform-x')).toHaveValue('300');
+  await expect(page.locator('.layer-item.selected')).toHaveCount(2);
+
+  await page.locator('.layer-item').nth(1).click();
+  await expect(page.locator('.layer-item.selected')).toHaveCount(1);
+  await page.locator('.layer-item').nth(0).click({ modifiers: ['Shift'] });
+  await expect(page.locator('.layer-item.selected')).toHaveCount(2);
+});
@@ -0,0 +1,32 @@
+import { expect, test } from '@playwright/test';
+import { fileURLToPath } from 'node:url';
+
+const swatch = fileURLToPath(new URL('./fixtures/swatch.png', import.meta.url));
+
+test('saving and reopening a project round-trips layers and effects', async ({ page }) => {
+  await page.goto('/');
+
+  await page.setInputFiles('#file-input', swatch);
+  await expect(page.locator('.layer-item')).toHaveCount(1);
+  await page.selectOption('.effects-add-select', 'bloom');
+  await expect(page.locator('.effect-card')).toHaveCount(1);
+  await page.fill('#transform-x', '42');
+  await page.dispatchEvent('#transform-x', 'change');
+
+  await page.click('.menu-item[data-menu="file"]');
+  const downloadPromise = page.waitForEvent('download');
+  await page.click('[data-menu-action="save-project"]');
+  const download = await downloadPromise;
+  expect(download.suggestedFilename()).toBe('untitled.flyer');
+  const savedPath = await download.path();
+
+  await page.click('.layer-item .layer-delete');
+  await expect(page.locator('.layer-item')).toHaveCount(0);
+
+  await page.setInputFiles('#project-input', savedPath);
+  await expect(page.locator('.layer-item')).toHaveCount(1);
+  await expect(page.locator('.layer-name')).toHaveText('swatch.png');
+  await expect(page.locator('#transform-x')).toHaveValue('42');
+  await expect(page.locator('.effect-title')).toHaveText('Bloom');
+  await expect(page.locator('#undo-action')).toBeDisabled();
+});
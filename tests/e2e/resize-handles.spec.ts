@@ -1,4 +1,5 @@
 import { expect, test } from '@playwright/test';
+import { fileURLToPath } from 'node:url';
 
 test('active layer can be resized by dragging corner handles', async ({ page }) => {
   await page.goto('/');
@@ -20,3 +21,54 @@ test('active layer can be resized by dragging corner handles', async ({ page })
   await expect(page.locator('#transform-w')).toHaveValue('360');
   await expect(page.locator('#transform-h')).toHaveValue('270');
 });
+
+test('shift-drag keeps the aspect ratio and edge handles resize one axis', async ({ page }) => {
+  await page.goto('/');
+
+  await page.click('.tool-btn[data-tool="Shape"]');
+  const canvas = page.locator('#main-canvas');
+  const box = await canvas.boundingBox();
+  if (!box) throw new Error('Main canvas bounding box unavailable');
+
+  await page.mouse.move(box.x + 100, box.y + 100);
+  await page.mouse.down();
+  await page.mouse.move(box.x + 260, box.y + 180);
+  await page.mouse.up();
+  await page.click('.tool-btn[data-tool="Move"]');
+
+  await page.keyboard.down('Shift');
+  await page.mouse.move(box.x + 260, box.y + 180);
+  await page.mouse.down();
+  await page.mouse.move(box.x + 340, box.y + 190);
+  await page.mouse.up();
+  await page.keyboard.up('Shift');
+  await expect(page.locator('#transform-w')).toHaveValue('240');
+  await expect(page.locator('#transform-h')).toHaveValue('120');
+
+  await page.mouse.move(box.x + 340, box.y + 160);
+  await page.mouse.down();
+  await page.mouse.move(box.x + 380, box.y + 200);
+  await page.mouse.up();
+  await expect(page.locator('#transform-w')).toHaveValue('280');
+  await expect(page.locator('#transform-h')).toHaveValue('120');
+});
+
+test('locked ratio and natural size use the image dimensions', async ({ page }) => {
+  await page.goto('/');
+
+  await page.setInputFiles('#file-input', fileURLToPath(new URL('./fixtures/swatch.png', import.meta.url)));
+  await page.click('#transform-lock');
+  await expect(page.locator('#transform-lock')).toHaveClass(/active/);
+  await page.fill('#transform-w', '128');
+  await page.dispatchEvent('#transform-w', 'change');
+  await expect(page.locator('#transform-h')).toHaveValue('96');
+
+  await page.click('#transform-lock');
+  await page.fill('#transform-h', '200');
+  await page.dispatchEvent('#transform-h', 'change');
+  await expect(page.locator('#transform-w')).toHaveValue('128');
+
+  await page.click('#transform-natural');
+  await expect(page.locator('#transform-w')).toHaveValue('64');
+  await expect(page.locator('#transform-h')).toHaveValue('48');
+});
@@ -0,0 +1,31 @@
+import { expect, test } from '@playwright/test';
+
+test('shape tool draws a vector layer whose style is editable', async ({ page }) => {
+  await page.goto('/');
+
+  await page.click('.tool-btn[data-tool="Shape"]');
+  await page.selectOption('#shape-kind', 'ellipse');
+
+  const canvas = page.locator('#main-canvas');
+  const box = await canvas.boundingBox();
+  if (!box) throw new Error('Main canvas bounding box unavailable');
+
+  await page.mouse.move(box.x + 100, box.y + 100);
+  await page.mouse.down();
+  await page.mouse.move(box.x + 260, box.y + 180);
+  await page.mouse.up();
+
+  await expect(page.locator('.layer-item')).toHaveCount(1);
+  await expect(page.locator('.layer-meta')).toHaveText('Ellipse');
+  await expect(page.locator('#transform-w')).toHaveValue('160');
+  await expect(page.locator('#transform-h')).toHaveValue('80');
+
+  await page.selectOption('#shape-fill-type', 'linear');
+  await expect(page.locator('#shape-fill-angle')).toBeVisible();
+  await page.fill('#shape-stroke-width', '6');
+  await page.dispatchEvent('#shape-stroke-width', 'change');
+  await expect(page.locator('#shape-stroke-width')).toHaveValue('6');
+
+  await page.click('#undo-action');
+  await expect(page.locator('#shape-stroke-width')).toHaveValue('0');
+});
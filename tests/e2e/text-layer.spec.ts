@@ -0,0 +1,49 @@
+import { expect, test } from '@playwright/test';
+
+test('text tool creates an editable text layer in one undo step', async ({ page }) => {
+  await page.goto('/');
+
+  await page.click('.tool-btn[data-tool="Text"]');
+  const canvas = page.locator('#main-canvas');
+  const box = await canvas.boundingBox();
+  if (!box) throw new Error('Main canvas bounding box unavailable');
+
+  await page.mouse.click(box.x + 100, box.y + 100);
+  await expect(page.locator('#text-editor')).toBeFocused();
+  await page.keyboard.type('Summer Party');
+  await page.keyboard.press('Escape');
+
+  await expect(page.locator('#text-editor')).toHaveCount(0);
+  await expect(page.locator('.layer-item')).toHaveCount(1);
+  await expect(page.locator('.layer-meta')).toHaveText('Text · 64px');
+
+  await page.fill('#text-size', '32');
+  await page.dispatchEvent('#text-size', 'change');
+  await expect(page.locator('.layer-meta')).toHaveText('Text · 32px');
+
+  await page.click('#undo-action');
+  await expect(page.locator('.layer-meta')).toHaveText('Text · 64px');
+  await page.click('#undo-action');
+  await expect(page.locator('.layer-item')).toHaveCount(0);
+});
+
+test('starting a second text layer commits the first as its own undo step', async ({ page }) => {
+  await page.goto('/');
+
+  await page.click('.tool-btn[data-tool="Text"]');
+  const box = await page.locator('#main-canvas').boundingBox();
+  if (!box) throw new Error('Main canvas bounding box unavailable');
+
+  await page.mouse.click(box.x + 100, box.y + 100);
+  await page.keyboard.type('Summer');
+  // Clicking away while still editing starts the next layer straight away.
+  await page.mouse.click(box.x + 100, box.y + 300);
+  await page.keyboard.type('Party');
+  await page.keyboard.press('Escape');
+  await expect(page.locator('.layer-item')).toHaveCount(2);
+
+  await page.click('#undo-action');
+  await expect(page.locator('.layer-item')).toHaveCount(1);
+  await page.click('#undo-action');
+  await expect(page.locator('.layer-item')).toHaveCount(0);
+});